@@ -22,6 +22,11 @@ interface TeeResponse {
 
 const SOCKET_PATH = '/tmp/enclave.sock';
 
+// Listen on TCP instead of the Unix socket when set (e.g. in docker-compose)
+const TCP_PORT = process.env.MOCK_ENCLAVE_PORT
+  ? parseInt(process.env.MOCK_ENCLAVE_PORT)
+  : undefined;
+
 // Remove existing socket
 try {
   fs.unlinkSync(SOCKET_PATH);
@@ -62,6 +67,20 @@ const server = net.createServer((socket) => {
         let response: TeeResponse;
 
         switch (request.method) {
+          case 'hello':
+            // Protocol handshake sent by the host on every new connection
+            response = {
+              id: request.id,
+              success: true,
+              data: {
+                protocolVersion: '1.0',
+                encoding: 'json',
+                capabilities: ['get_price', 'get_attestation'],
+                enclaveVersion: 'mock-enclave',
+              },
+            };
+            break;
+
           case 'get_price':
             const symbol = request.params?.symbol || 'BTCUSDT';
             response = {
@@ -71,7 +90,7 @@ const server = net.createServer((socket) => {
                 symbol,
                 price: (Math.random() * 50000 + 40000).toFixed(2),
                 timestamp: Date.now(),
-                source: 'mock-enclave'
+                source: 'mock-enclave',
               },
               signature: '0xmock' + Math.random().toString(16).substring(2, 66),
             };
@@ -87,8 +106,8 @@ const server = net.createServer((socket) => {
                 pcrs: {
                   pcr0: 'mock-pcr0',
                   pcr1: 'mock-pcr1',
-                  pcr2: 'mock-pcr2'
-                }
+                  pcr2: 'mock-pcr2',
+                },
               },
             };
             break;
@@ -126,15 +145,23 @@ const server = net.createServer((socket) => {
   });
 });
 
-server.listen(SOCKET_PATH, () => {
-  console.log(`\n✓ Mock enclave listening on ${SOCKET_PATH}`);
+const onListening = () => {
+  console.log(
+    `\n✓ Mock enclave listening on ${TCP_PORT ? `tcp://0.0.0.0:${TCP_PORT}` : SOCKET_PATH}`
+  );
   console.log('✓ Ready to accept connections');
   console.log('\nSupported methods:');
   console.log('  - get_price (params: {symbol: string})');
   console.log('  - get_attestation');
   console.log('\nPress Ctrl+C to stop\n');
   console.log('═══════════════════════════════════════════');
-});
+};
+
+if (TCP_PORT) {
+  server.listen(TCP_PORT, '0.0.0.0', onListening);
+} else {
+  server.listen(SOCKET_PATH, onListening);
+}
 
 // Graceful shutdown
 process.on('SIGINT', () => {
@@ -3,7 +3,21 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { VsocketError, L3Error, AuthError, ConfigError } from '../../utils/errors';
+import {
+  VsocketError,
+  EnclaveTimeoutError,
+  L3Error,
+  AuthError,
+  ConfigError,
+  UnknownTappError,
+  UnknownAttestationError,
+  QueueFullError,
+  ServiceUnavailableError,
+  SignatureVerificationError,
+  AttestationError,
+  MeasurementPolicyError,
+  ValidationError,
+} from '../../utils/errors';
 import logger from '../../utils/logger';
 
 export function errorMiddleware() {
@@ -15,7 +29,54 @@ export function errorMiddleware() {
     });
 
     // Determine status code and response based on error type
-    if (err instanceof VsocketError) {
+    if (err instanceof UnknownTappError) {
+      res.status(404).json({
+        error: 'Unknown TAPP',
+        message: err.message,
+      });
+    } else if (err instanceof UnknownAttestationError) {
+      res.status(404).json({
+        error: 'Unknown attestation',
+        message: err.message,
+      });
+    } else if (err instanceof ValidationError) {
+      res.status(400).json({
+        error: 'Invalid request',
+        message: err.message,
+      });
+    } else if (err instanceof QueueFullError) {
+      res.set('Retry-After', retryAfterSeconds(err.retryAfterMs));
+      res.status(429).json({
+        error: 'Too many requests',
+        message: err.message,
+      });
+    } else if (err instanceof ServiceUnavailableError) {
+      res.set('Retry-After', retryAfterSeconds(err.retryAfterMs));
+      res.status(503).json({
+        error: 'Service unavailable',
+        message: err.message,
+      });
+    } else if (err instanceof SignatureVerificationError) {
+      res.status(502).json({
+        error: 'Invalid enclave response',
+        message: err.message,
+      });
+    } else if (err instanceof MeasurementPolicyError) {
+      res.status(503).json({
+        error: 'Enclave not approved',
+        message: err.message,
+      });
+    } else if (err instanceof AttestationError) {
+      res.status(502).json({
+        error: 'Invalid attestation',
+        message: err.message,
+      });
+    } else if (err instanceof EnclaveTimeoutError) {
+      res.status(504).json({
+        error: 'Enclave timeout',
+        message: err.message,
+      });
+    } else if (err instanceof VsocketError) {
       res.status(503).json({
         error: 'Enclave unavailable',
         message: err.message,
@@ -43,3 +104,10 @@ export function errorMiddleware() {
     }
   };
 }
+
+/**
+ * Retry-After value in whole seconds, at least 1
+ */
+function retryAfterSeconds(ms: number): string {
+  return String(Math.max(1, Math.ceil(ms / 1000)));
+}
@@ -1,74 +1,50 @@
 /**
  * POST /api/v1/attest - Trigger attestation submission
+ *
+ * The attestation is requested over the `nonce` in the body (hex) or, when
+ * there is none, over a random one; the nonce is submitted with it. Accepted
+ * attestations are tracked until the guardians reach consensus, see
+ * GET /api/v1/attest/:attestationId.
  */
 
-import { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { SocketClient } from '../../vsock/client';
-import { L3Client } from '../../l3/client';
-import { TeeRequest, AttestationBundle } from '../../types';
+import { Request, Response, NextFunction } from 'express';
+import { EnclaveRegistry } from '../../enclaves/registry';
+import { parseNonce } from '../../attestation/challenge';
+import { AttestationSubmitter, submitFreshAttestation } from '../../attestation/submit';
+import { DAppRequest } from '../../types';
 import logger from '../../utils/logger';
 
-export function createAttestHandler(vsockClient: SocketClient, l3Client: L3Client, tappId: string) {
-  return async (_req: Request, res: Response) => {
+export function createAttestHandler(enclaves: EnclaveRegistry, submitter: AttestationSubmitter) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      logger.info('Requesting attestation from enclave');
-
-      // Request attestation from enclave
-      const attestationRequest: TeeRequest = {
-        id: uuidv4(),
-        method: 'get_attestation',
-        params: {},
-        timestamp: Date.now(),
-      };
-
-      const response = await vsockClient.sendRequest(attestationRequest);
+      // A TAPP in the path takes precedence over one in the body
+      const { tappId, client: vsockClient } = enclaves.resolve(
+        req.params.tappId ?? (req.body as Partial<DAppRequest> | undefined)?.tappId
+      );
 
-      if (!response.success || !response.data) {
-        throw new Error('Failed to get attestation from enclave');
-      }
+      // A caller-supplied challenge, or a random one, so the document cannot be a replay
+      const nonce = parseNonce((req.body as { nonce?: unknown } | undefined)?.nonce);
 
-      // Check if attestation data exists
-      if (!response.data.attestation) {
+      const submitted = await submitFreshAttestation(tappId, vsockClient, submitter, nonce);
+      if (!submitted) {
         return res.status(501).json({
           error: 'Attestation not supported',
           message: 'This enclave does not support attestation (requires AWS Nitro hardware)',
         });
       }
-
-      // Extract attestation data
-      const attestationDoc = Buffer.from(response.data.attestation, 'base64');
-      const certificateChain = response.data.certificates.map((cert: string) =>
-        Buffer.from(cert, 'base64')
-      );
-
-      // Assemble bundle
-      const bundle: AttestationBundle = {
-        attestationDoc,
-        certificateChain,
-        enclavePublicKey: response.data.publicKey,
-        tappId,
-      };
-
-      // Submit to L3
-      const submission = await l3Client.submitAttestation(bundle);
-
-      logger.info('Attestation submitted successfully', {
-        attestationId: submission.attestationId,
-      });
+      const { fresh, submission, tracked } = submitted;
 
       // Return confirmation
       return res.json({
         status: 'submitted',
         attestationId: submission.attestationId,
         submissionTime: submission.submissionTime,
+        nonce: fresh.nonce.toString('hex'),
+        consensusDeadline: tracked.deadline,
       });
     } catch (error) {
       logger.error('Attestation failed', { error: (error as Error).message });
-      return res.status(500).json({
-        error: 'Internal server error',
-        message: (error as Error).message,
-      });
+      return next(error);
     }
   };
 }
@@ -0,0 +1,57 @@
+/**
+ * GET /api/v1/attestation - The enclave's latest attestation, for DApps that
+ * verify the enclave themselves
+ *
+ * Served from the TAPP's attestation cache. `Accept: application/cbor` gets
+ * the raw COSE_Sign1 attestation document, which carries the certificate
+ * chain, public key and PCRs itself; anything else gets JSON with the
+ * document and certificates base64-encoded and the PCRs extracted.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { EnclaveRegistry } from '../../enclaves/registry';
+import { AttestationResponse } from '../../types';
+
+const CBOR = 'application/cbor';
+
+export function createAttestationHandler(enclaves: EnclaveRegistry) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tappId } = enclaves.resolve(req.params.tappId);
+      const cached = await enclaves.getAttestationCache(tappId).get();
+      if (!cached) {
+        return res.status(501).json({
+          error: 'Attestation not supported',
+          message: 'This enclave does not support attestation (requires AWS Nitro hardware)',
+        });
+      }
+
+      // Clients may reuse the document until the host would stop serving it
+      const maxAgeSeconds = Math.max(
+        0,
+        Math.floor((cached.expiresAt.getTime() - Date.now()) / 1000)
+      );
+      res.set('Cache-Control', `public, max-age=${maxAgeSeconds}`);
+      res.set('Last-Modified', cached.fetchedAt.toUTCString());
+
+      if (req.accepts(['application/json', CBOR]) === CBOR) {
+        return res.type(CBOR).send(cached.attestationDoc);
+      }
+
+      const body: AttestationResponse = {
+        tappId,
+        attestationDoc: cached.attestationDoc.toString('base64'),
+        certificateChain: cached.certificateChain.map((cert) => cert.toString('base64')),
+        publicKey: cached.publicKey,
+        moduleId: cached.attestation.moduleId,
+        timestamp: cached.attestation.timestamp,
+        pcrs: cached.attestation.pcrs,
+        fetchedAt: cached.fetchedAt,
+        expiresAt: cached.expiresAt,
+      };
+      return res.json(body);
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * POST /api/v1/attestation/challenge - Fresh attestation over a DApp's nonce
+ *
+ * The body may carry a hex `nonce` (1 to 512 bytes); without one the host
+ * picks a random nonce. The document is verified, including that it carries
+ * the nonce and postdates the request, before it is returned, so DApps can
+ * check the enclave's identity without trusting an earlier document.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { EnclaveRegistry } from '../../enclaves/registry';
+import { NitroAttestationVerifier } from '../../attestation/nitro';
+import { parseNonce, requestFreshAttestation } from '../../attestation/challenge';
+import { AttestationChallengeResponse, DAppRequest } from '../../types';
+import logger from '../../utils/logger';
+
+export function createChallengeHandler(
+  enclaves: EnclaveRegistry,
+  attestationVerifier: NitroAttestationVerifier
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const body = req.body as (Partial<DAppRequest> & { nonce?: unknown }) | undefined;
+      const { tappId, client } = enclaves.resolve(req.params.tappId ?? body?.tappId);
+      const nonce = parseNonce(body?.nonce);
+
+      const fresh = await requestFreshAttestation(client, attestationVerifier, nonce);
+      if (!fresh) {
+        return res.status(501).json({
+          error: 'Attestation not supported',
+          message: 'This enclave does not support attestation (requires AWS Nitro hardware)',
+        });
+      }
+      logger.info('Attestation challenge answered', {
+        tappId,
+        moduleId: fresh.attestation.moduleId,
+      });
+
+      const challenge: AttestationChallengeResponse = {
+        tappId,
+        nonce: fresh.nonce.toString('hex'),
+        attestationDoc: fresh.attestationDoc.toString('base64'),
+        certificateChain: fresh.certificateChain.map((cert) => cert.toString('base64')),
+        publicKey: fresh.publicKey,
+        moduleId: fresh.attestation.moduleId,
+        timestamp: fresh.attestation.timestamp,
+        pcrs: fresh.attestation.pcrs,
+      };
+      return res.json(challenge);
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
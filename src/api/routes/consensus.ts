@@ -0,0 +1,61 @@
+/**
+ * GET /api/v1/attest/:attestationId - Consensus progress of a submitted attestation
+ * GET /api/v1/attest - History of submitted attestations
+ *
+ * The history can be narrowed with the `tappId` (or the /tapps/:tappId path),
+ * `state` and `limit` query parameters.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ConsensusTracker } from '../../l3/consensus';
+import { AttestationHistoryResponse, ConsensusState } from '../../types';
+import { UnknownAttestationError, ValidationError } from '../../utils/errors';
+
+const STATES: ConsensusState[] = [
+  'submitted',
+  'pending',
+  'achieved',
+  'failed',
+  'disputed',
+  'expired',
+];
+
+export function createConsensusStatusHandler(tracker: ConsensusTracker) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { attestationId } = req.params as { attestationId: string; tappId?: string };
+    const record = tracker.get(attestationId);
+
+    // Under /tapps/:tappId, attestations of other TAPPs are not found
+    if (!record || (req.params.tappId !== undefined && record.tappId !== req.params.tappId)) {
+      return next(new UnknownAttestationError(attestationId));
+    }
+    return res.json(record);
+  };
+}
+
+export function createConsensusHistoryHandler(tracker: ConsensusTracker) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const query = req.query as { tappId?: unknown; state?: unknown; limit?: unknown };
+
+      const tappId = req.params.tappId ?? query.tappId;
+      if (tappId !== undefined && typeof tappId !== 'string') {
+        throw new ValidationError('tappId must be a string');
+      }
+      if (query.state !== undefined && !STATES.includes(query.state as ConsensusState)) {
+        throw new ValidationError(`state must be one of ${STATES.join(', ')}`);
+      }
+      const limit = query.limit === undefined ? undefined : Number(query.limit);
+      if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+        throw new ValidationError('limit must be a positive integer');
+      }
+
+      const history: AttestationHistoryResponse = {
+        attestations: tracker.list({ tappId, state: query.state as ConsensusState, limit }),
+      };
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
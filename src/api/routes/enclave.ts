@@ -0,0 +1,34 @@
+/**
+ * GET /api/v1/enclave - Enclave identity (public key and where it came from)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { EnclaveRegistry } from '../../enclaves/registry';
+import { EnclaveInfoResponse } from '../../types';
+import logger from '../../utils/logger';
+
+export function createEnclaveHandler(enclaves: EnclaveRegistry) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tappId, client } = enclaves.resolve(req.params.tappId);
+      const tracker = enclaves.getKeyTracker(tappId);
+
+      // Key tracking fetches the key on connect; ask now if that has not happened yet
+      if (!tracker.getKey() && client.isConnected()) {
+        await tracker.refresh().catch((error: Error) => {
+          logger.warn('Could not fetch enclave public key', { tappId, error: error.message });
+        });
+      }
+
+      const info: EnclaveInfoResponse = {
+        tappId,
+        enclaveConnectionState: client.getConnectionState(),
+        ...tracker.getStatus(),
+      };
+
+      res.json(info);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
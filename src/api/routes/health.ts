@@ -3,17 +3,33 @@
  */
 
 import { Request, Response } from 'express';
-import { SocketClient } from '../../vsock/client';
+import { EnclaveRegistry, findClientLayer } from '../../enclaves/registry';
 import { L3Client } from '../../l3/client';
-import { HealthStatus } from '../../types';
+import { CircuitBreakerSocketClient } from '../../vsock/breaker';
+import { CircuitState, ConnectionState, HealthStatus } from '../../types';
 
 const startTime = Date.now();
 
-export function createHealthHandler(vsockClient: SocketClient, l3Client: L3Client) {
+export function createHealthHandler(enclaves: EnclaveRegistry, l3Client: L3Client) {
   return async (_req: Request, res: Response) => {
     try {
-      // Check enclave connection
-      const enclaveConnected = vsockClient.isConnected();
+      // Check enclave connections; the host is only healthy if every TAPP is served
+      const states: Record<string, ConnectionState> = {};
+      const circuitBreakers: Record<string, CircuitState> = {};
+      let enclaveConnected = true;
+      for (const { tappId, client } of enclaves.entries()) {
+        states[tappId] = client.getConnectionState();
+        enclaveConnected &&= client.isConnected();
+        const breaker = findClientLayer(client, CircuitBreakerSocketClient);
+        if (breaker) {
+          circuitBreakers[`enclave:${tappId}`] = breaker.getBreakerStats().state;
+        }
+      }
+      const l3Circuit = l3Client.getBreakerStats();
+      if (l3Circuit) {
+        circuitBreakers.l3 = l3Circuit.state;
+      }
+      const circuitOpen = Object.values(circuitBreakers).includes('open');
 
       // Check L3 reachability
       const l3Reachable = await l3Client.checkHealth();
@@ -22,10 +38,13 @@ export function createHealthHandler(vsockClient: SocketClient, l3Client: L3Clien
       const uptimeSeconds = Math.floor((Date.now() - startTime) / 1000);
 
       const status: HealthStatus = {
-        status: enclaveConnected && l3Reachable ? 'healthy' : 'unhealthy',
+        status: enclaveConnected && l3Reachable && !circuitOpen ? 'healthy' : 'unhealthy',
         enclaveConnected,
+        enclaveConnectionState: enclaves.get().getConnectionState(),
         l3Reachable,
         uptimeSeconds,
+        enclaves: states,
+        circuitBreakers,
       };
 
       res.json(status);
@@ -1,20 +1,32 @@
 /**
  * POST /api/v1/request - Forward request to enclave
+ *
+ * Clients sending `Accept: application/x-ndjson` get the enclave's streamed
+ * response as newline-delimited JSON, one line per frame, over a chunked
+ * HTTP response.
  */
 
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { SocketClient } from '../../vsock/client';
-import { TeeRequest, DAppRequest } from '../../types';
+import { EnclaveRegistry } from '../../enclaves/registry';
+import { TeeRequest, TeeResponse, DAppRequest } from '../../types';
 import logger from '../../utils/logger';
 
-export function createRequestHandler(vsockClient: SocketClient) {
-  return async (req: Request, res: Response) => {
+const NDJSON = 'application/x-ndjson';
+
+export function createRequestHandler(enclaves: EnclaveRegistry) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
       const dappRequest = req.body as DAppRequest;
 
+      // A TAPP in the path takes precedence over one in the body
+      const { tappId, client: vsockClient } = enclaves.resolve(
+        req.params.tappId ?? dappRequest.tappId
+      );
+
       logger.info('Forwarding request to enclave', {
         method: dappRequest.method,
+        tappId,
       });
 
       // Convert DApp request to TeeRequest
@@ -25,14 +37,64 @@ export function createRequestHandler(vsockClient: SocketClient) {
         timestamp: Date.now(),
       };
 
+      // Abandon the enclave call if the HTTP client goes away
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort();
+        }
+      });
+
+      if (req.accepts(['application/json', NDJSON]) === NDJSON) {
+        await streamResponse(
+          teeRequest.id,
+          vsockClient.streamRequest(teeRequest, { signal: controller.signal }),
+          res
+        );
+        return;
+      }
+
       // Send to enclave
-      const response = await vsockClient.sendRequest(teeRequest);
+      const response = await vsockClient.sendRequest(teeRequest, { signal: controller.signal });
 
       // Return response
       res.json(response);
     } catch (error) {
       logger.error('Request handling failed', { error: (error as Error).message });
-      throw error;
+      next(error);
     }
   };
 }
+
+/**
+ * Write each frame as one NDJSON line. Failures before the first frame go to
+ * the error middleware; later ones end the body with a failed 'end' line.
+ */
+async function streamResponse(
+  id: string,
+  frames: AsyncIterableIterator<TeeResponse>,
+  res: Response
+): Promise<void> {
+  try {
+    for await (const frame of frames) {
+      if (!res.headersSent) {
+        res.status(200).type(NDJSON);
+      }
+      res.write(`${JSON.stringify(frame)}\n`);
+    }
+  } catch (error) {
+    if (!res.headersSent) {
+      throw error;
+    }
+    logger.error('Enclave stream failed', { id, error: (error as Error).message });
+    const failure: TeeResponse = {
+      id,
+      success: false,
+      stream: 'end',
+      error: (error as Error).message,
+    };
+    res.write(`${JSON.stringify(failure)}\n`);
+  }
+
+  res.end();
+}
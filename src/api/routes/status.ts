@@ -2,39 +2,100 @@
  * GET /api/v1/status - Detailed status endpoint
  */
 
-import { Request, Response } from 'express';
-import { SocketClient } from '../../vsock/client';
+import { Request, Response, NextFunction } from 'express';
+import { EnclaveRegistry, findClientLayer } from '../../enclaves/registry';
+import { PooledSocketClient } from '../../vsock/pool';
+import { BalancedSocketClient } from '../../vsock/balancer';
+import { CircuitBreakerSocketClient } from '../../vsock/breaker';
+import { AdmissionSocketClient } from '../../vsock/admission';
+import { VerifyingSocketClient } from '../../vsock/verifier';
+import { MeasurementPolicySocketClient } from '../../vsock/measurements';
+import { HOST_VERSION } from '../../vsock/protocol';
 import { L3Client } from '../../l3/client';
-import { StatusResponse } from '../../types';
+import { ConnectionState, StatusResponse } from '../../types';
+import { UnknownTappError } from '../../utils/errors';
 
 const startTime = Date.now();
 let requestsProcessed = 0;
 
-export function createStatusHandler(vsockClient: SocketClient, l3Client: L3Client) {
-  return async (_req: Request, res: Response) => {
+export function createStatusHandler(enclaves: EnclaveRegistry, l3Client: L3Client) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const { tappId, client: vsockClient } = enclaves.resolve(req.params.tappId);
+
       // Check enclave connection
       const enclaveConnected = vsockClient.isConnected();
 
-      // Check L3 endpoint
+      // Check L3 guardians; reachable means a quorum of them is
       const l3Reachable = await l3Client.checkHealth();
+      const l3Guardians = l3Client.getGuardianStatus();
 
       // Calculate uptime
       const uptimeSeconds = Math.floor((Date.now() - startTime) / 1000);
 
+      // Negotiated during the connection handshake
+      const protocol = vsockClient.getProtocolInfo();
+
+      // Fetched from the enclave when it connected
+      const enclaveKey = enclaves.getKeyTracker(tappId).getStatus();
+
       const status: StatusResponse = {
-        hostVersion: '0.1.0',
+        tappId,
+        hostVersion: HOST_VERSION,
+        protocolVersion: protocol?.version,
+        enclaveCapabilities: protocol?.capabilities,
         status: enclaveConnected && l3Reachable ? 'healthy' : 'unhealthy',
         enclaveConnected,
-        enclavePublicKey: undefined, // TODO: Get from enclave
+        enclaveConnectionState: vsockClient.getConnectionState(),
+        enclavePublicKey: enclaveKey.publicKey,
+        enclaveKey,
         l3Reachable,
-        l3GuardiansReachable: l3Reachable ? 1 : 0,
+        l3GuardiansReachable: l3Guardians.filter((guardian) => guardian.reachable).length,
+        l3Quorum: l3Client.getQuorum(),
+        l3Guardians,
         uptimeSeconds,
         requestsProcessed,
+        rejectedFrames: vsockClient.getRejectedFrameStats(),
       };
 
+      // Stats of each layer wrapped around the enclave transport
+      status.enclaveSignatures = findClientLayer(
+        vsockClient,
+        VerifyingSocketClient
+      )?.getVerificationStats();
+      status.enclaveMeasurements = findClientLayer(
+        vsockClient,
+        MeasurementPolicySocketClient
+      )?.getPolicyStatus();
+      status.enclaveAdmission = findClientLayer(
+        vsockClient,
+        AdmissionSocketClient
+      )?.getAdmissionStats();
+      status.enclaveCircuit = findClientLayer(
+        vsockClient,
+        CircuitBreakerSocketClient
+      )?.getBreakerStats();
+      status.enclavePool = findClientLayer(vsockClient, PooledSocketClient)?.getStats();
+      status.enclaveReplicas = findClientLayer(vsockClient, BalancedSocketClient)?.getStats();
+      status.l3Circuit = l3Client.getBreakerStats();
+
+      // The unscoped status also summarises every other enclave
+      if (req.params.tappId === undefined) {
+        status.enclaves = Object.fromEntries(
+          enclaves
+            .entries()
+            .map(({ tappId: id, client }): [string, ConnectionState] => [
+              id,
+              client.getConnectionState(),
+            ])
+        );
+      }
+
       res.json(status);
     } catch (error) {
+      if (error instanceof UnknownTappError) {
+        return next(error);
+      }
       res.status(503).json({
         error: (error as Error).message,
       });
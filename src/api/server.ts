@@ -8,40 +8,87 @@ import http from 'http';
 import fs from 'fs';
 import cors from 'cors';
 import { ApiConfig } from '../types';
-import { SocketClient } from '../vsock/client';
+import { EnclaveRegistry } from '../enclaves/registry';
 import { L3Client } from '../l3/client';
+import { ConsensusTracker } from '../l3/consensus';
 import { AuthModule } from '../auth';
+import { NitroAttestationVerifier } from '../attestation/nitro';
 import { loggingMiddleware } from './middleware/logging';
 import { errorMiddleware } from './middleware/error';
 import { createRequestHandler } from './routes/request';
 import { createAttestHandler } from './routes/attest';
 import { createHealthHandler } from './routes/health';
 import { createStatusHandler } from './routes/status';
+import { createEnclaveHandler } from './routes/enclave';
+import { createChallengeHandler } from './routes/challenge';
+import { createAttestationHandler } from './routes/attestation';
+import { createConsensusHistoryHandler, createConsensusStatusHandler } from './routes/consensus';
 import logger from '../utils/logger';
 
 export interface ServerDependencies {
-  vsockClient: SocketClient;
+  enclaves: EnclaveRegistry;
   l3Client: L3Client;
   authModule: AuthModule;
-  tappId: string;
+  attestationVerifier?: NitroAttestationVerifier; // Defaults to one with no trusted root, rejecting every document
+  consensusTracker?: ConsensusTracker; // Defaults to an unpersisted tracker
 }
 
 export function createServer(config: ApiConfig, deps: ServerDependencies): Application {
   const app = express();
+  const attestationVerifier = deps.attestationVerifier ?? new NitroAttestationVerifier();
+  const consensusTracker = deps.consensusTracker ?? new ConsensusTracker(deps.l3Client);
 
   // Middleware
   app.use(express.json());
   app.use(cors());
   app.use(loggingMiddleware());
 
-  // Routes
-  app.post('/api/v1/request', createRequestHandler(deps.vsockClient));
-
-  app.post('/api/v1/attest', createAttestHandler(deps.vsockClient, deps.l3Client, deps.tappId));
-
-  app.get('/api/v1/health', createHealthHandler(deps.vsockClient, deps.l3Client));
-
-  app.get('/api/v1/status', createStatusHandler(deps.vsockClient, deps.l3Client));
+  // Routes (the /tapps/:tappId variants address one enclave explicitly)
+  app.post(
+    ['/api/v1/request', '/api/v1/tapps/:tappId/request'],
+    createRequestHandler(deps.enclaves)
+  );
+
+  app.post(
+    ['/api/v1/attest', '/api/v1/tapps/:tappId/attest'],
+    createAttestHandler(deps.enclaves, {
+      l3Client: deps.l3Client,
+      attestationVerifier,
+      consensusTracker,
+    })
+  );
+
+  app.get(
+    ['/api/v1/attest', '/api/v1/tapps/:tappId/attest'],
+    createConsensusHistoryHandler(consensusTracker)
+  );
+
+  app.get(
+    ['/api/v1/attest/:attestationId', '/api/v1/tapps/:tappId/attest/:attestationId'],
+    createConsensusStatusHandler(consensusTracker)
+  );
+
+  app.get(
+    ['/api/v1/attestation', '/api/v1/tapps/:tappId/attestation'],
+    createAttestationHandler(deps.enclaves)
+  );
+
+  app.post(
+    ['/api/v1/attestation/challenge', '/api/v1/tapps/:tappId/attestation/challenge'],
+    createChallengeHandler(deps.enclaves, attestationVerifier)
+  );
+
+  app.get('/api/v1/health', createHealthHandler(deps.enclaves, deps.l3Client));
+
+  app.get(
+    ['/api/v1/status', '/api/v1/tapps/:tappId/status'],
+    createStatusHandler(deps.enclaves, deps.l3Client)
+  );
+
+  app.get(
+    ['/api/v1/enclave', '/api/v1/tapps/:tappId/enclave'],
+    createEnclaveHandler(deps.enclaves)
+  );
 
   // Error handling (must be last)
   app.use(errorMiddleware());
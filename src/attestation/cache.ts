@@ -0,0 +1,172 @@
+/**
+ * Cache of an enclave's latest attestation, for DApps that verify the
+ * enclave themselves
+ *
+ * The attestation is fetched with get_attestation and verified before it is
+ * cached. While started, the cache is refreshed in the background every
+ * `refreshIntervalMs` and whenever the enclave connects, so requests are
+ * normally answered without a round trip to the enclave; an entry older than
+ * `ttlMs` is never served and is fetched again on demand. The entry is
+ * dropped when the enclave disconnects, and refreshed when a replica comes
+ * back. Only documents that attest the public key the enclave reports are
+ * cached.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AttestationError, HostError } from '../utils/errors';
+import logger from '../utils/logger';
+import { SocketClient } from '../vsock/client';
+import { NitroAttestation, NitroAttestationVerifier, attestsPublicKey } from './nitro';
+
+export interface AttestationCacheOptions {
+  ttlMs: number; // Longest an attestation is served after it was fetched
+  refreshIntervalMs: number; // Background refresh period while started
+}
+
+export const DEFAULT_ATTESTATION_CACHE_OPTIONS: AttestationCacheOptions = {
+  ttlMs: 60 * 1000,
+  refreshIntervalMs: 30 * 1000,
+};
+
+export interface CachedAttestation {
+  attestation: NitroAttestation;
+  attestationDoc: Buffer;
+  certificateChain: Buffer[];
+  publicKey: string;
+  fetchedAt: Date;
+  expiresAt: Date;
+}
+
+export class AttestationCache {
+  readonly tappId: string;
+  private readonly client: SocketClient;
+  private readonly verifier: NitroAttestationVerifier;
+  private readonly options: AttestationCacheOptions;
+  private entry?: CachedAttestation;
+  private fetching?: Promise<CachedAttestation | undefined>;
+  private timer?: NodeJS.Timeout;
+  private readonly onConnected = () => this.refreshInBackground();
+  private readonly onDisconnected = () => {
+    this.entry = undefined;
+  };
+
+  constructor(
+    tappId: string,
+    client: SocketClient,
+    verifier: NitroAttestationVerifier,
+    options: Partial<AttestationCacheOptions> = {}
+  ) {
+    this.tappId = tappId;
+    this.client = client;
+    this.verifier = verifier;
+    this.options = {
+      ttlMs: options.ttlMs ?? DEFAULT_ATTESTATION_CACHE_OPTIONS.ttlMs,
+      refreshIntervalMs:
+        options.refreshIntervalMs ?? DEFAULT_ATTESTATION_CACHE_OPTIONS.refreshIntervalMs,
+    };
+  }
+
+  /**
+   * Fetch now (if connected) and after every reconnect, and keep the cache
+   * warm until stopped
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.client.on('connected', this.onConnected);
+    this.client.on('replicaConnected', this.onConnected);
+    this.client.on('disconnected', this.onDisconnected);
+    this.timer = setInterval(() => this.refreshInBackground(), this.options.refreshIntervalMs);
+    this.timer.unref();
+    this.refreshInBackground();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.client.off('connected', this.onConnected);
+    this.client.off('replicaConnected', this.onConnected);
+    this.client.off('disconnected', this.onDisconnected);
+  }
+
+  /**
+   * The cached attestation if it has not expired
+   */
+  peek(now: Date = new Date()): CachedAttestation | undefined {
+    return this.entry && now < this.entry.expiresAt ? this.entry : undefined;
+  }
+
+  /**
+   * The cached attestation, fetched first if there is none or it expired;
+   * undefined when the enclave cannot attest
+   */
+  async get(): Promise<CachedAttestation | undefined> {
+    return this.peek() ?? this.refresh();
+  }
+
+  /**
+   * Fetch and verify the enclave's attestation; concurrent calls share one request
+   */
+  refresh(): Promise<CachedAttestation | undefined> {
+    this.fetching ??= this.fetch().finally(() => {
+      this.fetching = undefined;
+    });
+    return this.fetching;
+  }
+
+  private refreshInBackground(): void {
+    if (!this.client.isConnected()) {
+      return;
+    }
+    this.refresh().catch((error: Error) => {
+      logger.warn('Could not refresh cached attestation', {
+        tappId: this.tappId,
+        error: error.message,
+      });
+    });
+  }
+
+  private async fetch(): Promise<CachedAttestation | undefined> {
+    const response = await this.client.sendRequest({
+      id: uuidv4(),
+      method: 'get_attestation',
+      params: {},
+      timestamp: Date.now(),
+    });
+    if (!response.success) {
+      throw new HostError(`Failed to get attestation from enclave for TAPP ${this.tappId}`);
+    }
+    const data = response.data as
+      { attestation?: string; certificates?: string[]; publicKey?: string } | undefined;
+    if (!data?.attestation) {
+      return undefined;
+    }
+
+    const attestationDoc = Buffer.from(data.attestation, 'base64');
+    const attestation = this.verifier.verify(attestationDoc);
+    const { publicKey } = data;
+    if (!publicKey) {
+      throw new AttestationError('Enclave did not report its public key');
+    }
+    // Documents without a public_key attest no key
+    if (!attestsPublicKey(attestation, publicKey)) {
+      throw new AttestationError(
+        'Attestation document does not attest the public key reported by the enclave'
+      );
+    }
+
+    const fetchedAt = new Date();
+    this.entry = {
+      attestation,
+      attestationDoc,
+      certificateChain: (data.certificates ?? []).map((cert) => Buffer.from(cert, 'base64')),
+      publicKey,
+      fetchedAt,
+      expiresAt: new Date(fetchedAt.getTime() + this.options.ttlMs),
+    };
+    return this.entry;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Fresh, nonce-bound attestations
+ *
+ * The enclave is asked for an attestation over a challenge nonce (one the
+ * caller chose, or a random one) and the document is only accepted if it
+ * carries that nonce and was produced after the challenge was issued, so a
+ * document captured earlier cannot be replayed.
+ */
+
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { HostError, AttestationError, ValidationError } from '../utils/errors';
+import { SocketClient } from '../vsock/client';
+import {
+  MAX_NONCE_BYTES,
+  NitroAttestation,
+  NitroAttestationVerifier,
+  attestsPublicKey,
+} from './nitro';
+
+// Size of nonces the host generates itself
+export const NONCE_BYTES = 32;
+
+export interface FreshAttestation {
+  nonce: Buffer;
+  attestation: NitroAttestation;
+  attestationDoc: Buffer;
+  certificateChain: Buffer[];
+  publicKey: string;
+}
+
+export function createNonce(): Buffer {
+  return randomBytes(NONCE_BYTES);
+}
+
+/**
+ * A caller-supplied nonce: hex, with or without 0x, of 1 to 512 bytes
+ */
+export function parseNonce(value: unknown): Buffer | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const hex = typeof value === 'string' && value.startsWith('0x') ? value.slice(2) : value;
+  if (
+    typeof hex !== 'string' ||
+    !/^([0-9a-fA-F]{2})+$/.test(hex) ||
+    hex.length / 2 > MAX_NONCE_BYTES
+  ) {
+    throw new ValidationError(`nonce must be hex of 1 to ${MAX_NONCE_BYTES} bytes`);
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Ask the enclave for an attestation over the nonce and verify it, including
+ * that it attests the public key the enclave reports. Resolves to undefined
+ * when the enclave cannot attest (no Nitro hardware).
+ */
+export async function requestFreshAttestation(
+  client: SocketClient,
+  verifier: NitroAttestationVerifier,
+  nonce: Buffer = createNonce()
+): Promise<FreshAttestation | undefined> {
+  const issuedAt = new Date();
+  const response = await client.sendRequest({
+    id: uuidv4(),
+    method: 'get_attestation',
+    params: { nonce: nonce.toString('hex') },
+    timestamp: issuedAt.getTime(),
+  });
+
+  if (!response.success || !response.data) {
+    throw new HostError('Failed to get attestation from enclave');
+  }
+  const data = response.data as {
+    attestation?: string;
+    certificates?: string[];
+    publicKey?: string;
+  };
+  if (!data.attestation) {
+    return undefined;
+  }
+
+  const attestationDoc = Buffer.from(data.attestation, 'base64');
+  const attestation = verifier.verifyChallenge(attestationDoc, nonce, issuedAt);
+  const { publicKey } = data;
+  if (!publicKey) {
+    throw new AttestationError('Enclave did not report its public key');
+  }
+  // Documents without a public_key attest no key
+  if (!attestsPublicKey(attestation, publicKey)) {
+    throw new AttestationError(
+      'Attestation document does not attest the public key reported by the enclave'
+    );
+  }
+
+  return {
+    nonce,
+    attestation,
+    attestationDoc,
+    certificateChain: (data.certificates ?? []).map((cert) => Buffer.from(cert, 'base64')),
+    publicKey,
+  };
+}
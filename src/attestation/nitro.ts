@@ -0,0 +1,398 @@
+/**
+ * AWS Nitro Enclaves attestation documents
+ *
+ * A document is a COSE_Sign1 structure (optionally CBOR tag 18) of
+ * [protected header, unprotected header, payload, signature]. The payload is
+ * a CBOR map with the enclave's PCRs, a timestamp, the signing (leaf)
+ * certificate and the CA bundle from the root down, plus the optional
+ * public_key, user_data and nonce the enclave asked to have attested. The
+ * signature is ECDSA P-384 over the COSE Sig_structure.
+ *
+ * Verification checks the signature with the leaf certificate, the chain from
+ * the leaf up to the bundle's root, that the bundle's root is the configured
+ * trusted root, that every certificate is currently valid, and that the
+ * document is recent. Without a configured root every document is rejected,
+ * since any self-signed root could otherwise vouch for itself.
+ */
+
+import * as fs from 'fs';
+import { createVerify, X509Certificate } from 'crypto';
+import { Decoder, Tag } from 'cbor-x';
+import { AttestationConfig } from '../types';
+import { AttestationError, ConfigError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface NitroAttestation {
+  moduleId: string;
+  digest: string; // PCR hash algorithm, always SHA384
+  timestamp: Date; // When the Nitro hypervisor produced the document
+  pcrs: Record<number, string>; // PCR index to hex value
+  certificate: Buffer; // Leaf certificate (DER)
+  cabundle: Buffer[]; // Root first, then intermediates (DER)
+  publicKey?: Buffer;
+  userData?: Buffer;
+  nonce?: Buffer;
+}
+
+export interface NitroVerifierOptions {
+  rootCertificate?: X509Certificate; // Trusted root; without it no document verifies
+  maxAgeMs: number; // Oldest acceptable document
+  clockSkewMs: number; // Tolerance for document timestamps in the future
+}
+
+export const DEFAULT_NITRO_VERIFIER_OPTIONS: NitroVerifierOptions = {
+  maxAgeMs: 5 * 60 * 1000,
+  clockSkewMs: 60 * 1000,
+};
+
+const COSE_SIGN1_TAG = 18;
+const COSE_ALG_ES384 = -35;
+const PCR_LENGTHS = [32, 48, 64];
+
+// Size limits from the Nitro attestation document specification
+const MAX_PCR_INDEX = 31;
+const MAX_PUBLIC_KEY_BYTES = 1024;
+const MAX_USER_DATA_BYTES = 512;
+export const MAX_NONCE_BYTES = 512;
+
+const cbor = new Decoder({ useRecords: false, mapsAsObjects: false });
+
+interface CoseSign1 {
+  protectedHeader: Buffer;
+  payload: Buffer;
+  signature: Buffer;
+}
+
+/**
+ * Decode a document without checking its signature or certificates; throws
+ * AttestationError if it is not a well-formed Nitro attestation document
+ */
+export function parseNitroAttestation(document: Buffer): NitroAttestation {
+  return parsePayload(decodeCoseSign1(document).payload);
+}
+
+export class NitroAttestationVerifier {
+  private readonly options: NitroVerifierOptions;
+
+  constructor(options: Partial<NitroVerifierOptions> = {}) {
+    this.options = {
+      rootCertificate: options.rootCertificate,
+      maxAgeMs: options.maxAgeMs ?? DEFAULT_NITRO_VERIFIER_OPTIONS.maxAgeMs,
+      clockSkewMs: options.clockSkewMs ?? DEFAULT_NITRO_VERIFIER_OPTIONS.clockSkewMs,
+    };
+  }
+
+  hasTrustedRoot(): boolean {
+    return this.options.rootCertificate !== undefined;
+  }
+
+  /**
+   * Parse and verify a document; throws AttestationError naming the first check that failed
+   */
+  verify(document: Buffer, now: Date = new Date()): NitroAttestation {
+    const cose = decodeCoseSign1(document);
+    const attestation = parsePayload(cose.payload);
+
+    const algorithm = decodeMap(cose.protectedHeader, 'protected header').get(1);
+    if (algorithm !== COSE_ALG_ES384) {
+      throw new AttestationError(`Unsupported COSE algorithm ${String(algorithm)}`);
+    }
+
+    const leaf = certificate(attestation.certificate, 'leaf');
+    const bundle = attestation.cabundle.map((der, i) => certificate(der, `cabundle[${i}]`));
+
+    if (!verifySignature(cose, leaf)) {
+      throw new AttestationError('Attestation document signature is invalid');
+    }
+    this.verifyChain(leaf, bundle, now);
+    this.verifyTimestamp(attestation.timestamp, now);
+
+    return attestation;
+  }
+
+  /**
+   * Verify a document requested over a challenge: it must also carry the
+   * challenge nonce and have been produced after the challenge was issued
+   */
+  verifyChallenge(
+    document: Buffer,
+    nonce: Buffer,
+    issuedAt: Date,
+    now: Date = new Date()
+  ): NitroAttestation {
+    const attestation = this.verify(document, now);
+    if (!attestation.nonce) {
+      throw new AttestationError('Attestation document does not carry the challenge nonce');
+    }
+    if (!attestation.nonce.equals(nonce)) {
+      throw new AttestationError('Attestation document nonce does not match the challenge');
+    }
+    if (attestation.timestamp.getTime() < issuedAt.getTime() - this.options.clockSkewMs) {
+      throw new AttestationError('Attestation document predates the challenge');
+    }
+    return attestation;
+  }
+
+  private verifyChain(leaf: X509Certificate, bundle: X509Certificate[], now: Date): void {
+    const root = bundle[0]!;
+    const trusted = this.options.rootCertificate;
+    if (!trusted) {
+      throw new AttestationError('No trusted attestation root certificate is configured');
+    }
+    if (!root.raw.equals(trusted.raw)) {
+      throw new AttestationError(`Root certificate ${root.subject} is not trusted`);
+    }
+
+    const chain = [...bundle, leaf];
+    chain.forEach((cert, i) => {
+      if (i < bundle.length && !cert.ca) {
+        throw new AttestationError(`Certificate ${cert.subject} in the CA bundle is not a CA`);
+      }
+      const issuer = chain[i - 1];
+      if (issuer && !(cert.checkIssued(issuer) && cert.verify(issuer.publicKey))) {
+        throw new AttestationError(
+          `Certificate ${cert.subject} is not signed by ${issuer.subject}`
+        );
+      }
+      if (now < new Date(cert.validFrom) || now > new Date(cert.validTo)) {
+        throw new AttestationError(
+          `Certificate ${cert.subject} is not valid at ${now.toISOString()} (valid ${cert.validFrom} to ${cert.validTo})`
+        );
+      }
+    });
+  }
+
+  private verifyTimestamp(timestamp: Date, now: Date): void {
+    const ageMs = now.getTime() - timestamp.getTime();
+    if (ageMs > this.options.maxAgeMs) {
+      throw new AttestationError(`Attestation document is ${ageMs}ms old`);
+    }
+    if (-ageMs > this.options.clockSkewMs) {
+      throw new AttestationError(`Attestation document is dated ${-ageMs}ms in the future`);
+    }
+  }
+}
+
+/**
+ * Whether the document attests the given hex key (with or without 0x);
+ * documents without a public_key attest no key
+ */
+export function attestsPublicKey(attestation: NitroAttestation, publicKey: string): boolean {
+  const hex = publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey;
+  return attestation.publicKey?.toString('hex') === hex.toLowerCase();
+}
+
+/**
+ * When the document stops verifying: the earliest end of validity of its
+ * leaf certificate and CA bundle
+ */
+export function attestationExpiry(attestation: NitroAttestation): Date {
+  const ends = [attestation.certificate, ...attestation.cabundle].map((der) =>
+    new Date(new X509Certificate(der).validTo).getTime()
+  );
+  return new Date(Math.min(...ends));
+}
+
+/**
+ * Verifier for the configured trusted root (a PEM or DER file)
+ */
+export function createNitroVerifier(config: AttestationConfig = {}): NitroAttestationVerifier {
+  let rootCertificate: X509Certificate | undefined;
+  if (config.rootCertificate) {
+    try {
+      rootCertificate = new X509Certificate(fs.readFileSync(config.rootCertificate));
+    } catch (error) {
+      throw new ConfigError(
+        `Cannot load attestation root certificate ${config.rootCertificate}: ${(error as Error).message}`
+      );
+    }
+  } else {
+    logger.warn(
+      'No attestation root certificate configured; every attestation document will be rejected'
+    );
+  }
+
+  return new NitroAttestationVerifier({
+    rootCertificate,
+    maxAgeMs: config.maxAgeMs,
+    clockSkewMs: config.clockSkewMs,
+  });
+}
+
+function decodeCoseSign1(document: Buffer): CoseSign1 {
+  let decoded: unknown;
+  try {
+    decoded = cbor.decode(document);
+  } catch (error) {
+    throw new AttestationError(`Attestation document is not CBOR: ${(error as Error).message}`);
+  }
+  if (decoded instanceof Tag) {
+    if (decoded.tag !== COSE_SIGN1_TAG) {
+      throw new AttestationError(`Unexpected CBOR tag ${decoded.tag} on attestation document`);
+    }
+    decoded = decoded.value;
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    throw new AttestationError('Attestation document is not a COSE_Sign1 structure');
+  }
+  const [protectedHeader, , payload, signature] = decoded as unknown[];
+  if (!isBytes(protectedHeader) || !isBytes(payload) || !isBytes(signature)) {
+    throw new AttestationError('Attestation document is not a COSE_Sign1 structure');
+  }
+  return {
+    protectedHeader: Buffer.from(protectedHeader),
+    payload: Buffer.from(payload),
+    signature: Buffer.from(signature),
+  };
+}
+
+function parsePayload(payload: Buffer): NitroAttestation {
+  const fields = decodeMap(payload, 'payload');
+
+  const moduleId = fields.get('module_id');
+  const digest = fields.get('digest');
+  // A uint64 on real hardware, which decodes as a bigint
+  const timestamp = safeInteger(fields.get('timestamp'));
+  const certificateDer = fields.get('certificate');
+  const cabundle = fields.get('cabundle');
+  if (typeof moduleId !== 'string' || moduleId.length === 0) {
+    throw new AttestationError('Attestation document has no module_id');
+  }
+  if (digest !== 'SHA384') {
+    throw new AttestationError(`Unsupported PCR digest ${String(digest)}`);
+  }
+  if (typeof timestamp !== 'number' || timestamp <= 0) {
+    throw new AttestationError('Attestation document has no timestamp');
+  }
+  if (!isBytes(certificateDer)) {
+    throw new AttestationError('Attestation document has no certificate');
+  }
+  if (!Array.isArray(cabundle) || cabundle.length === 0 || !cabundle.every(isBytes)) {
+    throw new AttestationError('Attestation document has no CA bundle');
+  }
+
+  return {
+    moduleId,
+    digest,
+    timestamp: new Date(timestamp),
+    pcrs: parsePcrs(fields.get('pcrs')),
+    certificate: Buffer.from(certificateDer),
+    cabundle: cabundle.map((der) => Buffer.from(der)),
+    publicKey: optionalBytes(fields.get('public_key'), 'public_key', MAX_PUBLIC_KEY_BYTES),
+    userData: optionalBytes(fields.get('user_data'), 'user_data', MAX_USER_DATA_BYTES),
+    nonce: optionalBytes(fields.get('nonce'), 'nonce', MAX_NONCE_BYTES),
+  };
+}
+
+/**
+ * A CBOR integer as a number; bigints outside the safe range become undefined
+ */
+function safeInteger(value: unknown): unknown {
+  if (typeof value !== 'bigint') {
+    return value;
+  }
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : undefined;
+}
+
+function parsePcrs(value: unknown): Record<number, string> {
+  if (!(value instanceof Map) || value.size === 0) {
+    throw new AttestationError('Attestation document has no PCRs');
+  }
+
+  const pcrs: Record<number, string> = {};
+  for (const [index, pcr] of value as Map<unknown, unknown>) {
+    if (!Number.isInteger(index) || (index as number) < 0 || (index as number) > MAX_PCR_INDEX) {
+      throw new AttestationError(`Invalid PCR index ${String(index)}`);
+    }
+    if (!isBytes(pcr) || !PCR_LENGTHS.includes(pcr.length)) {
+      throw new AttestationError(`Invalid value for PCR${String(index)}`);
+    }
+    pcrs[index as number] = Buffer.from(pcr).toString('hex');
+  }
+  return pcrs;
+}
+
+function optionalBytes(value: unknown, field: string, maxBytes: number): Buffer | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isBytes(value) || value.length > maxBytes) {
+    throw new AttestationError(`Invalid ${field} in attestation document`);
+  }
+  return Buffer.from(value);
+}
+
+function decodeMap(bytes: Buffer, what: string): Map<unknown, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = cbor.decode(bytes);
+  } catch {
+    decoded = undefined;
+  }
+  if (!(decoded instanceof Map)) {
+    throw new AttestationError(`Attestation document ${what} is not a CBOR map`);
+  }
+  return decoded as Map<unknown, unknown>;
+}
+
+function certificate(der: Buffer, name: string): X509Certificate {
+  try {
+    return new X509Certificate(der);
+  } catch {
+    throw new AttestationError(`Attestation ${name} certificate cannot be parsed`);
+  }
+}
+
+/**
+ * Check the COSE signature: ECDSA P-384 over
+ * Sig_structure = ["Signature1", protected header, external_aad (empty), payload]
+ */
+function verifySignature(cose: CoseSign1, leaf: X509Certificate): boolean {
+  const sigStructure = Buffer.concat([
+    Buffer.from([0x84]), // Array of 4
+    Buffer.from([0x6a]), // Text of 10 bytes
+    Buffer.from('Signature1'),
+    cborBytesHeader(cose.protectedHeader.length),
+    cose.protectedHeader,
+    cborBytesHeader(0),
+    cborBytesHeader(cose.payload.length),
+    cose.payload,
+  ]);
+
+  try {
+    return createVerify('sha384')
+      .update(sigStructure)
+      .verify({ key: leaf.publicKey, dsaEncoding: 'ieee-p1363' }, cose.signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * CBOR header of a byte string of the given length (major type 2)
+ */
+function cborBytesHeader(length: number): Buffer {
+  if (length < 24) {
+    return Buffer.from([0x40 | length]);
+  }
+  if (length < 0x100) {
+    return Buffer.from([0x58, length]);
+  }
+  if (length < 0x10000) {
+    const header = Buffer.alloc(3);
+    header[0] = 0x59;
+    header.writeUInt16BE(length, 1);
+    return header;
+  }
+  const header = Buffer.alloc(5);
+  header[0] = 0x5a;
+  header.writeUInt32BE(length, 1);
+  return header;
+}
+
+function isBytes(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
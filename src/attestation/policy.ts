@@ -0,0 +1,48 @@
+/**
+ * Allowlists of enclave image measurements
+ *
+ * A Nitro enclave image is identified by PCR0 (the image file), PCR1 (kernel
+ * and bootstrap) and PCR2 (application); PCR8 identifies the certificate the
+ * image was signed with. An attestation matches an allowlist entry when all
+ * of the entry's PCRs are equal to the attested ones.
+ */
+
+import { PcrMeasurements } from '../types';
+import { NitroAttestation } from './nitro';
+
+/**
+ * The PCRs of an attestation that allowlist entries are compared with
+ */
+export function measurementsOf(attestation: NitroAttestation): PcrMeasurements {
+  const { pcrs } = attestation;
+  return {
+    pcr0: pcrs[0] ?? '',
+    pcr1: pcrs[1] ?? '',
+    pcr2: pcrs[2] ?? '',
+    pcr8: pcrs[8],
+  };
+}
+
+/**
+ * The first allowlist entry the measurements match, if any
+ */
+export function findAllowedMeasurements(
+  measurements: PcrMeasurements,
+  allowed: PcrMeasurements[]
+): PcrMeasurements | undefined {
+  return allowed.find(
+    (entry) =>
+      sameHex(entry.pcr0, measurements.pcr0) &&
+      sameHex(entry.pcr1, measurements.pcr1) &&
+      sameHex(entry.pcr2, measurements.pcr2) &&
+      (entry.pcr8 === undefined || sameHex(entry.pcr8, measurements.pcr8))
+  );
+}
+
+function sameHex(expected: string, actual: string | undefined): boolean {
+  return actual !== undefined && normalize(expected) === normalize(actual);
+}
+
+function normalize(hex: string): string {
+  return (hex.startsWith('0x') ? hex.slice(2) : hex).toLowerCase();
+}
@@ -0,0 +1,251 @@
+/**
+ * Automatic re-attestation of each enclave to L3
+ *
+ * Keeps a TAPP registered without anything calling POST /api/v1/attest: the
+ * enclave is attested when the scheduler starts, every time its client
+ * reconnects, whenever its public key changes, and periodically before the
+ * submitted attestation expires (its certificates stop being valid) or
+ * `intervalMs` has passed, whichever comes first, minus up to `jitterMs` (so
+ * hosts do not all attest at once and a run never comes later). A failed run
+ * is retried after `retryDelayMs`, doubling up to the interval. Only one run
+ * per enclave is in flight at a time; a reconnect or key change that arrives
+ * meanwhile queues one more run after it, since the attestation in flight may
+ * predate it, while other triggers are dropped. After `alertAfterFailures`
+ * failed runs in a row an alert is logged (with `"alert": "reattestation"`)
+ * and posted to the webhook, and again when a run succeeds afterwards.
+ */
+
+import axios from 'axios';
+import { EnclaveRegistry } from '../enclaves/registry';
+import { EnclaveKeyTracker } from '../enclaves/keys';
+import { ReattestationConfig } from '../types';
+import { AttestationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { SocketClient } from '../vsock/client';
+import { attestationExpiry } from './nitro';
+import { AttestationSubmitter, submitFreshAttestation } from './submit';
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 30 * 1000;
+const DEFAULT_ALERT_AFTER_FAILURES = 3;
+const ALERT_TIMEOUT_MS = 5000;
+
+export type ReattestationTrigger = 'startup' | 'reconnect' | 'key change' | 'scheduled';
+
+export class ReattestationScheduler {
+  readonly tappId: string;
+  private readonly client: SocketClient;
+  private readonly keyTracker: EnclaveKeyTracker;
+  private readonly submitter: AttestationSubmitter;
+  private readonly intervalMs: number;
+  private readonly jitterMs: number;
+  private readonly retryDelayMs: number;
+  private readonly alertAfterFailures: number;
+  private readonly alertWebhookUrl?: string;
+  private started = false;
+  private running?: Promise<void>;
+  private followUp?: ReattestationTrigger; // Queued while a run is in flight
+  private timer?: NodeJS.Timeout;
+  private failures = 0;
+  private readonly onConnected = () => this.trigger('reconnect');
+  private readonly onKeyChanged = () => this.trigger('key change');
+
+  constructor(
+    tappId: string,
+    client: SocketClient,
+    keyTracker: EnclaveKeyTracker,
+    submitter: AttestationSubmitter,
+    config: ReattestationConfig = {}
+  ) {
+    this.tappId = tappId;
+    this.client = client;
+    this.keyTracker = keyTracker;
+    this.submitter = submitter;
+    this.intervalMs = config.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.jitterMs = Math.min(config.jitterMs ?? this.intervalMs / 10, this.intervalMs);
+    this.retryDelayMs = config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.alertAfterFailures = config.alertAfterFailures ?? DEFAULT_ALERT_AFTER_FAILURES;
+    this.alertWebhookUrl = config.alertWebhookUrl;
+  }
+
+  /**
+   * Attest now if the enclave is connected (otherwise once it connects) and
+   * keep attesting until stopped
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.client.on('connected', this.onConnected);
+    this.keyTracker.on('keyChanged', this.onKeyChanged);
+    this.schedule(this.nextInterval());
+    this.trigger('startup');
+  }
+
+  stop(): void {
+    this.started = false;
+    this.followUp = undefined;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.client.off('connected', this.onConnected);
+    this.keyTracker.off('keyChanged', this.onKeyChanged);
+  }
+
+  /**
+   * Resolves once the run in flight, if any, and the run queued after it have finished
+   */
+  async idle(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  private trigger(reason: ReattestationTrigger): void {
+    if (!this.started) {
+      return;
+    }
+    if (this.running) {
+      if (reason === 'reconnect' || reason === 'key change') {
+        this.followUp = reason;
+      }
+      logger.debug('Re-attestation already running', {
+        tappId: this.tappId,
+        reason,
+        queued: this.followUp === reason,
+      });
+      return;
+    }
+    // Attested once it reconnects
+    if (!this.client.isConnected()) {
+      logger.debug('Re-attestation postponed until the enclave connects', {
+        tappId: this.tappId,
+        reason,
+      });
+      return;
+    }
+
+    this.running = this.run(reason).finally(() => {
+      this.running = undefined;
+      const followUp = this.followUp;
+      this.followUp = undefined;
+      if (followUp) {
+        this.trigger(followUp);
+      }
+    });
+  }
+
+  private async run(reason: ReattestationTrigger): Promise<void> {
+    clearTimeout(this.timer);
+
+    try {
+      const submitted = await submitFreshAttestation(this.tappId, this.client, this.submitter);
+      if (!submitted) {
+        throw new AttestationError(
+          'This enclave does not support attestation (requires AWS Nitro hardware)'
+        );
+      }
+
+      logger.info('Enclave re-attested', {
+        tappId: this.tappId,
+        reason,
+        attestationId: submitted.submission.attestationId,
+      });
+      if (this.failures >= this.alertAfterFailures) {
+        this.alert('resolved');
+      }
+      this.failures = 0;
+      this.schedule(this.nextInterval(attestationExpiry(submitted.fresh.attestation)));
+    } catch (error) {
+      this.failures++;
+      const message = (error as Error).message;
+      logger.warn('Re-attestation failed', {
+        tappId: this.tappId,
+        reason,
+        consecutiveFailures: this.failures,
+        error: message,
+      });
+      if (this.failures === this.alertAfterFailures) {
+        this.alert('failing', message);
+      }
+      this.schedule(Math.min(this.retryDelayMs * 2 ** (this.failures - 1), this.intervalMs));
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.started) {
+      return;
+    }
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.trigger('scheduled'), delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * The interval, or the time left until the attestation expires if that is
+   * sooner, shortened by a random part of the jitter; never less than the
+   * retry delay
+   */
+  private nextInterval(expiresAt?: Date): number {
+    const untilExpiry = expiresAt ? expiresAt.getTime() - Date.now() : Infinity;
+    const delay = Math.min(this.intervalMs, untilExpiry) - Math.random() * this.jitterMs;
+    return Math.max(delay, this.retryDelayMs);
+  }
+
+  private alert(status: 'failing' | 'resolved', error?: string): void {
+    const details = {
+      alert: 'reattestation',
+      tappId: this.tappId,
+      status,
+      consecutiveFailures: this.failures,
+      error,
+    };
+    if (status === 'failing') {
+      logger.error('Enclave re-attestation is failing', details);
+    } else {
+      logger.info('Enclave re-attestation recovered', details);
+    }
+
+    if (this.alertWebhookUrl) {
+      axios
+        .post(
+          this.alertWebhookUrl,
+          { ...details, at: new Date() },
+          {
+            timeout: ALERT_TIMEOUT_MS,
+          }
+        )
+        .catch((webhookError: Error) => {
+          logger.warn('Could not deliver re-attestation alert', {
+            tappId: this.tappId,
+            error: webhookError.message,
+          });
+        });
+    }
+  }
+}
+
+/**
+ * One scheduler per enclave, or none when re-attestation is not configured
+ */
+export function createReattestationSchedulers(
+  enclaves: EnclaveRegistry,
+  submitter: AttestationSubmitter,
+  config?: ReattestationConfig
+): ReattestationScheduler[] {
+  if (!config || config.enabled === false) {
+    return [];
+  }
+  return enclaves
+    .entries()
+    .map(
+      ({ tappId, client }) =>
+        new ReattestationScheduler(
+          tappId,
+          client,
+          enclaves.getKeyTracker(tappId),
+          submitter,
+          config
+        )
+    );
+}
@@ -0,0 +1,69 @@
+/**
+ * Attestation of an enclave to the L3 guardians
+ *
+ * Shared by POST /api/v1/attest and the re-attestation scheduler: a fresh
+ * attestation is requested over a nonce and verified, submitted to the L3
+ * quorum and then tracked until the guardians reach consensus.
+ */
+
+import { L3Client } from '../l3/client';
+import { ConsensusTracker } from '../l3/consensus';
+import { AttestationBundle, AttestationSubmission, TrackedAttestation } from '../types';
+import logger from '../utils/logger';
+import { SocketClient } from '../vsock/client';
+import { FreshAttestation, requestFreshAttestation } from './challenge';
+import { NitroAttestationVerifier } from './nitro';
+
+export interface AttestationSubmitter {
+  l3Client: L3Client;
+  attestationVerifier: NitroAttestationVerifier;
+  consensusTracker: ConsensusTracker;
+}
+
+export interface SubmittedAttestation {
+  fresh: FreshAttestation;
+  submission: AttestationSubmission;
+  tracked: TrackedAttestation;
+}
+
+/**
+ * Resolves to undefined when the enclave cannot attest (no Nitro hardware)
+ */
+export async function submitFreshAttestation(
+  tappId: string,
+  client: SocketClient,
+  submitter: AttestationSubmitter,
+  nonce?: Buffer
+): Promise<SubmittedAttestation | undefined> {
+  logger.info('Requesting attestation from enclave', { tappId });
+
+  // Refuse to submit documents that do not verify, are stale or attest another key
+  const fresh = await requestFreshAttestation(client, submitter.attestationVerifier, nonce);
+  if (!fresh) {
+    return undefined;
+  }
+  logger.info('Attestation document verified', {
+    tappId,
+    moduleId: fresh.attestation.moduleId,
+    timestamp: fresh.attestation.timestamp,
+  });
+
+  const bundle: AttestationBundle = {
+    attestationDoc: fresh.attestationDoc,
+    certificateChain: fresh.certificateChain,
+    enclavePublicKey: fresh.publicKey,
+    tappId,
+    nonce: fresh.nonce,
+  };
+  const submission = await submitter.l3Client.submitAttestation(bundle);
+
+  logger.info('Attestation submitted successfully', {
+    tappId,
+    attestationId: submission.attestationId,
+  });
+
+  // Poll until the guardians reach consensus
+  const tracked = submitter.consensusTracker.track(submission, bundle);
+
+  return { fresh, submission, tracked };
+}
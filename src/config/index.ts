@@ -10,6 +10,50 @@ import { Config } from '../types';
 import { ConfigError } from '../utils/errors';
 import logger from '../utils/logger';
 
+const replicaSchema = Joi.object({
+  name: Joi.string().optional(),
+  cid: Joi.number().optional(),
+  port: Joi.number().optional(),
+  transport: Joi.string().valid('auto', 'vsock', 'unix', 'tcp').optional(),
+  socketPath: Joi.string().optional(),
+  host: Joi.string().hostname().optional(),
+});
+
+const replicasSchema = Joi.array().items(replicaSchema).min(1).unique('name').optional();
+
+const balancingSchema = Joi.string().valid('round-robin', 'least-inflight').optional();
+
+const circuitBreakerSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  failureRateThreshold: Joi.number().greater(0).max(1).optional(),
+  minimumRequests: Joi.number().integer().min(1).optional(),
+  windowMs: Joi.number().min(1).optional(),
+  cooldownMs: Joi.number().min(1).optional(),
+}).optional();
+
+const admissionSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  maxInflight: Joi.number().integer().min(1).optional(),
+  maxQueue: Joi.number().integer().min(0).optional(),
+  queueTimeoutMs: Joi.number().min(1).optional(),
+  methodLimits: Joi.object().pattern(Joi.string(), Joi.number().integer().min(1)).optional(),
+  retryAfterMs: Joi.number().min(0).optional(),
+}).optional();
+
+const responseVerificationSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  policy: Joi.string().valid('reject', 'flag', 'passthrough').optional(),
+}).optional();
+
+const pcrSchema = Joi.string().pattern(/^(0x)?[0-9a-fA-F]{96}$/);
+
+const pcrMeasurementsSchema = Joi.object({
+  pcr0: pcrSchema.required(),
+  pcr1: pcrSchema.required(),
+  pcr2: pcrSchema.required(),
+  pcr8: pcrSchema.optional(),
+});
+
 const configSchema = Joi.object({
   vsock: Joi.object({
     cid: Joi.number().required(),
@@ -17,13 +61,60 @@ const configSchema = Joi.object({
     timeoutMs: Joi.number().default(30000),
     retryAttempts: Joi.number().default(5),
     retryDelayMs: Joi.number().default(100),
+    transport: Joi.string().valid('auto', 'vsock', 'unix', 'tcp').optional(),
     socketPath: Joi.string().optional(),
+    host: Joi.string().hostname().optional(),
+    poolSize: Joi.number().integer().min(1).optional(),
+    requestTimeoutMs: Joi.number().min(1).optional(),
+    methodTimeouts: Joi.object().pattern(Joi.string(), Joi.number().min(1)).optional(),
+    keepaliveIntervalMs: Joi.number().min(0).optional(),
+    keepaliveTimeoutMs: Joi.number().min(1).optional(),
+    reconnectMaxDelayMs: Joi.number().min(1).optional(),
+    encoding: Joi.string().valid('auto', 'json', 'msgpack', 'cbor').optional(),
+    maxFrameBytes: Joi.number().integer().min(1024).optional(),
+    replicas: replicasSchema,
+    balancing: balancingSchema,
+    replicaProbeIntervalMs: Joi.number().min(1).optional(),
+    replicaEjectAfterFailures: Joi.number().integer().min(1).optional(),
+    circuitBreaker: circuitBreakerSchema,
+    admission: admissionSchema,
+    responseVerification: responseVerificationSchema,
   }).required(),
+  tappId: Joi.string().optional(),
+  enclaves: Joi.array()
+    .items(
+      Joi.object({
+        tappId: Joi.string().required(),
+        cid: Joi.number().optional(),
+        port: Joi.number().optional(),
+        transport: Joi.string().valid('auto', 'vsock', 'unix', 'tcp').optional(),
+        socketPath: Joi.string().optional(),
+        host: Joi.string().hostname().optional(),
+        poolSize: Joi.number().integer().min(1).optional(),
+        replicas: replicasSchema,
+        balancing: balancingSchema,
+      })
+    )
+    .min(1)
+    .unique('tappId')
+    .optional(),
   l3: Joi.object({
-    endpoint: Joi.string().uri().required(),
+    endpoint: Joi.string().uri().optional(),
+    guardians: Joi.array().items(Joi.string().uri()).min(1).unique().optional(),
+    quorum: Joi.number().integer().min(1).optional(),
     timeoutMs: Joi.number().default(30000),
     retryAttempts: Joi.number().default(3),
-  }).required(),
+    circuitBreaker: circuitBreakerSchema,
+    consensus: Joi.object({
+      file: Joi.string().optional(),
+      pollIntervalMs: Joi.number().min(1).optional(),
+      maxPollIntervalMs: Joi.number().min(1).optional(),
+      deadlineMs: Joi.number().min(1).optional(),
+      historyLimit: Joi.number().integer().min(1).optional(),
+    }).optional(),
+  })
+    .or('endpoint', 'guardians')
+    .required(),
   api: Joi.object({
     host: Joi.string().default('0.0.0.0'),
     port: Joi.number().default(8080),
@@ -39,8 +130,48 @@ const configSchema = Joi.object({
     level: Joi.string().valid('error', 'warn', 'info', 'debug').default('info'),
     format: Joi.string().valid('json', 'pretty').default('json'),
   }).required(),
+  storage: Joi.object({
+    directory: Joi.string().required(),
+    maxValueBytes: Joi.number().integer().min(1).optional(),
+    maxTappBytes: Joi.number().integer().min(1).optional(),
+    maxKeysPerTapp: Joi.number().integer().min(1).optional(),
+  }).optional(),
+  egress: Joi.object({
+    allowedDomains: Joi.array().items(Joi.string()).required(),
+    allowHttp: Joi.boolean().optional(),
+    timeoutMs: Joi.number().min(1).optional(),
+    maxRequestBytes: Joi.number().integer().min(0).optional(),
+    maxResponseBytes: Joi.number().integer().min(1).optional(),
+    requestsPerMinute: Joi.number().integer().min(0).optional(),
+    tappQuotas: Joi.object().pattern(Joi.string(), Joi.number().integer().min(0)).optional(),
+  }).optional(),
+  attestation: Joi.object({
+    rootCertificate: Joi.string().optional(),
+    maxAgeMs: Joi.number().min(1).optional(),
+    clockSkewMs: Joi.number().min(0).optional(),
+    allowedMeasurements: Joi.object()
+      .pattern(Joi.string(), Joi.array().items(pcrMeasurementsSchema).min(1))
+      .optional(),
+    cacheTtlMs: Joi.number().min(1).optional(),
+    cacheRefreshIntervalMs: Joi.number().min(1).optional(),
+    reattestation: Joi.object({
+      enabled: Joi.boolean().optional(),
+      intervalMs: Joi.number().min(1).optional(),
+      jitterMs: Joi.number().min(0).optional(),
+      retryDelayMs: Joi.number().min(1).optional(),
+      alertAfterFailures: Joi.number().integer().min(1).optional(),
+      alertWebhookUrl: Joi.string().uri().optional(),
+    }).optional(),
+  }).optional(),
 });
 
+/**
+ * Config file contents before validation; any section may be missing or incomplete
+ */
+type RawConfig = {
+  [K in keyof Config]?: Config[K] extends object ? Partial<Config[K]> : Config[K];
+};
+
 export function loadConfig(configPath?: string): Config {
   // Determine config file path
   const filePath = configPath || process.env.CONFIG_PATH || path.join(process.cwd(), 'config.json');
@@ -48,43 +179,57 @@ export function loadConfig(configPath?: string): Config {
   logger.info('Loading configuration', { filePath });
 
   // Load from file
-  let baseConfig: any;
+  let baseConfig: RawConfig;
   try {
     const configFile = fs.readFileSync(filePath, 'utf-8');
-    baseConfig = JSON.parse(configFile);
+    baseConfig = JSON.parse(configFile) as RawConfig;
   } catch (error) {
     throw new ConfigError(`Failed to load config file: ${(error as Error).message}`);
   }
 
+  // Either L3 variable replaces the whole guardian list from the file
+  const l3Endpoint = process.env.L3_ENDPOINT;
+  const l3Guardians = process.env.L3_GUARDIANS?.split(',').map((endpoint) => endpoint.trim());
+  if (l3Endpoint && l3Guardians) {
+    throw new ConfigError('Set either L3_ENDPOINT or L3_GUARDIANS, not both');
+  }
+
   // Override with environment variables
   const config = {
     ...baseConfig,
     vsock: {
       ...baseConfig.vsock,
-      cid: process.env.VSOCK_CID ? parseInt(process.env.VSOCK_CID) : baseConfig.vsock.cid,
-      port: process.env.VSOCK_PORT ? parseInt(process.env.VSOCK_PORT) : baseConfig.vsock.port,
+      cid: process.env.VSOCK_CID ? parseInt(process.env.VSOCK_CID) : baseConfig.vsock?.cid,
+      port: process.env.VSOCK_PORT ? parseInt(process.env.VSOCK_PORT) : baseConfig.vsock?.port,
+      transport: process.env.VSOCK_TRANSPORT || baseConfig.vsock?.transport,
+      socketPath: process.env.ENCLAVE_SOCKET_PATH || baseConfig.vsock?.socketPath,
+      host: process.env.ENCLAVE_HOST || baseConfig.vsock?.host,
+      encoding: process.env.VSOCK_ENCODING || baseConfig.vsock?.encoding,
     },
+    tappId: process.env.TAPP_ID || baseConfig.tappId,
     l3: {
       ...baseConfig.l3,
-      endpoint: process.env.L3_ENDPOINT || baseConfig.l3.endpoint,
+      ...(l3Endpoint && { endpoint: l3Endpoint, guardians: undefined, quorum: undefined }),
+      ...(l3Guardians && { guardians: l3Guardians }),
     },
     api: {
       ...baseConfig.api,
-      host: process.env.API_HOST || baseConfig.api.host,
-      port: process.env.API_PORT ? parseInt(process.env.API_PORT) : baseConfig.api.port,
+      host: process.env.API_HOST || baseConfig.api?.host,
+      port: process.env.API_PORT ? parseInt(process.env.API_PORT) : baseConfig.api?.port,
     },
     logging: {
       ...baseConfig.logging,
-      level: process.env.LOG_LEVEL || baseConfig.logging.level,
-      format: process.env.LOG_FORMAT || baseConfig.logging.format,
+      level: process.env.LOG_LEVEL || baseConfig.logging?.level,
+      format: process.env.LOG_FORMAT || baseConfig.logging?.format,
     },
   };
 
   // Validate
-  const { error, value } = configSchema.validate(config);
-  if (error) {
-    throw new ConfigError(`Config validation failed: ${error.message}`);
+  const result = configSchema.validate(config) as Joi.ValidationResult<Config>;
+  if (result.error) {
+    throw new ConfigError(`Config validation failed: ${result.error.message}`);
   }
+  const value = result.value;
 
   logger.info('Configuration loaded successfully', {
     apiPort: value.api.port,
@@ -92,5 +237,5 @@ export function loadConfig(configPath?: string): Config {
     logLevel: value.logging.level,
   });
 
-  return value as Config;
+  return value;
 }
@@ -0,0 +1,211 @@
+/**
+ * Tracking of an enclave's public key
+ *
+ * The key is fetched from the enclave each time its client connects (the
+ * first connection and every reconnect): from the `publicKey` of its
+ * attestation when the document verifies and attests that key, or from
+ * get_public_key when the enclave cannot attest or its attestation does not
+ * check out. The key is cached together with the attestation it came from.
+ * A different key
+ * than the one seen before means the enclave was replaced or restarted with
+ * fresh keys; it is logged and emitted as 'keyChanged'.
+ */
+
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { attestsPublicKey, NitroAttestationVerifier } from '../attestation/nitro';
+import { EnclaveKeyInfo, EnclaveKeySource, EnclaveKeyStatus, TeeResponse } from '../types';
+import { AttestationError, HostError } from '../utils/errors';
+import logger from '../utils/logger';
+import { SocketClient } from '../vsock/client';
+
+// Replaced keys remembered for the status output
+const KEY_HISTORY_SIZE = 10;
+
+export interface CachedEnclaveKey extends EnclaveKeyInfo {
+  attestationDoc?: Buffer; // Attestation the key was taken from
+  certificateChain?: Buffer[];
+}
+
+type AttestationEvidence = Pick<CachedEnclaveKey, 'attestationDoc' | 'certificateChain'>;
+
+export class EnclaveKeyTracker extends EventEmitter {
+  readonly tappId: string;
+  private readonly client: SocketClient;
+  private readonly attestationVerifier: NitroAttestationVerifier;
+  private current?: CachedEnclaveKey;
+  private readonly history: EnclaveKeyStatus['previousKeys'] = [];
+  private changes: number = 0;
+  private fetching?: Promise<CachedEnclaveKey>;
+  private readonly onConnected = () => {
+    this.refresh().catch((error: Error) => {
+      logger.warn('Could not fetch enclave public key', {
+        tappId: this.tappId,
+        error: error.message,
+      });
+    });
+  };
+
+  constructor(tappId: string, client: SocketClient, attestationVerifier: NitroAttestationVerifier) {
+    super();
+    this.tappId = tappId;
+    this.client = client;
+    this.attestationVerifier = attestationVerifier;
+  }
+
+  /**
+   * Fetch the key now (if connected) and again after every reconnect
+   */
+  start(): void {
+    this.client.on('connected', this.onConnected);
+    if (this.client.isConnected()) {
+      this.onConnected();
+    }
+  }
+
+  stop(): void {
+    this.client.off('connected', this.onConnected);
+  }
+
+  getKey(): CachedEnclaveKey | undefined {
+    return this.current;
+  }
+
+  getStatus(): EnclaveKeyStatus {
+    const current = this.current;
+    return {
+      publicKey: current?.publicKey,
+      fingerprint: current?.fingerprint,
+      source: current?.source,
+      firstSeen: current?.firstSeen,
+      lastSeen: current?.lastSeen,
+      attestationDigest: current?.attestationDoc && digest(current.attestationDoc),
+      keyChanges: this.changes,
+      previousKeys: [...this.history],
+    };
+  }
+
+  /**
+   * Ask the enclave for its key; concurrent calls share one request
+   */
+  refresh(): Promise<CachedEnclaveKey> {
+    this.fetching ??= this.fetch().finally(() => {
+      this.fetching = undefined;
+    });
+    return this.fetching;
+  }
+
+  private async fetch(): Promise<CachedEnclaveKey> {
+    const attestation = await this.call('get_attestation').catch(() => undefined);
+    const attestedKey = publicKeyOf(attestation);
+    if (attestation && attestedKey) {
+      const evidence = this.verifiedEvidence(attestation, attestedKey);
+      if (evidence) {
+        return this.observe(attestedKey, 'attestation', evidence);
+      }
+    }
+
+    const publicKey = publicKeyOf(await this.call('get_public_key'));
+    if (!publicKey) {
+      throw new HostError(`Enclave for TAPP ${this.tappId} did not report a public key`);
+    }
+    return this.observe(publicKey, 'get_public_key', {});
+  }
+
+  /**
+   * The attestation document and chain, when the document verifies and
+   * attests the key reported with it
+   */
+  private verifiedEvidence(
+    response: TeeResponse,
+    publicKey: string
+  ): AttestationEvidence | undefined {
+    const data = response.data as { attestation?: unknown; certificates?: string[] };
+    try {
+      if (typeof data.attestation !== 'string') {
+        throw new AttestationError('Enclave did not provide an attestation document');
+      }
+      const attestationDoc = Buffer.from(data.attestation, 'base64');
+      if (!attestsPublicKey(this.attestationVerifier.verify(attestationDoc), publicKey)) {
+        throw new AttestationError('Attestation document does not attest the enclave public key');
+      }
+      return {
+        attestationDoc,
+        certificateChain: data.certificates?.map((cert) => Buffer.from(cert, 'base64')),
+      };
+    } catch (error) {
+      logger.warn('Enclave public key is not attested, asking get_public_key', {
+        tappId: this.tappId,
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  private call(method: string): Promise<TeeResponse> {
+    return this.client.sendRequest({ id: uuidv4(), method, params: {}, timestamp: Date.now() });
+  }
+
+  private observe(
+    publicKey: string,
+    source: EnclaveKeySource,
+    attestation: AttestationEvidence
+  ): CachedEnclaveKey {
+    const now = new Date();
+    const previous = this.current;
+    const unchanged = previous?.publicKey === publicKey;
+
+    this.current = {
+      publicKey,
+      fingerprint: fingerprint(publicKey),
+      source,
+      firstSeen: unchanged ? previous.firstSeen : now,
+      lastSeen: now,
+      ...attestation,
+    };
+
+    if (previous && !unchanged) {
+      this.changes++;
+      this.history.unshift({
+        publicKey: previous.publicKey,
+        fingerprint: previous.fingerprint,
+        firstSeen: previous.firstSeen,
+        replacedAt: now,
+      });
+      this.history.splice(KEY_HISTORY_SIZE);
+      logger.warn('Enclave public key changed', {
+        tappId: this.tappId,
+        previousFingerprint: previous.fingerprint,
+        fingerprint: this.current.fingerprint,
+      });
+      this.emit('keyChanged', this.current, previous);
+    } else if (!previous) {
+      logger.info('Enclave public key obtained', {
+        tappId: this.tappId,
+        fingerprint: this.current.fingerprint,
+        source,
+      });
+    }
+
+    return this.current;
+  }
+}
+
+/**
+ * SHA-256 of the key bytes (of the text, for keys that are not hex)
+ */
+export function fingerprint(publicKey: string): string {
+  const hex = publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey;
+  const bytes = /^([0-9a-fA-F]{2})+$/.test(hex) ? Buffer.from(hex, 'hex') : Buffer.from(publicKey);
+  return digest(bytes);
+}
+
+function digest(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function publicKeyOf(response?: TeeResponse): string | undefined {
+  const publicKey = (response?.data as { publicKey?: unknown } | undefined)?.publicKey;
+  return response?.success && typeof publicKey === 'string' ? publicKey : undefined;
+}
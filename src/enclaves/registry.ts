@@ -0,0 +1,260 @@
+/**
+ * Registry of the enclaves served by this host, keyed by TAPP ID
+ *
+ * Each enclave has its own SocketClient (and so its own connection, pool,
+ * handshake and reconnect supervisor), its own public key tracker and its
+ * own attestation cache.
+ * Requests that do not name a TAPP go to the default enclave, which is the
+ * first one registered.
+ */
+
+import { Config, VsockConfig } from '../types';
+import { HostError, UnknownTappError } from '../utils/errors';
+import logger from '../utils/logger';
+import type { HostServiceRegistry } from '../services/registry';
+import { SocketClient } from '../vsock/client';
+import { createSocketClient } from '../vsock/factory';
+import { CircuitBreakerSocketClient } from '../vsock/breaker';
+import { AdmissionSocketClient } from '../vsock/admission';
+import { VerifyingSocketClient } from '../vsock/verifier';
+import { MeasurementPolicySocketClient } from '../vsock/measurements';
+import { NitroAttestationVerifier } from '../attestation/nitro';
+import { AttestationCache, AttestationCacheOptions } from '../attestation/cache';
+import { EnclaveKeyTracker } from './keys';
+
+export const DEFAULT_TAPP_ID = 'default';
+
+export interface EnclaveEntry {
+  tappId: string;
+  client: SocketClient;
+}
+
+export interface EnclaveRegistryOptions {
+  attestationVerifier?: NitroAttestationVerifier; // Checks attestations before they are cached or their keys trusted
+  attestationCache?: Partial<AttestationCacheOptions>;
+}
+
+export class EnclaveRegistry {
+  private readonly enclaves = new Map<string, SocketClient>();
+  private readonly keyTrackers = new Map<string, EnclaveKeyTracker>();
+  private readonly attestationCaches = new Map<string, AttestationCache>();
+  private readonly attestationVerifier: NitroAttestationVerifier;
+  private readonly attestationCacheOptions: Partial<AttestationCacheOptions>;
+  private defaultTappId?: string;
+
+  constructor(options: EnclaveRegistryOptions = {}) {
+    this.attestationVerifier = options.attestationVerifier ?? new NitroAttestationVerifier();
+    this.attestationCacheOptions = options.attestationCache ?? {};
+  }
+
+  add(tappId: string, client: SocketClient): this {
+    if (this.enclaves.has(tappId)) {
+      throw new HostError(`An enclave for TAPP ${tappId} is already registered`);
+    }
+    this.enclaves.set(tappId, client);
+    this.keyTrackers.set(tappId, new EnclaveKeyTracker(tappId, client, this.attestationVerifier));
+    this.attestationCaches.set(
+      tappId,
+      new AttestationCache(tappId, client, this.attestationVerifier, this.attestationCacheOptions)
+    );
+    this.defaultTappId ??= tappId;
+    return this;
+  }
+
+  has(tappId: string): boolean {
+    return this.enclaves.has(tappId);
+  }
+
+  /**
+   * Enclave serving a TAPP, or the default enclave when no TAPP is given
+   */
+  resolve(tappId?: string): EnclaveEntry {
+    const id = tappId ?? this.defaultTappId;
+    const client = id === undefined ? undefined : this.enclaves.get(id);
+    if (id === undefined || !client) {
+      throw new UnknownTappError(tappId ?? DEFAULT_TAPP_ID);
+    }
+    return { tappId: id, client };
+  }
+
+  get(tappId?: string): SocketClient {
+    return this.resolve(tappId).client;
+  }
+
+  /**
+   * Public key tracker of a TAPP's enclave, or of the default enclave
+   */
+  getKeyTracker(tappId?: string): EnclaveKeyTracker {
+    return this.keyTrackers.get(this.resolve(tappId).tappId)!;
+  }
+
+  /**
+   * Attestation cache of a TAPP's enclave, or of the default enclave
+   */
+  getAttestationCache(tappId?: string): AttestationCache {
+    return this.attestationCaches.get(this.resolve(tappId).tappId)!;
+  }
+
+  getDefaultTappId(): string | undefined {
+    return this.defaultTappId;
+  }
+
+  entries(): EnclaveEntry[] {
+    return [...this.enclaves].map(([tappId, client]) => ({ tappId, client }));
+  }
+
+  /**
+   * Connect every enclave; fails if any of them cannot be reached
+   */
+  async connectAll(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.entries().map(async ({ tappId, client }) => {
+        logger.info('Connecting to enclave', { tappId });
+        await client.connect();
+      })
+    );
+
+    const failed = this.entries().filter((_, i) => results[i]?.status === 'rejected');
+    if (failed.length > 0) {
+      const reasons = results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .map((result) => (result.reason as Error).message);
+      throw new HostError(
+        `Failed to connect to enclaves for ${failed.map((e) => e.tappId).join(', ')}: ${reasons.join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Fetch each enclave's public key whenever its client (re)connects
+   */
+  startKeyTracking(): void {
+    this.keyTrackers.forEach((tracker) => tracker.start());
+  }
+
+  /**
+   * Keep each enclave's cached attestation fresh in the background
+   */
+  startAttestationRefresh(): void {
+    this.attestationCaches.forEach((cache) => cache.start());
+  }
+
+  async disconnectAll(): Promise<void> {
+    this.keyTrackers.forEach((tracker) => tracker.stop());
+    this.attestationCaches.forEach((cache) => cache.stop());
+    await Promise.allSettled(this.entries().map(({ client }) => client.disconnect()));
+  }
+}
+
+/**
+ * Connection settings for every configured enclave: the `enclaves` list with
+ * unset fields taken from `vsock`, or the single `vsock` enclave
+ */
+export function resolveEnclaveConfigs(
+  config: Pick<Config, 'vsock' | 'tappId' | 'enclaves'>
+): Array<{ tappId: string; vsock: VsockConfig }> {
+  if (!config.enclaves) {
+    return [{ tappId: config.tappId ?? DEFAULT_TAPP_ID, vsock: config.vsock }];
+  }
+
+  // Replicas describe one particular enclave, so they are never inherited
+  return config.enclaves.map(({ tappId, ...overrides }) => ({
+    tappId,
+    vsock: { ...config.vsock, replicas: undefined, ...overrides },
+  }));
+}
+
+/**
+ * Build the registry with one socket client per configured enclave. Each
+ * client sits behind its own response verifier, admission controller and
+ * circuit breaker, in that order, unless they are disabled in the vsock
+ * config. For TAPPs with a measurement allowlist, every replica (or the one
+ * enclave) is checked against it below the balancer, since each replica
+ * attests its own image.
+ */
+export function createEnclaveRegistry(
+  config: Pick<Config, 'vsock' | 'tappId' | 'enclaves' | 'attestation'>,
+  hostServices?: HostServiceRegistry,
+  attestationVerifier: NitroAttestationVerifier = new NitroAttestationVerifier()
+): EnclaveRegistry {
+  const registry = new EnclaveRegistry({
+    attestationVerifier,
+    attestationCache: {
+      ttlMs: config.attestation?.cacheTtlMs,
+      refreshIntervalMs: config.attestation?.cacheRefreshIntervalMs,
+    },
+  });
+  const allowedMeasurements = config.attestation?.allowedMeasurements ?? {};
+
+  for (const { tappId, vsock } of resolveEnclaveConfigs(config)) {
+    const allowed = allowedMeasurements[tappId];
+    const policy = allowed && { tappId, allowed, verifier: attestationVerifier };
+    const client = guardClient(
+      createSocketClient(
+        vsock,
+        policy && ((enclave) => new MeasurementPolicySocketClient(enclave, policy))
+      ),
+      vsock,
+      attestationVerifier
+    );
+    if (hostServices) {
+      client.setHostServices(hostServices, { tappId });
+    }
+    registry.add(tappId, client);
+  }
+
+  for (const tappId of Object.keys(allowedMeasurements)) {
+    if (!registry.has(tappId)) {
+      logger.warn('Measurement allowlist names a TAPP without an enclave', { tappId });
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Wrap a client in the configured response verifier, admission controller
+ * and circuit breaker. The verifier is outermost so the attestation requests
+ * it makes to learn the enclave key are subject to the other two; it checks
+ * them with the registry's attestation verifier.
+ */
+function guardClient(
+  client: SocketClient,
+  vsock: VsockConfig,
+  attestationVerifier: NitroAttestationVerifier
+): SocketClient {
+  const { enabled: breakerEnabled = true, ...breakerOptions } = vsock.circuitBreaker ?? {};
+  const { enabled: admissionEnabled = true, ...admissionOptions } = vsock.admission ?? {};
+  const { enabled: verificationEnabled = true, ...verificationOptions } =
+    vsock.responseVerification ?? {};
+
+  let guarded = client;
+  if (breakerEnabled) {
+    guarded = new CircuitBreakerSocketClient(guarded, breakerOptions);
+  }
+  if (admissionEnabled) {
+    guarded = new AdmissionSocketClient(guarded, admissionOptions);
+  }
+  if (verificationEnabled) {
+    guarded = new VerifyingSocketClient(guarded, attestationVerifier, verificationOptions);
+  }
+  return guarded;
+}
+
+/**
+ * The layer of a (possibly wrapped) client that is an instance of `type`,
+ * found by following the `inner` client of each wrapper
+ */
+export function findClientLayer<T extends SocketClient>(
+  client: SocketClient,
+  type: abstract new (...args: never[]) => T
+): T | undefined {
+  let layer: SocketClient | undefined = client;
+  while (layer) {
+    if (layer instanceof type) {
+      return layer;
+    }
+    layer = (layer as { inner?: SocketClient }).inner;
+  }
+  return undefined;
+}
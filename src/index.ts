@@ -6,8 +6,15 @@
  */
 
 import { loadConfig } from './config';
-import { UnixSocketClient } from './vsock/client';
+import { createEnclaveRegistry } from './enclaves/registry';
+import { HostServiceRegistry } from './services/registry';
+import { registerCoreServices } from './services/core';
+import { EgressProxy } from './services/egress';
+import { StorageService } from './services/storage';
 import { L3Client } from './l3/client';
+import { ConsensusTracker } from './l3/consensus';
+import { createNitroVerifier } from './attestation/nitro';
+import { createReattestationSchedulers } from './attestation/scheduler';
 import { AuthModule } from './auth';
 import { createServer, startServer } from './api/server';
 import logger from './utils/logger';
@@ -19,24 +26,56 @@ async function main() {
     // Load configuration
     const config = loadConfig();
 
-    // Initialize vsocket client (Use UnixSocketClient for testing with network)
-    const vsockClient = new UnixSocketClient(config.vsock);
+    // Services the enclaves can call back into over their own connections
+    const hostServices = registerCoreServices(new HostServiceRegistry());
+    if (config.storage) {
+      new StorageService(config.storage).register(hostServices);
+      logger.info('Enclave storage enabled', { directory: config.storage.directory });
+    }
+    if (config.egress) {
+      new EgressProxy(config.egress).register(hostServices);
+      logger.info('Enclave egress proxy enabled', {
+        allowedDomains: config.egress.allowedDomains,
+      });
+    }
 
-    logger.info('Connecting to enclave');
-    await vsockClient.connect();
+    // Checks attestation documents before their measurements are trusted or
+    // they are submitted to L3
+    const attestationVerifier = createNitroVerifier(config.attestation);
+
+    // One socket client (vsock, Unix socket or TCP depending on config) per TAPP
+    const enclaves = createEnclaveRegistry(config, hostServices, attestationVerifier);
+    // Fetch each enclave's public key on connect and after every reconnect
+    enclaves.startKeyTracking();
+    // Keep the attestation served at /api/v1/attestation fresh
+    enclaves.startAttestationRefresh();
+    await enclaves.connectAll();
 
     // Initialize L3 client
     const l3Client = new L3Client(config.l3);
 
+    // Follow submitted attestations until consensus, resuming any left pending
+    const consensusTracker = new ConsensusTracker(l3Client, config.l3.consensus);
+    await consensusTracker.start();
+
+    // Keep each TAPP registered on L3 without anyone calling /api/v1/attest
+    const reattestation = createReattestationSchedulers(
+      enclaves,
+      { l3Client, attestationVerifier, consensusTracker },
+      config.attestation?.reattestation
+    );
+    reattestation.forEach((scheduler) => scheduler.start());
+
     // Initialize auth module
     const authModule = new AuthModule(config.auth);
 
     // Create HTTP API server
     const app = createServer(config.api, {
-      vsockClient,
+      enclaves,
       l3Client,
       authModule,
-      tappId: process.env.TAPP_ID || 'default', // TODO: Get from config
+      attestationVerifier,
+      consensusTracker,
     });
 
     // Start server
@@ -44,7 +83,7 @@ async function main() {
 
     logger.info('ORBS TEE Host started successfully', {
       apiPort: config.api.port,
-      vsockPort: config.vsock.port,
+      tappIds: enclaves.entries().map((enclave) => enclave.tappId),
     });
   } catch (error) {
     logger.error('Failed to start ORBS TEE Host', {
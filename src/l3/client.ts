@@ -1,27 +1,67 @@
 /**
- * ORBS L3 Guardian Network Client (Simplified)
- * Submits attestations to a single L3 endpoint
+ * ORBS L3 Guardian Network Client
+ *
+ * Submits attestations to every configured guardian in parallel and treats a
+ * submission as accepted once a quorum of them (by default a majority) has
+ * accepted it under the same attestation ID. Guardians that answer after the
+ * quorum was reached are still recorded in their status. Reachability and the
+ * last error are kept per guardian; health checks of the guardians are
+ * shared for a few seconds so frequent /health and /status calls do not each
+ * reach every guardian. The circuit breaker covers the guardian set as a
+ * whole: it counts a failure when a quorum cannot be reached.
  */
 
 import axios, { AxiosError } from 'axios';
-import { L3Config, AttestationBundle, AttestationSubmission, ConsensusStatus } from '../types';
-import { L3Error } from '../utils/errors';
+import {
+  L3Config,
+  AttestationBundle,
+  AttestationSubmission,
+  CircuitBreakerStats,
+  ConsensusStatus,
+  GuardianStatus,
+} from '../types';
+import { ConfigError, L3Error } from '../utils/errors';
 import { retryWithBackoff } from '../utils/retry';
+import { CircuitBreaker } from '../utils/circuit-breaker';
 import logger from '../utils/logger';
 
+// How long the result of checking every guardian is reused
+const HEALTH_CHECK_TTL_MS = 10 * 1000;
+
 export class L3Client {
   private readonly config: L3Config;
+  private readonly breaker?: CircuitBreaker;
+  private readonly guardians: GuardianStatus[];
+  private readonly quorum: number;
+  private healthCheck?: { startedAt: number; done: Promise<void> };
 
   constructor(config: L3Config) {
     this.config = config;
+    const { enabled = true, ...breakerOptions } = config.circuitBreaker ?? {};
+    if (enabled) {
+      this.breaker = new CircuitBreaker('l3', breakerOptions);
+    }
+
+    const endpoints = config.guardians ?? (config.endpoint ? [config.endpoint] : []);
+    if (endpoints.length === 0) {
+      throw new ConfigError('No L3 guardian endpoints configured');
+    }
+    this.guardians = endpoints.map((endpoint) => ({ endpoint }));
+    this.quorum = config.quorum ?? Math.floor(endpoints.length / 2) + 1;
+    if (this.quorum > endpoints.length) {
+      throw new ConfigError(
+        `L3 quorum of ${this.quorum} exceeds the ${endpoints.length} configured guardians`
+      );
+    }
   }
 
   /**
-   * Submit attestation to L3 endpoint
+   * Submit attestation to every guardian; resolves once a quorum accepted it
    */
   async submitAttestation(bundle: AttestationBundle): Promise<AttestationSubmission> {
     logger.info('Submitting attestation to L3', {
-      endpoint: this.config.endpoint,
+      guardians: this.guardians.length,
+      quorum: this.quorum,
       tappId: bundle.tappId,
     });
 
@@ -30,17 +70,217 @@ export class L3Client {
       certificate_chain: bundle.certificateChain.map((cert) => cert.toString('base64')),
       enclave_public_key: bundle.enclavePublicKey,
       tapp_id: bundle.tappId,
+      nonce: bundle.nonce?.toString('hex'),
     };
 
+    return this.guard(() => this.submitToQuorum(payload));
+  }
+
+  /**
+   * Query consensus status for an attestation, from the first guardian that answers
+   */
+  async queryConsensusStatus(attestationId: string): Promise<ConsensusStatus> {
+    logger.debug('Querying consensus status', { attestationId });
+
+    return this.guard(async () => {
+      const errors: string[] = [];
+      for (const guardian of this.guardians) {
+        try {
+          const response = await axios.get(
+            `${guardian.endpoint}/attestation/status/${attestationId}`,
+            {
+              timeout: this.config.timeoutMs,
+            }
+          );
+          this.recordSuccess(guardian);
+
+          const status: ConsensusStatus = {
+            attestationId: response.data.attestation_id,
+            status: response.data.status,
+            guardiansVerified: response.data.guardians_verified,
+            totalGuardians: response.data.total_guardians,
+          };
+
+          logger.debug('Consensus status retrieved', {
+            attestationId,
+            endpoint: guardian.endpoint,
+            status: status.status,
+            verified: `${status.guardiansVerified}/${status.totalGuardians}`,
+          });
+
+          return status;
+        } catch (error) {
+          const axiosError = error as AxiosError;
+          this.recordError(guardian, axiosError.message);
+          errors.push(axiosError.message);
+        }
+      }
+      throw new L3Error(`Failed to query consensus status: ${errors.join('; ')}`);
+    });
+  }
+
+  /**
+   * Breaker state, or undefined when the breaker is disabled
+   */
+  getBreakerStats(): CircuitBreakerStats | undefined {
+    return this.breaker?.getStats();
+  }
+
+  /**
+   * Run an L3 call through the circuit breaker; only L3 errors count as failures
+   */
+  private guard<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.breaker) {
+      return operation();
+    }
+    return this.breaker.execute(operation, (error) => error instanceof L3Error);
+  }
+
+  /**
+   * Check every guardian, reusing a check started within the last few
+   * seconds; L3 is reachable when at least a quorum of them are
+   */
+  async checkHealth(): Promise<boolean> {
+    const now = Date.now();
+    if (!this.healthCheck || now - this.healthCheck.startedAt >= HEALTH_CHECK_TTL_MS) {
+      this.healthCheck = {
+        startedAt: now,
+        done: Promise.all(this.guardians.map((guardian) => this.checkGuardian(guardian))).then(
+          () => undefined
+        ),
+      };
+    }
+    await this.healthCheck.done;
+    return this.guardians.filter((guardian) => guardian.reachable).length >= this.quorum;
+  }
+
+  /**
+   * Reachability and last error of each guardian, from health checks and calls
+   */
+  getGuardianStatus(): GuardianStatus[] {
+    return this.guardians.map((guardian) => ({ ...guardian }));
+  }
+
+  getQuorum(): number {
+    return this.quorum;
+  }
+
+  private async checkGuardian(guardian: GuardianStatus): Promise<void> {
+    guardian.lastCheckedAt = new Date();
+    try {
+      await axios.get(`${guardian.endpoint}/health`, {
+        timeout: 5000,
+      });
+      logger.debug('L3 endpoint is reachable', {
+        endpoint: guardian.endpoint,
+      });
+      guardian.reachable = true;
+    } catch (error) {
+      logger.warn('L3 endpoint is unreachable', {
+        endpoint: guardian.endpoint,
+        error: (error as Error).message,
+      });
+      guardian.reachable = false;
+      this.recordError(guardian, (error as Error).message);
+    }
+  }
+
+  /**
+   * Send the payload to every guardian (each with its own retries) and settle
+   * as soon as a quorum agrees on one attestation ID, or no ID can still
+   * reach the quorum; guardians still being tried are then abandoned
+   */
+  private submitToQuorum(payload: Record<string, unknown>): Promise<AttestationSubmission> {
+    return new Promise((resolve, reject) => {
+      // Accepting guardians, grouped by the attestation ID they assigned
+      const accepted = new Map<
+        string,
+        Array<{ endpoint: string; submission: AttestationSubmission }>
+      >();
+      const errors: string[] = [];
+      let answered = 0;
+      let settled = false;
+      const abandon = new AbortController();
+
+      const finish = (): string | undefined => {
+        settled = true;
+        abandon.abort();
+        if (accepted.size < 2) {
+          return undefined;
+        }
+        const ids = [...accepted].map(([id, group]) => `${id} (${group.length})`).join(', ');
+        logger.warn('L3 guardians disagree on the attestation ID', { attestationIds: ids });
+        return ids;
+      };
+
+      const settle = () => {
+        if (settled) {
+          return;
+        }
+        const groups = [...accepted.values()];
+        const agreed = groups.find((group) => group.length >= this.quorum);
+        if (agreed) {
+          finish();
+          const [first] = agreed;
+          logger.info('Attestation accepted by L3 quorum', {
+            attestationId: first!.submission.attestationId,
+            accepted: agreed.length,
+            quorum: this.quorum,
+          });
+          resolve({ ...first!.submission, acceptedBy: agreed.map(({ endpoint }) => endpoint) });
+          return;
+        }
+
+        const pending = this.guardians.length - answered;
+        const largest = Math.max(0, ...groups.map((group) => group.length));
+        if (largest + pending < this.quorum) {
+          const disagreement = finish();
+          if (disagreement) {
+            errors.push(`guardians disagree on the attestation ID: ${disagreement}`);
+          }
+          reject(
+            new L3Error(
+              `Attestation accepted by ${largest} of ${this.guardians.length} guardians, quorum is ${this.quorum}: ${errors.join('; ')}`
+            )
+          );
+        }
+      };
+
+      for (const guardian of this.guardians) {
+        this.submitTo(guardian, payload, abandon.signal).then(
+          (submission) => {
+            answered++;
+            const group = accepted.get(submission.attestationId) ?? [];
+            group.push({ endpoint: guardian.endpoint, submission });
+            accepted.set(submission.attestationId, group);
+            settle();
+          },
+          (error: Error) => {
+            answered++;
+            errors.push(`${guardian.endpoint}: ${error.message}`);
+            settle();
+          }
+        );
+      }
+    });
+  }
+
+  private submitTo(
+    guardian: GuardianStatus,
+    payload: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<AttestationSubmission> {
     return retryWithBackoff(
       async () => {
         try {
-          const response = await axios.post(`${this.config.endpoint}/attestation/submit`, payload, {
+          const response = await axios.post(`${guardian.endpoint}/attestation/submit`, payload, {
             timeout: this.config.timeoutMs,
+            signal,
             headers: {
               'Content-Type': 'application/json',
             },
           });
+          this.recordSuccess(guardian);
 
           const submission: AttestationSubmission = {
             attestationId: response.data.attestation_id,
@@ -49,17 +289,22 @@ export class L3Client {
           };
 
           logger.info('Attestation submitted successfully', {
+            endpoint: guardian.endpoint,
             attestationId: submission.attestationId,
           });
 
           return submission;
         } catch (error) {
+          if (signal.aborted) {
+            throw new L3Error('Submission abandoned once the quorum settled');
+          }
           const axiosError = error as AxiosError;
           logger.warn('L3 submission failed', {
-            endpoint: this.config.endpoint,
+            endpoint: guardian.endpoint,
             error: axiosError.message,
             status: axiosError.response?.status,
           });
+          this.recordError(guardian, axiosError.message);
           throw new L3Error(`Failed to submit attestation: ${axiosError.message}`);
         }
       },
@@ -67,65 +312,18 @@ export class L3Client {
         maxAttempts: this.config.retryAttempts,
         delayMs: 1000,
         backoffMultiplier: 2,
+        signal,
       }
     );
   }
 
-  /**
-   * Query consensus status for an attestation
-   */
-  async queryConsensusStatus(attestationId: string): Promise<ConsensusStatus> {
-    logger.debug('Querying consensus status', {
-      attestationId,
-      endpoint: this.config.endpoint,
-    });
-
-    try {
-      const response = await axios.get(
-        `${this.config.endpoint}/attestation/status/${attestationId}`,
-        {
-          timeout: this.config.timeoutMs,
-        }
-      );
-
-      const status: ConsensusStatus = {
-        attestationId: response.data.attestation_id,
-        status: response.data.status,
-        guardiansVerified: response.data.guardians_verified,
-        totalGuardians: response.data.total_guardians,
-      };
-
-      logger.debug('Consensus status retrieved', {
-        attestationId,
-        status: status.status,
-        verified: `${status.guardiansVerified}/${status.totalGuardians}`,
-      });
-
-      return status;
-    } catch (error) {
-      const axiosError = error as AxiosError;
-      throw new L3Error(`Failed to query consensus status: ${axiosError.message}`);
-    }
+  private recordSuccess(guardian: GuardianStatus): void {
+    guardian.reachable = true;
+    guardian.lastSuccessAt = new Date();
   }
 
-  /**
-   * Check if L3 endpoint is reachable
-   */
-  async checkHealth(): Promise<boolean> {
-    try {
-      await axios.get(`${this.config.endpoint}/health`, {
-        timeout: 5000,
-      });
-      logger.debug('L3 endpoint is reachable', {
-        endpoint: this.config.endpoint,
-      });
-      return true;
-    } catch (error) {
-      logger.warn('L3 endpoint is unreachable', {
-        endpoint: this.config.endpoint,
-        error: (error as Error).message,
-      });
-      return false;
-    }
+  private recordError(guardian: GuardianStatus, message: string): void {
+    guardian.lastError = message;
+    guardian.lastErrorAt = new Date();
   }
 }
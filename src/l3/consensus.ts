@@ -0,0 +1,353 @@
+/**
+ * Tracking of submitted attestations until the guardians reach consensus
+ *
+ * Every attestation accepted by an L3 quorum is polled with
+ * queryConsensusStatus until it is achieved, failed or disputed. Polls back off
+ * from `pollIntervalMs` to `maxPollIntervalMs`; an attestation still pending at
+ * its deadline is marked expired. Failed polls are recorded and retried on the
+ * same schedule. The history is persisted (when a file is configured) so
+ * tracking resumes after a restart and operators can see whether registration
+ * actually completed.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { L3Client } from './client';
+import {
+  AttestationSubmission,
+  ConsensusState,
+  ConsensusTrackingConfig,
+  TrackedAttestation,
+} from '../types';
+import logger from '../utils/logger';
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 1000;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 60 * 1000;
+const DEFAULT_DEADLINE_MS = 60 * 60 * 1000;
+const DEFAULT_HISTORY_LIMIT = 1000;
+
+const FINAL_STATES: ConsensusState[] = ['achieved', 'failed', 'disputed', 'expired'];
+
+export function isFinalState(state: ConsensusState): boolean {
+  return FINAL_STATES.includes(state);
+}
+
+export interface ConsensusHistoryFilter {
+  tappId?: string;
+  state?: ConsensusState;
+  limit?: number;
+}
+
+/**
+ * Persistence backend for the tracked attestations
+ */
+export interface ConsensusRecordStore {
+  load(): Promise<TrackedAttestation[]>;
+  save(records: TrackedAttestation[]): Promise<void>;
+}
+
+/**
+ * All records in one JSON file, replaced atomically on every save
+ */
+export class FileConsensusRecordStore implements ConsensusRecordStore {
+  private readonly file: string;
+
+  constructor(file: string) {
+    this.file = file;
+  }
+
+  async load(): Promise<TrackedAttestation[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    let records: unknown;
+    try {
+      records = JSON.parse(contents);
+    } catch {
+      records = undefined;
+    }
+    if (!Array.isArray(records)) {
+      logger.warn('Consensus history file is corrupt, starting with an empty history', {
+        file: this.file,
+      });
+      return [];
+    }
+    return (records as TrackedAttestation[]).map(reviveDates);
+  }
+
+  async save(records: TrackedAttestation[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    const temporary = `${this.file}.${randomBytes(6).toString('hex')}.tmp`;
+    const handle = await fs.open(temporary, 'w', 0o600);
+    try {
+      await handle.writeFile(JSON.stringify(records));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(temporary, this.file);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+}
+
+export class ConsensusTracker {
+  private readonly l3Client: L3Client;
+  private readonly store?: ConsensusRecordStore;
+  private readonly pollIntervalMs: number;
+  private readonly maxPollIntervalMs: number;
+  private readonly deadlineMs: number;
+  private readonly historyLimit: number;
+  private readonly records = new Map<string, TrackedAttestation>(); // In submission order
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private saving: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    l3Client: L3Client,
+    config: ConsensusTrackingConfig = {},
+    store: ConsensusRecordStore | undefined = config.file
+      ? new FileConsensusRecordStore(config.file)
+      : undefined
+  ) {
+    this.l3Client = l3Client;
+    this.store = store;
+    this.pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.maxPollIntervalMs = Math.max(
+      config.maxPollIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS,
+      this.pollIntervalMs
+    );
+    this.deadlineMs = config.deadlineMs ?? DEFAULT_DEADLINE_MS;
+    this.historyLimit = config.historyLimit ?? DEFAULT_HISTORY_LIMIT;
+  }
+
+  /**
+   * Load the persisted history and resume polling attestations that had not
+   * reached a final state
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    const loaded = this.store ? await this.store.load() : [];
+    for (const record of loaded) {
+      if (this.records.has(record.attestationId)) {
+        continue;
+      }
+      this.records.set(record.attestationId, record);
+      if (!isFinalState(record.state)) {
+        this.schedule(record, 0);
+      }
+    }
+    logger.info('Consensus tracking started', {
+      tracked: this.records.size,
+      resumed: this.timers.size,
+    });
+  }
+
+  /**
+   * Stop polling; the history is kept
+   */
+  stop(): void {
+    this.stopped = true;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Start tracking an attestation the L3 quorum accepted
+   */
+  track(
+    submission: AttestationSubmission,
+    bundle: { tappId: string; nonce?: Buffer }
+  ): TrackedAttestation {
+    const now = new Date();
+    const record: TrackedAttestation = {
+      attestationId: submission.attestationId,
+      tappId: bundle.tappId,
+      nonce: bundle.nonce?.toString('hex'),
+      state: 'submitted',
+      submittedAt: now,
+      updatedAt: now,
+      deadline: new Date(now.getTime() + this.deadlineMs),
+      acceptedBy: submission.acceptedBy,
+      polls: 0,
+    };
+
+    // Resubmitting the same document yields the same id; start over
+    this.cancel(record.attestationId);
+    this.records.delete(record.attestationId);
+    this.records.set(record.attestationId, record);
+    this.prune();
+    this.persist();
+
+    this.schedule(record, this.pollIntervalMs);
+    return { ...record };
+  }
+
+  get(attestationId: string): TrackedAttestation | undefined {
+    const record = this.records.get(attestationId);
+    return record && { ...record };
+  }
+
+  /**
+   * Tracked attestations, most recently submitted first
+   */
+  list(filter: ConsensusHistoryFilter = {}): TrackedAttestation[] {
+    const matching = [...this.records.values()]
+      .reverse()
+      .filter(
+        (record) =>
+          (filter.tappId === undefined || record.tappId === filter.tappId) &&
+          (filter.state === undefined || record.state === filter.state)
+      );
+    return matching.slice(0, filter.limit ?? matching.length).map((record) => ({ ...record }));
+  }
+
+  /**
+   * Resolves once every change so far has been persisted
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private schedule(record: TrackedAttestation, delayMs: number): void {
+    if (this.stopped) {
+      return;
+    }
+    const untilDeadline = Math.max(0, record.deadline.getTime() - Date.now());
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(record.attestationId);
+        void this.poll(record);
+      },
+      Math.min(delayMs, untilDeadline)
+    );
+    timer.unref();
+    this.timers.set(record.attestationId, timer);
+  }
+
+  private cancel(attestationId: string): void {
+    const timer = this.timers.get(attestationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(attestationId);
+    }
+  }
+
+  private async poll(record: TrackedAttestation): Promise<void> {
+    record.polls++;
+    record.lastPolledAt = new Date();
+
+    try {
+      const status = await this.l3Client.queryConsensusStatus(record.attestationId);
+      record.lastError = undefined;
+      if (
+        status.status !== record.state ||
+        status.guardiansVerified !== record.guardiansVerified ||
+        status.totalGuardians !== record.totalGuardians
+      ) {
+        record.updatedAt = new Date();
+      }
+      record.state = status.status;
+      record.guardiansVerified = status.guardiansVerified;
+      record.totalGuardians = status.totalGuardians;
+    } catch (error) {
+      record.lastError = (error as Error).message;
+      logger.warn('Consensus status poll failed', {
+        attestationId: record.attestationId,
+        polls: record.polls,
+        error: record.lastError,
+      });
+    }
+
+    // Stopped, or replaced by a resubmission, while the poll was in flight
+    if (this.stopped || this.records.get(record.attestationId) !== record) {
+      return;
+    }
+
+    if (!isFinalState(record.state) && Date.now() >= record.deadline.getTime()) {
+      record.state = 'expired';
+      record.updatedAt = new Date();
+    }
+
+    if (isFinalState(record.state)) {
+      record.completedAt = new Date();
+      const details = {
+        attestationId: record.attestationId,
+        tappId: record.tappId,
+        state: record.state,
+        verified: `${record.guardiansVerified ?? 0}/${record.totalGuardians ?? 0}`,
+        polls: record.polls,
+      };
+      if (record.state === 'achieved') {
+        logger.info('Attestation consensus achieved', details);
+      } else {
+        logger.warn('Attestation consensus not achieved', details);
+      }
+      this.prune();
+    } else {
+      this.schedule(record, this.nextDelay(record.polls));
+    }
+    this.persist();
+  }
+
+  /**
+   * Delay before the next poll, doubling from pollIntervalMs up to maxPollIntervalMs
+   */
+  private nextDelay(polls: number): number {
+    return Math.min(this.pollIntervalMs * 2 ** (polls - 1), this.maxPollIntervalMs);
+  }
+
+  /**
+   * Drop the oldest finished attestations beyond the history limit
+   */
+  private prune(): void {
+    const finished = [...this.records.values()].filter((record) => isFinalState(record.state));
+    for (const record of finished.slice(0, Math.max(0, finished.length - this.historyLimit))) {
+      this.records.delete(record.attestationId);
+    }
+  }
+
+  /**
+   * Queue a save of the current records; saves run one at a time
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store) {
+      return;
+    }
+    this.saving = this.saving
+      .then(() => store.save([...this.records.values()]))
+      .catch((error: Error) => {
+        logger.error('Could not persist attestation consensus history', {
+          error: error.message,
+        });
+      });
+  }
+}
+
+function reviveDates(record: TrackedAttestation): TrackedAttestation {
+  const date = (value?: Date) => (value === undefined ? undefined : new Date(value));
+  return {
+    ...record,
+    submittedAt: new Date(record.submittedAt),
+    updatedAt: new Date(record.updatedAt),
+    deadline: new Date(record.deadline),
+    lastPolledAt: date(record.lastPolledAt),
+    completedAt: date(record.completedAt),
+  };
+}
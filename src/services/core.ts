@@ -0,0 +1,34 @@
+/**
+ * Core host services available to every enclave
+ *
+ * - log: write an enclave log line through the host logger
+ * - get_time: host wall-clock time (untrusted, the host controls it)
+ */
+
+import { HostServiceError } from '../utils/errors';
+import logger from '../utils/logger';
+import { HostServiceRegistry, objectParams } from './registry';
+
+const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+type LogLevel = (typeof LOG_LEVELS)[number];
+
+export function registerCoreServices(registry: HostServiceRegistry): HostServiceRegistry {
+  return registry
+    .register('log', (params, call) => {
+      const { level = 'info', message, meta } = objectParams(params);
+      if (!LOG_LEVELS.includes(level as LogLevel)) {
+        throw new HostServiceError(`Invalid log level: ${String(level)}`);
+      }
+      if (typeof message !== 'string') {
+        throw new HostServiceError('Log message must be a string');
+      }
+
+      const fields = typeof meta === 'object' && meta !== null ? meta : {};
+      logger[level as LogLevel](`[enclave] ${message}`, { ...fields, tappId: call.tappId });
+      return {};
+    })
+    .register('get_time', () => {
+      const now = Date.now();
+      return { timestamp: now, iso: new Date(now).toISOString() };
+    });
+}
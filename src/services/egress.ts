@@ -0,0 +1,276 @@
+/**
+ * Outbound HTTP egress proxy for the enclave
+ *
+ * Nitro enclaves have no network of their own, so the enclave asks the host
+ * to perform HTTP requests through the `http_fetch` host service. Only hosts
+ * on the configured allowlist are reachable, each TAPP has a per-minute
+ * request quota, request and response bodies are size-limited, and every
+ * attempt is written to the audit log.
+ *
+ * Bodies travel base64-encoded so binary payloads survive the JSON codec.
+ * Redirects are not followed: the enclave receives the 3xx response and must
+ * issue a new (again allowlist-checked) request.
+ */
+
+import axios, { AxiosError, AxiosInstance, Method } from 'axios';
+import { EgressConfig } from '../types';
+import { HostServiceError } from '../utils/errors';
+import logger from '../utils/logger';
+import { HostServiceCall, HostServiceRegistry, objectParams } from './registry';
+
+export const HTTP_FETCH_METHOD = 'http_fetch';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REQUEST_BYTES = 64 * 1024;
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const QUOTA_WINDOW_MS = 60000;
+
+const ALLOWED_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+export interface HttpFetchParams {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string; // Base64
+  timeoutMs?: number; // Capped at the configured timeout
+}
+
+export interface HttpFetchResult {
+  status: number;
+  headers: Record<string, string>;
+  body: string; // Base64
+}
+
+interface QuotaWindow {
+  startedAt: number;
+  count: number;
+}
+
+export class EgressProxy {
+  private readonly config: EgressConfig;
+  private readonly http: AxiosInstance;
+  private readonly windows = new Map<string, QuotaWindow>();
+
+  constructor(config: EgressConfig) {
+    this.config = config;
+    this.http = axios.create({
+      maxRedirects: 0,
+      responseType: 'arraybuffer',
+      validateStatus: () => true, // Non-2xx statuses are results for the enclave, not errors
+      proxy: false,
+    });
+  }
+
+  /**
+   * Expose the proxy to the enclave as the http_fetch host service
+   */
+  register(registry: HostServiceRegistry): HostServiceRegistry {
+    return registry.register(HTTP_FETCH_METHOD, (params, call) =>
+      this.fetch(checkFetchParams(params), call)
+    );
+  }
+
+  async fetch(params: HttpFetchParams, call: HostServiceCall): Promise<HttpFetchResult> {
+    const startedAt = Date.now();
+    const audit = {
+      audit: 'egress',
+      tappId: call.tappId,
+      requestId: call.requestId,
+      method: (params.method ?? 'GET').toUpperCase(),
+      url: params.url,
+    };
+
+    let url: URL;
+    let body: Buffer | undefined;
+    try {
+      url = this.checkUrl(params.url);
+      body = this.checkRequest(params, audit.method);
+      this.consumeQuota(call.tappId);
+    } catch (error) {
+      logger.warn('Egress request denied', { ...audit, reason: (error as Error).message });
+      throw error;
+    }
+
+    const maxResponseBytes = this.config.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+    const timeoutMs = Math.min(
+      params.timeoutMs ?? Infinity,
+      this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    );
+
+    try {
+      const response = await this.http.request<ArrayBuffer>({
+        url: url.toString(),
+        method: audit.method as Method,
+        headers: withoutHostHeader(params.headers),
+        data: body,
+        timeout: timeoutMs,
+        maxContentLength: maxResponseBytes,
+      });
+
+      const responseBody = Buffer.from(response.data);
+      logger.info('Egress request completed', {
+        ...audit,
+        status: response.status,
+        requestBytes: body?.length ?? 0,
+        responseBytes: responseBody.length,
+        durationMs: Date.now() - startedAt,
+      });
+
+      return {
+        status: response.status,
+        headers: flattenHeaders(response.headers as Record<string, unknown>),
+        body: responseBody.toString('base64'),
+      };
+    } catch (error) {
+      const reason = describeFailure(error as AxiosError, maxResponseBytes, timeoutMs);
+      logger.warn('Egress request failed', {
+        ...audit,
+        reason,
+        durationMs: Date.now() - startedAt,
+      });
+      throw new HostServiceError(`Egress request failed: ${reason}`);
+    }
+  }
+
+  /**
+   * Parse the URL and check its scheme and host against the allowlist
+   */
+  private checkUrl(rawUrl: unknown): URL {
+    if (typeof rawUrl !== 'string') {
+      throw new HostServiceError('Egress url must be a string');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new HostServiceError(`Invalid egress url: ${rawUrl}`);
+    }
+
+    const schemes = this.config.allowHttp ? ['https:', 'http:'] : ['https:'];
+    if (!schemes.includes(url.protocol)) {
+      throw new HostServiceError(`Egress scheme ${url.protocol} is not allowed`);
+    }
+    if (url.username || url.password) {
+      throw new HostServiceError('Egress urls must not carry credentials');
+    }
+    if (!this.isAllowedHost(url.hostname)) {
+      throw new HostServiceError(`Egress to ${url.hostname} is not allowed`);
+    }
+
+    return url;
+  }
+
+  private isAllowedHost(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return this.config.allowedDomains.some((entry) => {
+      const domain = entry.toLowerCase();
+      if (domain.startsWith('*.')) {
+        return host.endsWith(domain.slice(1));
+      }
+      return host === domain;
+    });
+  }
+
+  private checkRequest(params: HttpFetchParams, method: string): Buffer | undefined {
+    if (!ALLOWED_METHODS.includes(method)) {
+      throw new HostServiceError(`Egress method ${method} is not allowed`);
+    }
+    if (params.body === undefined) {
+      return undefined;
+    }
+    if (typeof params.body !== 'string') {
+      throw new HostServiceError('Egress body must be a base64 string');
+    }
+
+    const body = Buffer.from(params.body, 'base64');
+    const maxRequestBytes = this.config.maxRequestBytes ?? DEFAULT_MAX_REQUEST_BYTES;
+    if (body.length > maxRequestBytes) {
+      throw new HostServiceError(
+        `Egress request body of ${body.length} bytes exceeds limit of ${maxRequestBytes} bytes`
+      );
+    }
+    return body;
+  }
+
+  /**
+   * Count the request against the TAPP's quota for the current minute
+   */
+  private consumeQuota(tappId: string): void {
+    const limit =
+      this.config.tappQuotas?.[tappId] ??
+      this.config.requestsPerMinute ??
+      DEFAULT_REQUESTS_PER_MINUTE;
+
+    const now = Date.now();
+    let window = this.windows.get(tappId);
+    if (!window || now - window.startedAt >= QUOTA_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(tappId, window);
+    }
+
+    if (window.count >= limit) {
+      throw new HostServiceError(`Egress quota of ${limit} requests per minute exceeded`);
+    }
+    window.count++;
+  }
+}
+
+function withoutHostHeader(headers?: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (name.toLowerCase() !== 'host') {
+      result[name] = String(value);
+    }
+  }
+  return result;
+}
+
+function flattenHeaders(headers: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && value !== null) {
+      result[name] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
+
+function describeFailure(error: AxiosError, maxResponseBytes: number, timeoutMs: number): string {
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return `timed out after ${timeoutMs}ms`;
+  }
+  if (error.code === 'ERR_BAD_RESPONSE' && /maxContentLength/.test(error.message)) {
+    return `response exceeds limit of ${maxResponseBytes} bytes`;
+  }
+  return error.code ?? error.message;
+}
+
+/**
+ * Check the types of the http_fetch params the enclave sent
+ */
+function checkFetchParams(params: unknown): HttpFetchParams {
+  const { url, method, headers, body, timeoutMs } = objectParams(params);
+  if (typeof url !== 'string') {
+    throw new HostServiceError('Egress url must be a string');
+  }
+  if (method !== undefined && typeof method !== 'string') {
+    throw new HostServiceError('Egress method must be a string');
+  }
+  if (
+    headers !== undefined &&
+    (typeof headers !== 'object' ||
+      headers === null ||
+      Object.values(headers).some((value) => typeof value !== 'string'))
+  ) {
+    throw new HostServiceError('Egress headers must map names to strings');
+  }
+  if (body !== undefined && typeof body !== 'string') {
+    throw new HostServiceError('Egress body must be a base64 string');
+  }
+  if (timeoutMs !== undefined && typeof timeoutMs !== 'number') {
+    throw new HostServiceError('Egress timeoutMs must be a number');
+  }
+  return { url, method, headers: headers as Record<string, string> | undefined, body, timeoutMs };
+}
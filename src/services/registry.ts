@@ -0,0 +1,99 @@
+/**
+ * Registry of host services the enclave can call
+ *
+ * The enclave sends requests of its own over the same connection (a TeeRequest
+ * with an enclave-chosen id); the socket client hands them to this registry,
+ * which runs the handler registered for the method and turns its result into
+ * the TeeResponse sent back.
+ */
+
+import { TeeRequest, TeeResponse } from '../types';
+import { HostError, HostServiceError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Identifies the enclave a host request came from
+ */
+export interface HostServiceContext {
+  tappId: string;
+}
+
+export interface HostServiceCall extends HostServiceContext {
+  requestId: string;
+  method: string;
+}
+
+// Params come from the enclave unchecked; handlers narrow them before use
+export type HostServiceHandler = (params: unknown, call: HostServiceCall) => unknown;
+
+export class HostServiceRegistry {
+  private readonly handlers = new Map<string, HostServiceHandler>();
+
+  /**
+   * Register the handler for a method; each method can have only one handler
+   */
+  register(method: string, handler: HostServiceHandler): this {
+    if (this.handlers.has(method)) {
+      throw new HostError(`Host service ${method} is already registered`);
+    }
+    this.handlers.set(method, handler);
+    logger.debug('Registered host service', { method });
+    return this;
+  }
+
+  unregister(method: string): boolean {
+    return this.handlers.delete(method);
+  }
+
+  has(method: string): boolean {
+    return this.handlers.has(method);
+  }
+
+  methods(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  /**
+   * Run the handler for an enclave request; never throws
+   */
+  async handle(request: TeeRequest, context: HostServiceContext): Promise<TeeResponse> {
+    const handler = this.handlers.get(request.method);
+    if (!handler) {
+      logger.warn('Enclave called unknown host service', {
+        method: request.method,
+        tappId: context.tappId,
+      });
+      return { id: request.id, success: false, error: `Unknown method: ${request.method}` };
+    }
+
+    try {
+      const data = await handler(request.params ?? {}, {
+        ...context,
+        requestId: request.id,
+        method: request.method,
+      });
+      return { id: request.id, success: true, data };
+    } catch (error) {
+      logger.error('Host service failed', {
+        method: request.method,
+        tappId: context.tappId,
+        error: (error as Error).message,
+      });
+
+      // Only deliberate service errors are passed on; anything else is internal
+      const message =
+        error instanceof HostServiceError ? error.message : 'Internal host service error';
+      return { id: request.id, success: false, error: message };
+    }
+  }
+}
+
+/**
+ * The params of a host service call as an object whose fields are still unchecked
+ */
+export function objectParams(params: unknown): Record<string, unknown> {
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    throw new HostServiceError('Host service params must be an object');
+  }
+  return params as Record<string, unknown>;
+}
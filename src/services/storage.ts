@@ -0,0 +1,394 @@
+/**
+ * Host-backed blob storage for enclave state
+ *
+ * Enclaves lose their memory on restart, so they persist state through the
+ * storage_* host services. Values are opaque to the host (the enclave seals
+ * them before sending), keyed by TAPP and key, and versioned: every write
+ * bumps the version and writes may be made conditional on the current one
+ * (compare-and-swap). Sizes and key counts are capped per TAPP.
+ */
+
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { StorageConfig } from '../types';
+import { HostServiceError } from '../utils/errors';
+import logger from '../utils/logger';
+import { HostServiceCall, HostServiceRegistry, objectParams } from './registry';
+
+const DEFAULT_MAX_VALUE_BYTES = 1024 * 1024;
+const DEFAULT_MAX_TAPP_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MAX_KEYS_PER_TAPP = 10000;
+const DEFAULT_LIST_LIMIT = 100;
+
+// Keys are hex-encoded into file names, which most filesystems cap at 255 bytes
+export const MAX_KEY_BYTES = 120;
+
+export interface StoredBlob {
+  value: Buffer;
+  version: number;
+}
+
+export interface BlobEntry {
+  key: string;
+  version: number;
+  size: number;
+}
+
+/**
+ * Persistence backend; callers serialise writes per TAPP
+ */
+export interface BlobStore {
+  get(tappId: string, key: string): Promise<StoredBlob | undefined>;
+  put(tappId: string, key: string, blob: StoredBlob): Promise<void>;
+  delete(tappId: string, key: string): Promise<boolean>;
+  list(tappId: string): Promise<BlobEntry[]>; // Sorted by key
+}
+
+/**
+ * One file per blob: [8 bytes: version (big-endian)][value]
+ * Writes go to a temporary file that is fsynced and renamed over the old one,
+ * so a crash leaves either the previous or the new blob, never a mix.
+ */
+export class FileBlobStore implements BlobStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(tappId: string, key: string): Promise<StoredBlob | undefined> {
+    let contents: Buffer;
+    try {
+      contents = await fs.readFile(this.blobPath(tappId, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    return { version: Number(contents.readBigUInt64BE(0)), value: contents.subarray(8) };
+  }
+
+  async put(tappId: string, key: string, blob: StoredBlob): Promise<void> {
+    const file = this.blobPath(tappId, key);
+    const directory = path.dirname(file);
+    await fs.mkdir(directory, { recursive: true });
+
+    const header = Buffer.alloc(8);
+    header.writeBigUInt64BE(BigInt(blob.version), 0);
+
+    const temporary = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+    const handle = await fs.open(temporary, 'w', 0o600);
+    try {
+      await handle.writeFile(Buffer.concat([header, blob.value]));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(temporary, file);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+    await this.syncDirectory(directory);
+  }
+
+  async delete(tappId: string, key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.blobPath(tappId, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+    await this.syncDirectory(this.tappDirectory(tappId));
+    return true;
+  }
+
+  async list(tappId: string): Promise<BlobEntry[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.tappDirectory(tappId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: BlobEntry[] = [];
+    for (const name of names.filter((n) => n.endsWith('.blob'))) {
+      const key = Buffer.from(name.slice(0, -'.blob'.length), 'hex').toString('utf-8');
+      const entry = await this.readEntry(tappId, key);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  /**
+   * Version and size of a blob from its header and file size, without reading the value
+   */
+  private async readEntry(tappId: string, key: string): Promise<BlobEntry | undefined> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.blobPath(tappId, key), 'r');
+    } catch (error) {
+      // Deleted since the directory was read
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      const header = Buffer.alloc(8);
+      await handle.read(header, 0, 8, 0);
+      const { size } = await handle.stat();
+      return { key, version: Number(header.readBigUInt64BE(0)), size: size - 8 };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private tappDirectory(tappId: string): string {
+    return path.join(this.directory, Buffer.from(tappId, 'utf-8').toString('hex'));
+  }
+
+  private blobPath(tappId: string, key: string): string {
+    return path.join(
+      this.tappDirectory(tappId),
+      `${Buffer.from(key, 'utf-8').toString('hex')}.blob`
+    );
+  }
+
+  /**
+   * Persist the rename/unlink itself; not every platform supports it
+   */
+  private async syncDirectory(directory: string): Promise<void> {
+    try {
+      const handle = await fs.open(directory, 'r');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // Best effort
+    }
+  }
+}
+
+interface TappUsage {
+  bytes: number;
+  keys: number;
+}
+
+interface PutParams {
+  key?: unknown;
+  value?: unknown; // Base64
+  expectedVersion?: unknown; // 0 = key must not exist yet
+}
+
+interface DeleteParams {
+  key?: unknown;
+  expectedVersion?: unknown;
+}
+
+interface ListParams {
+  prefix?: unknown;
+  after?: unknown;
+  limit?: unknown;
+}
+
+export class StorageService {
+  private readonly config: StorageConfig;
+  private readonly store: BlobStore;
+  private readonly usage = new Map<string, TappUsage>();
+  private readonly locks = new Map<string, Promise<void>>();
+
+  constructor(config: StorageConfig, store: BlobStore = new FileBlobStore(config.directory)) {
+    this.config = config;
+    this.store = store;
+  }
+
+  /**
+   * Expose the store to the enclave as the storage_* host services
+   */
+  register(registry: HostServiceRegistry): HostServiceRegistry {
+    return registry
+      .register('storage_get', (params, call) => this.get(objectParams(params), call))
+      .register('storage_put', (params, call) => this.put(objectParams(params), call))
+      .register('storage_delete', (params, call) => this.delete(objectParams(params), call))
+      .register('storage_list', (params, call) => this.list(objectParams(params), call));
+  }
+
+  /**
+   * Returns null when the key does not exist
+   */
+  async get(
+    params: { key?: unknown },
+    call: HostServiceCall
+  ): Promise<{ value: string; version: number } | null> {
+    const key = checkKey(params.key);
+    const blob = await this.store.get(call.tappId, key);
+    return blob ? { value: blob.value.toString('base64'), version: blob.version } : null;
+  }
+
+  async put(params: PutParams, call: HostServiceCall): Promise<{ version: number }> {
+    const key = checkKey(params.key);
+    if (typeof params.value !== 'string') {
+      throw new HostServiceError('Storage value must be a base64 string');
+    }
+    const value = Buffer.from(params.value, 'base64');
+
+    const maxValueBytes = this.config.maxValueBytes ?? DEFAULT_MAX_VALUE_BYTES;
+    if (value.length > maxValueBytes) {
+      throw new HostServiceError(
+        `Storage value of ${value.length} bytes exceeds limit of ${maxValueBytes} bytes`
+      );
+    }
+
+    return this.exclusive(call.tappId, async () => {
+      const current = await this.store.get(call.tappId, key);
+      checkVersion(params.expectedVersion, current?.version ?? 0);
+
+      const usage = await this.loadUsage(call.tappId);
+      const bytes = usage.bytes - (current?.value.length ?? 0) + value.length;
+      const keys = usage.keys + (current ? 0 : 1);
+      this.checkQuota(bytes, keys);
+
+      const version = (current?.version ?? 0) + 1;
+      await this.store.put(call.tappId, key, { value, version });
+      this.usage.set(call.tappId, { bytes, keys });
+
+      logger.debug('Stored enclave blob', {
+        tappId: call.tappId,
+        key,
+        version,
+        size: value.length,
+      });
+      return { version };
+    });
+  }
+
+  async delete(params: DeleteParams, call: HostServiceCall): Promise<{ deleted: boolean }> {
+    const key = checkKey(params.key);
+
+    return this.exclusive(call.tappId, async () => {
+      const current = await this.store.get(call.tappId, key);
+      checkVersion(params.expectedVersion, current?.version ?? 0);
+      if (!current) {
+        return { deleted: false };
+      }
+
+      const usage = await this.loadUsage(call.tappId);
+      await this.store.delete(call.tappId, key);
+      this.usage.set(call.tappId, {
+        bytes: usage.bytes - current.value.length,
+        keys: usage.keys - 1,
+      });
+      return { deleted: true };
+    });
+  }
+
+  /**
+   * Keys in order, paged with `after` (the last key of the previous page)
+   */
+  async list(
+    params: ListParams,
+    call: HostServiceCall
+  ): Promise<{ entries: BlobEntry[]; nextAfter?: string }> {
+    const prefix = typeof params.prefix === 'string' ? params.prefix : '';
+    const limit = Math.min(
+      typeof params.limit === 'number' && params.limit > 0 ? params.limit : DEFAULT_LIST_LIMIT,
+      DEFAULT_LIST_LIMIT * 10
+    );
+
+    const matching = (await this.store.list(call.tappId)).filter(
+      (entry) =>
+        entry.key.startsWith(prefix) &&
+        (typeof params.after !== 'string' || entry.key > params.after)
+    );
+    const entries = matching.slice(0, limit);
+
+    return {
+      entries,
+      nextAfter: matching.length > limit ? entries[entries.length - 1]?.key : undefined,
+    };
+  }
+
+  private checkQuota(bytes: number, keys: number): void {
+    const maxTappBytes = this.config.maxTappBytes ?? DEFAULT_MAX_TAPP_BYTES;
+    if (bytes > maxTappBytes) {
+      throw new HostServiceError(`Storage quota of ${maxTappBytes} bytes exceeded`);
+    }
+    const maxKeys = this.config.maxKeysPerTapp ?? DEFAULT_MAX_KEYS_PER_TAPP;
+    if (keys > maxKeys) {
+      throw new HostServiceError(`Storage quota of ${maxKeys} keys exceeded`);
+    }
+  }
+
+  private async loadUsage(tappId: string): Promise<TappUsage> {
+    let usage = this.usage.get(tappId);
+    if (!usage) {
+      const entries = await this.store.list(tappId);
+      usage = {
+        bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+        keys: entries.length,
+      };
+      this.usage.set(tappId, usage);
+    }
+    return usage;
+  }
+
+  /**
+   * Run writes for one TAPP one at a time so version checks and quota
+   * accounting cannot interleave
+   */
+  private async exclusive<T>(tappId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(tappId) ?? Promise.resolve();
+    const result = previous.then(task);
+    const done = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.locks.set(tappId, done);
+
+    try {
+      return await result;
+    } finally {
+      if (this.locks.get(tappId) === done) {
+        this.locks.delete(tappId);
+      }
+    }
+  }
+}
+
+function checkKey(key: unknown): string {
+  if (typeof key !== 'string' || key.length === 0) {
+    throw new HostServiceError('Storage key must be a non-empty string');
+  }
+  if (Buffer.byteLength(key, 'utf-8') > MAX_KEY_BYTES) {
+    throw new HostServiceError(`Storage key exceeds ${MAX_KEY_BYTES} bytes`);
+  }
+  return key;
+}
+
+function checkVersion(expected: unknown, current: number): void {
+  if (expected === undefined || expected === null) {
+    return;
+  }
+  if (typeof expected !== 'number' || !Number.isInteger(expected) || expected < 0) {
+    throw new HostServiceError('expectedVersion must be a non-negative integer');
+  }
+  if (expected !== current) {
+    throw new HostServiceError(`Version conflict: expected ${expected}, current ${current}`);
+  }
+}
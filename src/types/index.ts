@@ -9,6 +9,7 @@ export interface TeeRequest {
   method: string;
   params: any;
   timestamp: number;
+  stream?: boolean; // Caller accepts a multi-frame (streamed) response
 }
 
 export interface TeeResponse {
@@ -17,29 +18,153 @@ export interface TeeResponse {
   data?: any;
   signature?: string;
   error?: string;
+  stream?: 'chunk' | 'end'; // Set on frames of a streamed response
+  seq?: number; // Position of the frame within its stream, starting at 0
+  verified?: boolean; // Signature check result, added by the host under the 'flag' policy
 }
 
 // Configuration types
 export interface Config {
   vsock: VsockConfig;
+  tappId?: string; // TAPP served by the single `vsock` enclave (overridden by TAPP_ID)
+  enclaves?: EnclaveConfig[]; // Several enclaves, each inheriting unset fields from `vsock`
   l3: L3Config;
   api: ApiConfig;
   auth: AuthConfig;
   logging: LoggingConfig;
+  egress?: EgressConfig; // Enclave HTTP egress proxy, disabled when absent
+  storage?: StorageConfig; // Enclave blob storage, disabled when absent
+  attestation?: AttestationConfig; // Checks of enclave attestation documents
 }
 
+export type EnclaveTransport = 'auto' | 'vsock' | 'unix' | 'tcp';
+
+export type WireEncoding = 'json' | 'msgpack' | 'cbor';
+
+export type BalancingStrategy = 'round-robin' | 'least-inflight';
+
 export interface VsockConfig {
   cid: number;
-  port: number;
+  port: number; // vsock port, or TCP port when transport is 'tcp'
+  transport?: EnclaveTransport; // Defaults to 'auto' (detected from the other fields)
+  socketPath?: string; // Unix socket path
+  host?: string; // TCP host
   timeoutMs: number;
   retryAttempts: number;
   retryDelayMs: number;
+  poolSize?: number; // Number of pooled connections to the enclave (default 1)
+  requestTimeoutMs?: number; // Default deadline for a single enclave request
+  methodTimeouts?: Record<string, number>; // Per-method deadline overrides
+  keepaliveIntervalMs?: number; // Ping interval while connected, 0 disables (default 15000)
+  keepaliveTimeoutMs?: number; // Ping deadline before the connection is dropped (default 5000)
+  reconnectMaxDelayMs?: number; // Upper bound for reconnect backoff (default 30000)
+  encoding?: WireEncoding | 'auto'; // Wire encoding after the handshake (default 'json')
+  maxFrameBytes?: number; // Largest frame accepted or sent (default 16 MiB)
+  replicas?: ReplicaConfig[]; // Replica enclaves of one TAPP, balanced behind a single client
+  balancing?: BalancingStrategy; // Replica selection (default 'least-inflight')
+  replicaProbeIntervalMs?: number; // Health ping interval per replica (default 5000)
+  replicaEjectAfterFailures?: number; // Consecutive transport errors before ejection (default 3)
+  circuitBreaker?: CircuitBreakerConfig; // Fast-fail enclave calls while the enclave is failing
+  admission?: AdmissionConfig; // Bounds on concurrent and queued enclave calls
+  responseVerification?: ResponseVerificationConfig; // Checks of enclave response signatures
+}
+
+export interface ReplicaConfig extends Partial<
+  Pick<VsockConfig, 'cid' | 'port' | 'transport' | 'socketPath' | 'host'>
+> {
+  name?: string; // Label in status output (default replica-<index>)
+}
+
+export interface EnclaveConfig extends Partial<
+  Pick<
+    VsockConfig,
+    'cid' | 'port' | 'transport' | 'socketPath' | 'host' | 'poolSize' | 'replicas' | 'balancing'
+  >
+> {
+  tappId: string;
+}
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface ProtocolInfo {
+  version: string; // Negotiated host/enclave protocol version
+  encoding: WireEncoding; // Wire encoding selected by the enclave
+  capabilities: string[]; // Optional features advertised by the enclave
+  enclaveVersion?: string;
+  legacy: boolean; // Enclave predates the handshake
 }
 
 export interface L3Config {
-  endpoint: string; // Single endpoint (can be env var or config)
+  endpoint?: string; // Single guardian (can be env var or config), used when guardians is unset
+  guardians?: string[]; // Guardian endpoints; attestations are submitted to all of them
+  quorum?: number; // Guardians that must accept a submission (default a majority)
   timeoutMs: number;
   retryAttempts: number;
+  circuitBreaker?: CircuitBreakerConfig; // Fast-fail L3 calls while no quorum can be reached
+  consensus?: ConsensusTrackingConfig; // Polling of submitted attestations until consensus
+}
+
+export interface ConsensusTrackingConfig {
+  file?: string; // JSON file the history is persisted to; kept in memory only when absent
+  pollIntervalMs?: number; // First poll after submission (default 5000)
+  maxPollIntervalMs?: number; // Polls back off up to this interval (default 60000)
+  deadlineMs?: number; // Time after submission before tracking gives up (default 3600000)
+  historyLimit?: number; // Finished attestations kept (default 1000)
+}
+
+export interface AdmissionConfig {
+  enabled?: boolean; // Default true
+  maxInflight?: number; // Concurrent enclave calls (default 64)
+  maxQueue?: number; // Calls waiting for a slot before new ones get 429 (default 256)
+  queueTimeoutMs?: number; // Longest wait for a slot before 503 (default 5000)
+  methodLimits?: Record<string, number>; // Concurrent calls per method
+  retryAfterMs?: number; // Retry-After sent with 429/503 (default 1000)
+}
+
+export type ResponseVerificationPolicy = 'reject' | 'flag' | 'passthrough';
+
+export interface ResponseVerificationConfig {
+  enabled?: boolean; // Default true
+  policy?: ResponseVerificationPolicy; // Handling of unsigned or invalid responses (default 'passthrough')
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  enabled?: boolean; // Default true
+  failureRateThreshold?: number; // Failed fraction of calls that opens the breaker (default 0.5)
+  minimumRequests?: number; // Calls in the window before it can open (default 10)
+  windowMs?: number; // Sliding window for the failure rate (default 30000)
+  cooldownMs?: number; // Time open before a trial call is let through (default 10000)
+}
+
+export interface AttestationConfig {
+  rootCertificate?: string; // Trusted root certificate file (PEM or DER), e.g. the AWS Nitro root
+  maxAgeMs?: number; // Oldest acceptable attestation document (default 300000)
+  clockSkewMs?: number; // Tolerance for document timestamps in the future (default 60000)
+  allowedMeasurements?: Record<string, PcrMeasurements[]>; // Approved images per TAPP ID
+  cacheTtlMs?: number; // Longest a cached attestation is served (default 60000)
+  cacheRefreshIntervalMs?: number; // Background refresh of cached attestations (default 30000)
+  reattestation?: ReattestationConfig; // Automatic submission to L3, disabled when absent
+}
+
+export interface ReattestationConfig {
+  enabled?: boolean; // Default true
+  intervalMs?: number; // Longest time between attestations (default 21600000)
+  jitterMs?: number; // Runs come up to this much earlier than intervalMs (default 10% of it)
+  retryDelayMs?: number; // First retry after a failed run, doubling up to intervalMs (default 30000)
+  alertAfterFailures?: number; // Consecutive failed runs before alerting (default 3)
+  alertWebhookUrl?: string; // Receives a JSON POST when alerting and on recovery
+}
+
+/**
+ * Image measurements from an attestation document, as hex
+ */
+export interface PcrMeasurements {
+  pcr0: string; // Enclave image file
+  pcr1: string; // Linux kernel and bootstrap
+  pcr2: string; // Application
+  pcr8?: string; // Signing certificate of the image; only compared when the allowlist sets it
 }
 
 export interface ApiConfig {
@@ -60,6 +185,23 @@ export interface LoggingConfig {
   format: string;
 }
 
+export interface StorageConfig {
+  directory: string; // Root directory of the file store
+  maxValueBytes?: number; // Largest single blob (default 1 MiB)
+  maxTappBytes?: number; // Total blob bytes per TAPP (default 64 MiB)
+  maxKeysPerTapp?: number; // Number of keys per TAPP (default 10000)
+}
+
+export interface EgressConfig {
+  allowedDomains: string[]; // Exact host names, or "*.example.com" for subdomains
+  allowHttp?: boolean; // Permit plain http:// URLs (default false)
+  timeoutMs?: number; // Per-request timeout (default 10000)
+  maxRequestBytes?: number; // Largest request body accepted from the enclave (default 64 KiB)
+  maxResponseBytes?: number; // Largest response body returned to the enclave (default 1 MiB)
+  requestsPerMinute?: number; // Default per-TAPP quota (default 60)
+  tappQuotas?: Record<string, number>; // Per-TAPP overrides of requestsPerMinute
+}
+
 // Host-specific types
 export interface DAppRequest {
   method: string;
@@ -72,15 +214,159 @@ export interface DAppRequest {
 export interface HealthStatus {
   status: 'healthy' | 'unhealthy';
   enclaveConnected: boolean;
+  enclaveConnectionState: ConnectionState;
   l3Reachable: boolean;
   uptimeSeconds: number;
+  enclaves?: Record<string, ConnectionState>; // Connection state per TAPP ID
+  circuitBreakers?: Record<string, CircuitState>; // 'l3' and 'enclave:<tappId>'
 }
 
 export interface StatusResponse extends HealthStatus {
+  tappId: string; // TAPP whose enclave the enclave* fields describe
   hostVersion: string;
+  protocolVersion?: string;
+  enclaveCapabilities?: string[];
   enclavePublicKey?: string;
+  enclaveKey?: EnclaveKeyStatus;
   l3GuardiansReachable: number;
+  l3Quorum?: number; // Guardians that must accept an attestation
+  l3Guardians?: GuardianStatus[];
   requestsProcessed: number;
+  enclavePool?: PoolStats;
+  enclaveReplicas?: BalancerStats;
+  enclaveAdmission?: AdmissionStats;
+  enclaveCircuit?: CircuitBreakerStats;
+  enclaveSignatures?: ResponseVerificationStats;
+  enclaveMeasurements?: MeasurementPolicyStatus;
+  l3Circuit?: CircuitBreakerStats;
+  rejectedFrames?: RejectedFrameStats;
+}
+
+export type EnclaveKeySource = 'attestation' | 'get_public_key';
+
+export interface EnclaveKeyInfo {
+  publicKey: string;
+  fingerprint: string; // SHA-256 of the key bytes, hex
+  source: EnclaveKeySource; // Attested, or only reported by get_public_key
+  firstSeen: Date; // When this key was first reported
+  lastSeen: Date; // Most recent fetch that returned it
+}
+
+export interface EnclaveKeyStatus extends Partial<EnclaveKeyInfo> {
+  attestationDigest?: string; // SHA-256 of the attestation document the key came from
+  keyChanges: number; // Times the key differed from the one before
+  previousKeys: Array<{
+    publicKey: string;
+    fingerprint: string;
+    firstSeen: Date;
+    replacedAt: Date;
+  }>;
+}
+
+export interface EnclaveInfoResponse extends EnclaveKeyStatus {
+  tappId: string;
+  enclaveConnectionState: ConnectionState;
+}
+
+export interface AttestationChallengeResponse {
+  tappId: string;
+  nonce: string; // Hex challenge carried in the document
+  attestationDoc: string; // Base64 COSE_Sign1 document
+  certificateChain: string[]; // Base64 DER certificates
+  publicKey: string;
+  moduleId: string;
+  timestamp: Date; // When the enclave's hypervisor produced the document
+  pcrs: Record<number, string>; // Hex
+}
+
+export interface AttestationResponse {
+  tappId: string;
+  attestationDoc: string; // Base64 COSE_Sign1 document
+  certificateChain: string[]; // Base64 DER certificates
+  publicKey?: string;
+  moduleId: string;
+  timestamp: Date; // When the enclave's hypervisor produced the document
+  pcrs: Record<number, string>; // Hex
+  fetchedAt: Date; // When the host fetched it from the enclave
+  expiresAt: Date; // When the host stops serving it
+}
+
+export interface AttestationHistoryResponse {
+  attestations: TrackedAttestation[]; // Most recently submitted first
+}
+
+export interface AdmissionStats {
+  inflight: number;
+  queued: number; // Current queue depth
+  maxInflight: number;
+  maxQueue: number;
+  admitted: number; // Calls let through since startup
+  rejected: number; // Calls refused because the queue was full (429)
+  timedOut: number; // Calls that gave up waiting in the queue (503)
+  methods: Record<string, { inflight: number; queued: number; limit?: number }>;
+}
+
+export interface ResponseVerificationStats {
+  policy: ResponseVerificationPolicy;
+  publicKeys: string[]; // Keys responses are checked against, from attestations, oldest first
+  verified: number; // Successful responses with a valid signature
+  invalid: number; // Signature present but not valid for the key
+  unsigned: number; // Successful responses without a signature
+  unverifiable: number; // Signed, but no public key was available to check it
+}
+
+export type MeasurementVerdict = 'pending' | 'allowed' | 'rejected';
+
+export interface MeasurementPolicyStatus {
+  verdict: MeasurementVerdict; // 'pending' until an attestation has been evaluated
+  reason?: string; // Why the enclave was rejected
+  measurements?: PcrMeasurements; // From the most recently evaluated attestation
+  evaluatedAt?: Date;
+  allowedMeasurements: number; // Approved measurement sets for the TAPP
+}
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  failureRate: number; // Over the current window
+  successes: number;
+  failures: number;
+  opens: number; // Times the breaker has opened
+  retryAfterMs?: number; // Until trial calls are allowed, while open
+}
+
+export interface RejectedFrameStats {
+  oversized: number; // Length prefix above maxFrameBytes (connection dropped)
+  undecodable: number; // Payload the codec could not decode (connection dropped)
+  malformed: number; // Decoded, but not a well-formed TeeResponse (frame dropped)
+}
+
+export interface PoolStats {
+  size: number;
+  healthy: number;
+  inflight: number;
+  replacements: number;
+  connections: Array<{
+    index: number;
+    connected: boolean;
+    inflight: number;
+    requests: number;
+  }>;
+}
+
+export interface BalancerStats {
+  strategy: BalancingStrategy;
+  active: number; // Replicas currently receiving requests
+  replicas: Array<{
+    name: string;
+    state: 'active' | 'ejected';
+    connectionState: ConnectionState;
+    inflight: number;
+    requests: number;
+    failures: number; // Consecutive transport errors and failed health pings
+    ejections: number;
+    measurements?: MeasurementVerdict; // When the TAPP has a measurement allowlist
+    lastError?: string;
+  }>;
 }
 
 // L3 types
@@ -89,12 +375,23 @@ export interface AttestationBundle {
   certificateChain: Buffer[];
   enclavePublicKey: string;
   tappId: string;
+  nonce?: Buffer; // Challenge the document was requested over
 }
 
 export interface AttestationSubmission {
   attestationId: string;
   submissionTime: Date;
   status: 'submitted' | 'pending' | 'verified' | 'failed';
+  acceptedBy?: string[]; // Guardians that had accepted it when the quorum was reached
+}
+
+export interface GuardianStatus {
+  endpoint: string;
+  reachable?: boolean; // From the latest health check or call; unknown before either
+  lastCheckedAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string;
+  lastErrorAt?: Date;
 }
 
 export interface ConsensusStatus {
@@ -103,3 +400,23 @@ export interface ConsensusStatus {
   guardiansVerified: number;
   totalGuardians: number;
 }
+
+// 'expired' when the deadline passed before the guardians reached a verdict
+export type ConsensusState = ConsensusStatus['status'] | 'submitted' | 'expired';
+
+export interface TrackedAttestation {
+  attestationId: string;
+  tappId: string;
+  nonce?: string; // Hex challenge the document was produced over
+  state: ConsensusState;
+  submittedAt: Date;
+  updatedAt: Date; // Last change of state or guardian counts
+  deadline: Date;
+  acceptedBy?: string[];
+  guardiansVerified?: number;
+  totalGuardians?: number;
+  polls: number;
+  lastPolledAt?: Date;
+  lastError?: string; // Of the latest poll, cleared when one succeeds
+  completedAt?: Date; // When a final state was reached
+}
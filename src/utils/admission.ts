@@ -0,0 +1,186 @@
+/**
+ * Admission control for calls into a shared resource
+ *
+ * Admits up to maxInflight calls at once (and at most the per-method limit
+ * for methods that have one). Further calls wait in a FIFO queue of at most
+ * maxQueue entries for up to queueTimeoutMs; calls arriving at a full queue
+ * are refused with QueueFullError and calls that wait too long fail with
+ * QueueTimeoutError.
+ */
+
+import { AdmissionStats } from '../types';
+import { HostError, QueueFullError, QueueTimeoutError } from './errors';
+
+export interface AdmissionOptions {
+  maxInflight: number;
+  maxQueue: number; // 0 refuses instead of queueing
+  queueTimeoutMs: number;
+  methodLimits: Record<string, number>; // Concurrency caps for individual methods
+  retryAfterMs: number; // Suggested client back-off when refusing
+}
+
+export const DEFAULT_ADMISSION_OPTIONS: AdmissionOptions = {
+  maxInflight: 64,
+  maxQueue: 256,
+  queueTimeoutMs: 5000,
+  methodLimits: {},
+  retryAfterMs: 1000,
+};
+
+/**
+ * Gives back an admitted slot; calling it more than once has no effect
+ */
+export type AdmissionRelease = () => void;
+
+interface Waiter {
+  method: string;
+  admit: () => void;
+  cancel: (error: Error) => void;
+}
+
+export class AdmissionController {
+  private readonly options: AdmissionOptions;
+  private readonly queue: Waiter[] = [];
+  private readonly methodInflight = new Map<string, number>();
+  private inflight: number = 0;
+  private admitted: number = 0;
+  private rejected: number = 0;
+  private timedOut: number = 0;
+
+  constructor(options: Partial<AdmissionOptions> = {}) {
+    this.options = { ...DEFAULT_ADMISSION_OPTIONS, ...options };
+  }
+
+  /**
+   * Wait for a slot for one call of `method`; the caller must invoke the returned release
+   */
+  acquire(method: string, signal?: AbortSignal): Promise<AdmissionRelease> {
+    // Nothing queued ahead of this call could use the free capacity, so it may skip the queue
+    if (this.canRun(method) && !this.queue.some((waiter) => waiter.method === method)) {
+      return Promise.resolve(this.admit(method));
+    }
+
+    if (this.queue.length >= this.options.maxQueue) {
+      this.rejected++;
+      return Promise.reject(
+        new QueueFullError(
+          `Enclave request queue is full (${this.queue.length} waiting)`,
+          this.options.retryAfterMs
+        )
+      );
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new HostError(`Request ${method} aborted while queued`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const index = this.queue.indexOf(waiter);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+        }
+      };
+      const waiter: Waiter = {
+        method,
+        admit: () => {
+          cleanup();
+          resolve(this.admit(method));
+        },
+        cancel: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      const timer = setTimeout(() => {
+        this.timedOut++;
+        waiter.cancel(
+          new QueueTimeoutError(
+            `Request ${method} waited ${this.options.queueTimeoutMs}ms for an enclave slot`,
+            this.options.retryAfterMs
+          )
+        );
+      }, this.options.queueTimeoutMs);
+
+      const onAbort = () => {
+        waiter.cancel(new HostError(`Request ${method} aborted while queued`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(waiter);
+    });
+  }
+
+  getStats(): AdmissionStats {
+    const methods: AdmissionStats['methods'] = {};
+    const entry = (method: string) => {
+      methods[method] ??= {
+        inflight: this.methodInflight.get(method) ?? 0,
+        queued: 0,
+        limit: this.options.methodLimits[method],
+      };
+      return methods[method];
+    };
+    Object.keys(this.options.methodLimits).forEach(entry);
+    this.methodInflight.forEach((_, method) => entry(method));
+    this.queue.forEach((waiter) => entry(waiter.method).queued++);
+
+    return {
+      inflight: this.inflight,
+      queued: this.queue.length,
+      maxInflight: this.options.maxInflight,
+      maxQueue: this.options.maxQueue,
+      admitted: this.admitted,
+      rejected: this.rejected,
+      timedOut: this.timedOut,
+      methods,
+    };
+  }
+
+  private canRun(method: string): boolean {
+    if (this.inflight >= this.options.maxInflight) {
+      return false;
+    }
+    const limit = this.options.methodLimits[method];
+    return limit === undefined || (this.methodInflight.get(method) ?? 0) < limit;
+  }
+
+  private admit(method: string): AdmissionRelease {
+    this.inflight++;
+    this.admitted++;
+    this.methodInflight.set(method, (this.methodInflight.get(method) ?? 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.inflight--;
+      const count = (this.methodInflight.get(method) ?? 1) - 1;
+      if (count > 0) {
+        this.methodInflight.set(method, count);
+      } else {
+        this.methodInflight.delete(method);
+      }
+      this.drain();
+    };
+  }
+
+  /**
+   * Admit queued calls, oldest first, while there is capacity for them
+   */
+  private drain(): void {
+    let i = 0;
+    while (i < this.queue.length && this.inflight < this.options.maxInflight) {
+      const waiter = this.queue[i]!;
+      if (this.canRun(waiter.method)) {
+        waiter.admit(); // Removes the waiter from the queue
+      } else {
+        i++;
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Circuit breaker utility
+ *
+ * Closed: calls pass through and their outcomes are counted over a sliding
+ * window. Once enough calls have been seen and the failure rate reaches the
+ * threshold the breaker opens and calls fail immediately with
+ * CircuitOpenError. After the cooldown it goes half-open and lets a few trial
+ * calls through: a success closes it again, a failure reopens it.
+ */
+
+import { CircuitBreakerStats, CircuitState } from '../types';
+import { CircuitOpenError } from './errors';
+import logger from './logger';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold: number; // Fraction of failed calls (0-1) that opens the breaker
+  minimumRequests: number; // Calls in the window before the failure rate is trusted
+  windowMs: number; // Length of the sliding window
+  cooldownMs: number; // Time spent open before trial calls are allowed
+  halfOpenMaxCalls: number; // Concurrent trial calls while half-open
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumRequests: 10,
+  windowMs: 30000,
+  cooldownMs: 10000,
+  halfOpenMaxCalls: 1,
+};
+
+// The window is kept as a few time buckets so memory does not grow with traffic
+const WINDOW_BUCKETS = 10;
+
+interface Bucket {
+  start: number;
+  successes: number;
+  failures: number;
+}
+
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private buckets: Bucket[] = [];
+  private openedAt: number = 0;
+  private trials: number = 0; // Trial calls in flight while half-open
+  private opens: number = 0;
+
+  constructor(name: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.name = name;
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.retryAfterMs() === 0) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Run an operation through the breaker. Errors for which isFailure returns
+   * false (e.g. the caller gave up) are passed on without being counted.
+   */
+  async execute<T>(
+    operation: () => Promise<T>,
+    isFailure: (error: Error) => boolean = () => true
+  ): Promise<T> {
+    this.acquire();
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error as Error)) {
+        this.onFailure();
+      } else {
+        this.release();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Claim permission for one call; throws CircuitOpenError when calls are refused.
+   * Every successful acquire must be followed by onSuccess, onFailure or release.
+   */
+  acquire(): void {
+    const state = this.getState();
+    if (state === 'open') {
+      throw new CircuitOpenError(this.name, this.retryAfterMs());
+    }
+    if (state === 'half-open') {
+      if (this.trials >= this.options.halfOpenMaxCalls) {
+        throw new CircuitOpenError(this.name, this.options.cooldownMs);
+      }
+      this.trials++;
+    }
+  }
+
+  onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+      this.buckets = [];
+      this.transition('closed');
+      return;
+    }
+    this.currentBucket().successes++;
+  }
+
+  onFailure(): void {
+    if (this.state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+      this.open();
+      return;
+    }
+    if (this.state === 'open') {
+      return;
+    }
+
+    this.currentBucket().failures++;
+    const { successes, failures } = this.totals();
+    const total = successes + failures;
+    if (
+      total >= this.options.minimumRequests &&
+      failures / total >= this.options.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Give back a claimed call without recording an outcome
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+    }
+  }
+
+  getStats(): CircuitBreakerStats {
+    const state = this.getState();
+    const { successes, failures } = this.totals();
+    const total = successes + failures;
+    return {
+      state,
+      failureRate: total === 0 ? 0 : failures / total,
+      successes,
+      failures,
+      opens: this.opens,
+      retryAfterMs: state === 'open' ? this.retryAfterMs() : undefined,
+    };
+  }
+
+  private retryAfterMs(): number {
+    return Math.max(0, this.openedAt + this.options.cooldownMs - Date.now());
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.opens++;
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) {
+      return;
+    }
+    const meta = { breaker: this.name, from: this.state, to: state };
+    this.state = state;
+    if (state === 'open') {
+      logger.warn('Circuit breaker opened', meta);
+    } else {
+      logger.info('Circuit breaker state changed', meta);
+    }
+  }
+
+  private currentBucket(): Bucket {
+    const bucketMs = Math.max(1, Math.floor(this.options.windowMs / WINDOW_BUCKETS));
+    const start = Math.floor(Date.now() / bucketMs) * bucketMs;
+    this.prune();
+
+    let bucket = this.buckets[this.buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, successes: 0, failures: 0 };
+      this.buckets.push(bucket);
+    }
+    return bucket;
+  }
+
+  private totals(): { successes: number; failures: number } {
+    this.prune();
+    return this.buckets.reduce(
+      (sum, bucket) => ({
+        successes: sum.successes + bucket.successes,
+        failures: sum.failures + bucket.failures,
+      }),
+      { successes: 0, failures: 0 }
+    );
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.windowMs;
+    while (this.buckets.length > 0 && this.buckets[0]!.start <= cutoff) {
+      this.buckets.shift();
+    }
+  }
+}
@@ -17,6 +17,124 @@ export class VsocketError extends HostError {
   }
 }
 
+export class EnclaveTimeoutError extends VsocketError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnclaveTimeoutError';
+  }
+}
+
+export class ProtocolError extends VsocketError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export class FrameError extends VsocketError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameError';
+  }
+}
+
+export class HostServiceError extends HostError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HostServiceError';
+  }
+}
+
+export class UnknownTappError extends HostError {
+  constructor(tappId: string) {
+    super(`No enclave serves TAPP ${tappId}`);
+    this.name = 'UnknownTappError';
+  }
+}
+
+export class UnknownAttestationError extends HostError {
+  constructor(attestationId: string) {
+    super(`No tracked attestation ${attestationId}`);
+    this.name = 'UnknownAttestationError';
+  }
+}
+
+/**
+ * Request refused without trying, because the host is shedding load;
+ * clients may retry after retryAfterMs
+ */
+export class ServiceUnavailableError extends HostError {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message);
+    this.name = 'ServiceUnavailableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class CircuitOpenError extends ServiceUnavailableError {
+  constructor(breaker: string, retryAfterMs: number) {
+    super(`Circuit breaker ${breaker} is open`, retryAfterMs);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class QueueFullError extends ServiceUnavailableError {
+  constructor(message: string, retryAfterMs: number) {
+    super(message, retryAfterMs);
+    this.name = 'QueueFullError';
+  }
+}
+
+export class QueueTimeoutError extends ServiceUnavailableError {
+  constructor(message: string, retryAfterMs: number) {
+    super(message, retryAfterMs);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+/**
+ * Enclave response whose signature is missing or does not match the enclave's
+ * attested public key
+ */
+export class SignatureVerificationError extends HostError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureVerificationError';
+  }
+}
+
+/**
+ * Attestation document that is malformed or fails verification
+ */
+export class AttestationError extends HostError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttestationError';
+  }
+}
+
+/**
+ * Enclave whose image measurements are not in its TAPP's allowlist
+ */
+export class MeasurementPolicyError extends AttestationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MeasurementPolicyError';
+  }
+}
+
+/**
+ * Malformed input in a DApp request
+ */
+export class ValidationError extends HostError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
 export class L3Error extends HostError {
   constructor(message: string) {
     super(message);
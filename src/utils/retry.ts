@@ -9,6 +9,7 @@ export interface RetryOptions {
   delayMs: number;
   backoffMultiplier: number;
   onRetry?: (attempt: number, error: Error) => void;
+  signal?: AbortSignal; // Stops further attempts; the last error is thrown
 }
 
 export async function retryWithBackoff<T>(
@@ -23,6 +24,9 @@ export async function retryWithBackoff<T>(
       return await operation();
     } catch (error) {
       lastError = error as Error;
+      if (options.signal?.aborted) {
+        break;
+      }
 
       if (attempt < options.maxAttempts) {
         logger.debug('Operation failed, retrying', {
@@ -36,8 +40,11 @@ export async function retryWithBackoff<T>(
           options.onRetry(attempt, lastError);
         }
 
-        await sleep(delay);
+        await sleep(delay, options.signal);
         delay *= options.backoffMultiplier;
+        if (options.signal?.aborted) {
+          break;
+        }
       }
     }
   }
@@ -45,6 +52,17 @@ export async function retryWithBackoff<T>(
   throw lastError;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Wait for the delay, or until the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
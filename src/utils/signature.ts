@@ -0,0 +1,141 @@
+/**
+ * secp256k1 ECDSA signatures over enclave responses
+ *
+ * The enclave signs the canonical encoding of a response: the JSON text of
+ * {"data":<data>,"id":<request id>} with object keys sorted and no
+ * whitespace, where absent data encodes as null. For a streamed response
+ * the end frame's signature covers the data of every frame, in order, as a
+ * JSON array. The digest is SHA-256.
+ *
+ * Signatures are hex, either 64 bytes of r || s (a trailing recovery byte is
+ * ignored) or DER. Public keys are hex SEC1 points, compressed or not.
+ */
+
+import { createPublicKey, createVerify, KeyObject, Verify } from 'crypto';
+import { HostError } from './errors';
+
+// SubjectPublicKeyInfo prefixes for id-ecPublicKey on secp256k1
+const SPKI_PREFIX_UNCOMPRESSED = Buffer.from(
+  '3056301006072a8648ce3d020106052b8104000a034200',
+  'hex'
+);
+const SPKI_PREFIX_COMPRESSED = Buffer.from('3036301006072a8648ce3d020106052b8104000a032200', 'hex');
+
+/**
+ * JSON text with object keys sorted and no whitespace
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+}
+
+/**
+ * The bytes an enclave signs for a single (not streamed) response
+ */
+export function canonicalResponsePayload(id: string, data: unknown): string {
+  return canonicalJson({ data: data ?? null, id });
+}
+
+/**
+ * Parse a hex secp256k1 public key; throws HostError if it is not one
+ */
+export function parsePublicKey(hex: string): KeyObject {
+  const point = fromHex(hex);
+  let prefix: Buffer | undefined;
+  if (point?.length === 65 && point[0] === 0x04) {
+    prefix = SPKI_PREFIX_UNCOMPRESSED;
+  } else if (point?.length === 33 && (point[0] === 0x02 || point[0] === 0x03)) {
+    prefix = SPKI_PREFIX_COMPRESSED;
+  }
+  if (!point || !prefix) {
+    throw new HostError('Enclave public key is not a secp256k1 point');
+  }
+
+  try {
+    return createPublicKey({ key: Buffer.concat([prefix, point]), format: 'der', type: 'spki' });
+  } catch {
+    throw new HostError('Enclave public key is not a secp256k1 point');
+  }
+}
+
+/**
+ * Check the signature of a single response
+ */
+export function verifyResponseSignature(
+  id: string,
+  data: unknown,
+  signature: string,
+  publicKey: KeyObject
+): boolean {
+  const verifier = createVerify('sha256');
+  verifier.update(canonicalResponsePayload(id, data));
+  return finish(verifier, signature, publicKey);
+}
+
+/**
+ * Incremental check of a streamed response against the keys known when the
+ * stream started, fed with each frame's data as it arrives so the stream does
+ * not have to be buffered
+ */
+export class StreamSignatureVerifier {
+  private readonly id: string;
+  private readonly checks: Array<{ publicKey: KeyObject; verifier: Verify }>;
+  private frames: number = 0;
+
+  constructor(id: string, publicKeys: KeyObject[]) {
+    this.id = id;
+    this.checks = publicKeys.map((publicKey) => ({ publicKey, verifier: createVerify('sha256') }));
+    this.update('{"data":[');
+  }
+
+  addData(data: unknown): void {
+    this.update(`${this.frames > 0 ? ',' : ''}${canonicalJson(data)}`);
+    this.frames++;
+  }
+
+  /**
+   * Whether any of the keys signed the stream; may only be called once
+   */
+  verify(signature: string): boolean {
+    this.update(`],"id":${JSON.stringify(this.id)}}`);
+    return this.checks.some(({ publicKey, verifier }) => finish(verifier, signature, publicKey));
+  }
+
+  private update(text: string): void {
+    this.checks.forEach(({ verifier }) => verifier.update(text));
+  }
+}
+
+function finish(verifier: Verify, signature: string, publicKey: KeyObject): boolean {
+  const bytes = fromHex(signature);
+  if (!bytes) {
+    return false;
+  }
+
+  // Compact r || s, optionally followed by a recovery byte; anything else is DER
+  const compact = bytes.length === 64 || bytes.length === 65;
+  try {
+    return verifier.verify(
+      { key: publicKey, dsaEncoding: compact ? 'ieee-p1363' : 'der' },
+      compact ? bytes.subarray(0, 64) : bytes
+    );
+  } catch {
+    return false;
+  }
+}
+
+function fromHex(hex: string): Buffer | undefined {
+  const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (digits.length === 0 || digits.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(digits)) {
+    return undefined;
+  }
+  return Buffer.from(digits, 'hex');
+}
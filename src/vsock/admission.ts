@@ -0,0 +1,89 @@
+/**
+ * Admission control in front of an enclave SocketClient
+ *
+ * Bounds the number of concurrent enclave calls (overall and per method) so
+ * bursts wait in a short, bounded queue or are refused up front instead of
+ * piling up until they time out. Streamed requests hold their slot until the
+ * stream ends.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  AdmissionStats,
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../types';
+import { AdmissionController, AdmissionOptions } from '../utils/admission';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import { SocketClient, RequestOptions } from './client';
+
+export class AdmissionSocketClient extends EventEmitter implements SocketClient {
+  readonly inner: SocketClient;
+  private readonly admission: AdmissionController;
+
+  constructor(inner: SocketClient, options: Partial<AdmissionOptions> = {}) {
+    super();
+    this.inner = inner;
+    this.admission = new AdmissionController(options);
+    inner.on('connected', () => this.emit('connected'));
+    inner.on('disconnected', () => this.emit('disconnected'));
+    inner.on('reconnecting', (attempt, delayMs) => this.emit('reconnecting', attempt, delayMs));
+    inner.on('replicaConnected', (replica) => this.emit('replicaConnected', replica));
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  async sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse> {
+    const release = await this.admission.acquire(req.method, options?.signal);
+    try {
+      return await this.inner.sendRequest(req, options);
+    } finally {
+      release();
+    }
+  }
+
+  async *streamRequest(
+    req: TeeRequest,
+    options?: RequestOptions
+  ): AsyncIterableIterator<TeeResponse> {
+    const release = await this.admission.acquire(req.method, options?.signal);
+    try {
+      yield* this.inner.streamRequest(req, options);
+    } finally {
+      release();
+    }
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.inner.getConnectionState();
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return this.inner.getProtocolInfo();
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return this.inner.getRejectedFrameStats();
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.inner.setHostServices(services, context);
+  }
+
+  getAdmissionStats(): AdmissionStats {
+    return this.admission.getStats();
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Load balancer across replica enclaves of the same TAPP
+ *
+ * Each replica is a full SocketClient (possibly pooled) for its own enclave.
+ * Requests go to an active, connected replica chosen round-robin or by
+ * fewest requests in flight. Replicas are ejected after repeated transport
+ * errors or a failed health ping, and a periodic probe pings every replica,
+ * reinstating ejected ones once they answer again. A replica whose image is
+ * refused by its measurement allowlist is ejected at once, and the call,
+ * which the allowlist stopped before it reached that enclave, goes to
+ * another replica. Balancer-level connection
+ * events fire when the balancer as a whole gains or loses its last usable
+ * replica; 'replicaConnected' fires whenever a single replica becomes usable
+ * again, since it may be a restarted enclave with a new key or image.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BalancerStats,
+  BalancingStrategy,
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../types';
+import { MeasurementPolicyError, VsocketError } from '../utils/errors';
+import logger from '../utils/logger';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import { SocketClient, RequestOptions } from './client';
+import { MeasurementPolicySocketClient } from './measurements';
+
+export const DEFAULT_REPLICA_PROBE_INTERVAL_MS = 5000;
+export const DEFAULT_REPLICA_EJECT_AFTER_FAILURES = 3;
+
+export interface BalancerOptions {
+  strategy: BalancingStrategy;
+  probeIntervalMs: number;
+  probeTimeoutMs: number;
+  ejectAfterFailures: number; // Consecutive transport errors before a replica is ejected
+}
+
+export interface ReplicaTarget {
+  name: string;
+  client: SocketClient;
+}
+
+interface Replica extends ReplicaTarget {
+  inflight: number;
+  requests: number;
+  failures: number; // Consecutive transport errors and failed pings
+  ejected: boolean;
+  ejections: number;
+  probing: boolean;
+  available: boolean; // As of the last state update
+  lastError?: string;
+}
+
+export class BalancedSocketClient extends EventEmitter implements SocketClient {
+  private readonly replicas: Replica[];
+  private readonly options: BalancerOptions;
+  private cursor: number = 0;
+  private probeTimer?: NodeJS.Timeout;
+  private state: ConnectionState = 'disconnected';
+
+  constructor(targets: ReplicaTarget[], options: BalancerOptions) {
+    super();
+    if (targets.length < 1) {
+      throw new VsocketError('At least one enclave replica is required');
+    }
+    this.options = options;
+    this.replicas = targets.map(({ name, client }) => {
+      const update = () => this.updateState();
+      client.on('connected', update);
+      client.on('disconnected', update);
+      client.on('reconnecting', update);
+      return {
+        name,
+        client,
+        inflight: 0,
+        requests: 0,
+        failures: 0,
+        ejected: false,
+        ejections: 0,
+        probing: false,
+        available: false,
+      };
+    });
+  }
+
+  async connect(): Promise<void> {
+    logger.info('Connecting to enclave replicas', {
+      replicas: this.replicas.map((replica) => replica.name),
+      strategy: this.options.strategy,
+    });
+
+    const results = await Promise.allSettled(
+      this.replicas.map((replica) => replica.client.connect())
+    );
+
+    // Replicas that are down at startup wait for the probe to bring them in
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        this.eject(this.replicas[i]!, (result.reason as Error).message);
+      }
+    });
+    this.updateState();
+
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    if (failed === this.replicas.length) {
+      throw new VsocketError('Failed to connect to any enclave replica');
+    }
+
+    this.probeTimer = setInterval(() => void this.probeAll(), this.options.probeIntervalMs);
+    this.probeTimer.unref();
+
+    logger.info('Enclave replicas ready', {
+      replicas: this.replicas.length,
+      active: this.replicas.length - failed,
+    });
+  }
+
+  async sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse> {
+    for (;;) {
+      const replica = this.checkout();
+      replica.inflight++;
+      replica.requests++;
+
+      try {
+        const response = await replica.client.sendRequest(req, options);
+        replica.failures = 0;
+        return response;
+      } catch (error) {
+        this.recordError(replica, error as Error, options);
+        if (!this.canRetry(error as Error)) {
+          throw error;
+        }
+      } finally {
+        replica.inflight--;
+      }
+    }
+  }
+
+  async *streamRequest(
+    req: TeeRequest,
+    options?: RequestOptions
+  ): AsyncIterableIterator<TeeResponse> {
+    for (;;) {
+      const replica = this.checkout();
+      replica.inflight++;
+      replica.requests++;
+      let started = false;
+
+      try {
+        for await (const frame of replica.client.streamRequest(req, options)) {
+          started = true;
+          yield frame;
+        }
+        replica.failures = 0;
+        return;
+      } catch (error) {
+        this.recordError(replica, error as Error, options);
+        if (started || !this.canRetry(error as Error)) {
+          throw error;
+        }
+      } finally {
+        replica.inflight--;
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+    await Promise.allSettled(this.replicas.map((replica) => replica.client.disconnect()));
+    this.updateState();
+    logger.info('Enclave replicas disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.replicas.some((replica) => this.isAvailable(replica));
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    // Replicas run the same image, so any usable one is representative
+    const replica = this.replicas.find((r) => this.isAvailable(r));
+    return replica?.client.getProtocolInfo();
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    const totals = { oversized: 0, undecodable: 0, malformed: 0 };
+    for (const replica of this.replicas) {
+      const stats = replica.client.getRejectedFrameStats();
+      totals.oversized += stats.oversized;
+      totals.undecodable += stats.undecodable;
+      totals.malformed += stats.malformed;
+    }
+    return totals;
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.replicas.forEach((replica) => replica.client.setHostServices(services, context));
+  }
+
+  getStats(): BalancerStats {
+    return {
+      strategy: this.options.strategy,
+      active: this.replicas.filter((replica) => this.isAvailable(replica)).length,
+      replicas: this.replicas.map((replica) => ({
+        name: replica.name,
+        state: replica.ejected ? 'ejected' : 'active',
+        connectionState: replica.client.getConnectionState(),
+        inflight: replica.inflight,
+        requests: replica.requests,
+        failures: replica.failures,
+        ejections: replica.ejections,
+        measurements:
+          replica.client instanceof MeasurementPolicySocketClient
+            ? replica.client.getPolicyStatus().verdict
+            : undefined,
+        lastError: replica.lastError,
+      })),
+    };
+  }
+
+  /**
+   * Ping every replica; ejects active ones that fail and reinstates ejected ones that answer
+   */
+  async probeAll(): Promise<void> {
+    await Promise.all(this.replicas.map((replica) => this.probe(replica)));
+  }
+
+  private isAvailable(replica: Replica): boolean {
+    return !replica.ejected && replica.client.isConnected();
+  }
+
+  /**
+   * Derive the balancer state from its replicas and emit on transitions
+   */
+  private updateState(): void {
+    const previous = this.state;
+    const states = this.replicas.map((replica) => replica.client.getConnectionState());
+
+    if (this.replicas.some((replica) => this.isAvailable(replica))) {
+      this.state = 'connected';
+    } else if (this.probeTimer && this.replicas.length > 0) {
+      // The probe keeps trying to bring a replica back
+      this.state = 'reconnecting';
+    } else if (states.includes('connecting')) {
+      this.state = 'connecting';
+    } else {
+      this.state = 'disconnected';
+    }
+
+    if (this.state !== previous) {
+      if (this.state === 'connected') {
+        this.emit('connected');
+      } else {
+        // Layers above drop per-enclave state when the last usable replica is lost
+        if (previous === 'connected') {
+          this.emit('disconnected');
+        }
+        if (this.state === 'reconnecting') {
+          this.emit('reconnecting', 1, this.options.probeIntervalMs);
+        }
+      }
+    }
+
+    for (const replica of this.replicas) {
+      const available = this.isAvailable(replica);
+      if (available && !replica.available) {
+        replica.available = true;
+        this.emit('replicaConnected', replica.name);
+      } else if (!available) {
+        replica.available = false;
+      }
+    }
+  }
+
+  /**
+   * Pick the next usable replica according to the balancing strategy
+   */
+  private checkout(): Replica {
+    const count = this.replicas.length;
+    let selected: Replica | undefined;
+    let selectedOffset = 0;
+
+    // Scan in round-robin order from the cursor so ties rotate between replicas
+    for (let offset = 0; offset < count; offset++) {
+      const replica = this.replicas[(this.cursor + offset) % count]!;
+      if (!this.isAvailable(replica)) {
+        continue;
+      }
+      if (this.options.strategy === 'round-robin') {
+        selected = replica;
+        selectedOffset = offset;
+        break;
+      }
+      if (!selected || replica.inflight < selected.inflight) {
+        selected = replica;
+        selectedOffset = offset;
+      }
+    }
+
+    if (!selected) {
+      throw new VsocketError('No healthy enclave replica available');
+    }
+
+    this.cursor = (this.cursor + selectedOffset + 1) % count;
+    return selected;
+  }
+
+  /**
+   * Whether a failed call can go to another replica: only when the replica's
+   * allowlist refused it, and another replica is left to take it
+   */
+  private canRetry(error: Error): boolean {
+    return error instanceof MeasurementPolicyError && this.isConnected();
+  }
+
+  /**
+   * Count transport errors against a replica, and eject it outright when its
+   * image is refused; requests abandoned by the caller do not count
+   */
+  private recordError(replica: Replica, error: Error, options?: RequestOptions): void {
+    if (error instanceof MeasurementPolicyError) {
+      this.eject(replica, error.message);
+      return;
+    }
+    if (!(error instanceof VsocketError) || options?.signal?.aborted) {
+      return;
+    }
+    replica.failures++;
+    replica.lastError = error.message;
+    if (!replica.ejected && replica.failures >= this.options.ejectAfterFailures) {
+      this.eject(replica, error.message);
+    }
+  }
+
+  private eject(replica: Replica, reason: string): void {
+    replica.lastError = reason;
+    if (replica.ejected) {
+      return;
+    }
+    replica.ejected = true;
+    replica.ejections++;
+    logger.warn('Ejecting enclave replica', { replica: replica.name, reason });
+    this.updateState();
+  }
+
+  private reinstate(replica: Replica): void {
+    replica.ejected = false;
+    replica.failures = 0;
+    logger.info('Reinstating enclave replica', { replica: replica.name });
+    this.updateState();
+  }
+
+  /**
+   * Health-ping one replica, reconnecting it first if it has given up
+   */
+  private async probe(replica: Replica): Promise<void> {
+    if (replica.probing) {
+      return;
+    }
+    // Replicas still reconnecting on their own are left to their supervisor
+    const state = replica.client.getConnectionState();
+    if (!replica.ejected && state !== 'connected') {
+      return;
+    }
+    replica.probing = true;
+
+    try {
+      if (state === 'disconnected') {
+        await replica.client.connect();
+      }
+      if (replica.client.getConnectionState() !== 'connected') {
+        return;
+      }
+      const response = await replica.client.sendRequest(
+        { id: uuidv4(), method: 'ping', params: {}, timestamp: Date.now() },
+        { timeoutMs: this.options.probeTimeoutMs }
+      );
+      if (!response.success) {
+        throw new VsocketError(`Health ping failed: ${response.error ?? 'unknown error'}`);
+      }
+      if (replica.ejected) {
+        this.reinstate(replica);
+      }
+    } catch (error) {
+      replica.failures++;
+      this.eject(replica, (error as Error).message);
+    } finally {
+      replica.probing = false;
+    }
+  }
+}
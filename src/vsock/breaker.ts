@@ -0,0 +1,108 @@
+/**
+ * Circuit breaker in front of an enclave SocketClient
+ *
+ * Transport failures (timeouts, dropped connections, unusable frames) count
+ * against the breaker; enclave responses with success: false and requests
+ * abandoned by the caller do not. While the breaker is open, requests fail
+ * immediately with CircuitOpenError instead of queueing behind a wedged
+ * enclave.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  CircuitBreakerStats,
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../types';
+import { CircuitBreaker, CircuitBreakerOptions } from '../utils/circuit-breaker';
+import { VsocketError } from '../utils/errors';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import { SocketClient, RequestOptions } from './client';
+
+export class CircuitBreakerSocketClient extends EventEmitter implements SocketClient {
+  readonly inner: SocketClient;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(inner: SocketClient, options: Partial<CircuitBreakerOptions> = {}) {
+    super();
+    this.inner = inner;
+    this.breaker = new CircuitBreaker('enclave', options);
+    inner.on('connected', () => this.emit('connected'));
+    inner.on('disconnected', () => this.emit('disconnected'));
+    inner.on('reconnecting', (attempt, delayMs) => this.emit('reconnecting', attempt, delayMs));
+    inner.on('replicaConnected', (replica) => this.emit('replicaConnected', replica));
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse> {
+    return this.breaker.execute(
+      () => this.inner.sendRequest(req, options),
+      (error) => isTransportFailure(error, options)
+    );
+  }
+
+  async *streamRequest(
+    req: TeeRequest,
+    options?: RequestOptions
+  ): AsyncIterableIterator<TeeResponse> {
+    this.breaker.acquire();
+    let settled = false;
+
+    try {
+      yield* this.inner.streamRequest(req, options);
+      this.breaker.onSuccess();
+      settled = true;
+    } catch (error) {
+      if (isTransportFailure(error as Error, options)) {
+        this.breaker.onFailure();
+      } else {
+        this.breaker.release();
+      }
+      settled = true;
+      throw error;
+    } finally {
+      // Consumer stopped reading early
+      if (!settled) {
+        this.breaker.release();
+      }
+    }
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.inner.getConnectionState();
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return this.inner.getProtocolInfo();
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return this.inner.getRejectedFrameStats();
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.inner.setHostServices(services, context);
+  }
+
+  getBreakerStats(): CircuitBreakerStats {
+    return this.breaker.getStats();
+  }
+}
+
+function isTransportFailure(error: Error, options?: RequestOptions): boolean {
+  return error instanceof VsocketError && !options?.signal?.aborted;
+}
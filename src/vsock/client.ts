@@ -1,206 +1,152 @@
 /**
- * Socket client interface and Unix socket implementation for Mac
+ * Socket client interface and its vsock, Unix socket and TCP implementations
  */
 
 import * as net from 'net';
-import { TeeRequest, TeeResponse, VsockConfig } from '../types';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+  VsockConfig,
+} from '../types';
 import { VsocketError } from '../utils/errors';
-import { retryWithBackoff } from '../utils/retry';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
 import logger from '../utils/logger';
+import { FramedSocketClient } from './framed';
+
+export const DEFAULT_SOCKET_PATH = '/tmp/enclave.sock';
+
+export interface RequestOptions {
+  timeoutMs?: number; // Overrides the configured deadline for this call
+  signal?: AbortSignal; // Abandons the call when aborted (e.g. HTTP client went away)
+}
 
 export interface SocketClient {
   connect(): Promise<void>;
-  sendRequest(req: TeeRequest): Promise<TeeResponse>;
+  sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse>;
+  // Yields every frame of a streamed response; the last one has stream 'end'
+  // (or no stream marker when the enclave answered with a single response)
+  streamRequest(req: TeeRequest, options?: RequestOptions): AsyncIterableIterator<TeeResponse>;
   disconnect(): Promise<void>;
   isConnected(): boolean;
+  getConnectionState(): ConnectionState;
+  getProtocolInfo(): ProtocolInfo | undefined;
+  getRejectedFrameStats(): RejectedFrameStats;
+  // Serve enclave-initiated requests from this registry
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void;
+  on(event: 'connected' | 'disconnected', listener: () => void): this;
+  on(event: 'reconnecting', listener: (attempt: number, delayMs: number) => void): this;
+  // A replica behind a balancer became usable again (connected or reinstated)
+  on(event: 'replicaConnected', listener: (replica: string) => void): this;
+  off(event: 'connected' | 'disconnected', listener: () => void): this;
+  off(event: 'reconnecting', listener: (attempt: number, delayMs: number) => void): this;
+  off(event: 'replicaConnected', listener: (replica: string) => void): this;
 }
 
 /**
- * Unix socket client for Mac development
- * Uses Unix domain sockets instead of vsocket
+ * Client for stream sockets provided by Node's net module (Unix domain or TCP)
  */
-export class UnixSocketClient implements SocketClient {
+abstract class NetSocketClient extends FramedSocketClient {
   private socket?: net.Socket;
-  private connected: boolean = false;
-  private readonly socketPath: string;
-  private readonly config: VsockConfig;
-
-  constructor(config: VsockConfig, socketPath: string = '/tmp/enclave.sock') {
-    this.config = config;
-    this.socketPath = socketPath;
-  }
-
-  async connect(): Promise<void> {
-    logger.info('Connecting to enclave via Unix socket', {
-      socketPath: this.socketPath,
+  private readonly connectOptions: net.NetConnectOpts;
+  private readonly transportName: string;
+
+  protected constructor(
+    config: VsockConfig,
+    connectOptions: net.NetConnectOpts,
+    transportName: string
+  ) {
+    super(config);
+    this.connectOptions = connectOptions;
+    this.transportName = transportName;
+  }
+
+  protected async open(): Promise<void> {
+    logger.info(`Connecting to enclave via ${this.transportName}`, {
+      ...this.connectOptions,
     });
 
-    return retryWithBackoff(
-      async () => {
-        return new Promise((resolve, reject) => {
-          this.socket = net.connect(this.socketPath);
-
-          this.socket.on('connect', () => {
-            this.connected = true;
-            logger.info('Connected to enclave');
-            resolve();
-          });
-
-          this.socket.on('error', (error) => {
-            this.connected = false;
-            reject(new VsocketError(`Connection failed: ${error.message}`));
-          });
-
-          this.socket.on('close', () => {
-            this.connected = false;
-            logger.warn('Connection to enclave closed');
-          });
-
-          // Timeout
-          setTimeout(() => {
-            if (!this.connected) {
-              this.socket?.destroy();
-              reject(new VsocketError('Connection timeout'));
-            }
-          }, this.config.timeoutMs);
-        });
-      },
-      {
-        maxAttempts: this.config.retryAttempts,
-        delayMs: this.config.retryDelayMs,
-        backoffMultiplier: 2,
-        onRetry: (attempt, error) => {
-          logger.warn('Connection retry', { attempt, error: error.message });
-        },
-      }
-    );
-  }
-
-  async sendRequest(req: TeeRequest): Promise<TeeResponse> {
-    if (!this.connected || !this.socket) {
-      throw new VsocketError('Not connected to enclave');
-    }
-
-    logger.debug('Sending request to enclave', { id: req.id, method: req.method });
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(this.connectOptions);
+      this.socket = socket;
+
+      // Timeout
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new VsocketError('Connection timeout'));
+      }, this.config.timeoutMs);
+
+      socket.on('connect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
 
-    // Write request
-    await this.writeMessage(req);
+      socket.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new VsocketError(`Connection failed: ${error.message}`));
+      });
 
-    // Read response
-    const response = await this.readMessage();
+      socket.on('close', () => {
+        // Ignore sockets replaced by a later connection attempt
+        if (socket === this.socket) {
+          this.handleClose();
+        }
+      });
 
-    logger.debug('Received response from enclave', {
-      id: response.id,
-      success: response.success,
+      socket.on('data', (chunk: Buffer) => {
+        this.handleData(chunk);
+      });
     });
-
-    return response;
   }
 
-  async disconnect(): Promise<void> {
-    if (this.socket) {
-      this.socket.end();
-      this.connected = false;
-      logger.info('Disconnected from enclave');
-    }
+  protected close(): void {
+    this.socket?.end();
   }
 
-  isConnected(): boolean {
-    return this.connected;
+  protected destroy(): void {
+    this.socket?.destroy();
   }
 
   /**
-   * Write length-prefixed message to socket
-   * Format: [4 bytes: length (big-endian)][N bytes: JSON]
+   * Write length-prefixed frame to socket
    */
-  private async writeMessage(msg: TeeRequest): Promise<void> {
-    if (!this.socket) {
-      throw new VsocketError('Socket not available');
-    }
-
-    // Serialize to JSON
-    const json = JSON.stringify(msg);
-    const jsonBuffer = Buffer.from(json, 'utf-8');
-
-    // Create length buffer (4 bytes, big-endian)
-    const lengthBuffer = Buffer.allocUnsafe(4);
-    lengthBuffer.writeUInt32BE(jsonBuffer.length, 0);
-
-    // Write length then JSON
+  protected async writeFrame(frame: Buffer): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
         reject(new VsocketError('Socket not available'));
         return;
       }
 
-      this.socket.write(lengthBuffer, (err) => {
+      this.socket.write(frame, (err) => {
         if (err) {
           reject(new VsocketError(`Write failed: ${err.message}`));
-          return;
+        } else {
+          resolve();
         }
-
-        this.socket!.write(jsonBuffer, (err) => {
-          if (err) {
-            reject(new VsocketError(`Write failed: ${err.message}`));
-          } else {
-            resolve();
-          }
-        });
       });
     });
   }
+}
 
-  /**
-   * Read length-prefixed message from socket
-   * Format: [4 bytes: length (big-endian)][N bytes: JSON]
-   */
-  private async readMessage(): Promise<TeeResponse> {
-    if (!this.socket) {
-      throw new VsocketError('Socket not available');
-    }
-
-    // Read 4-byte length
-    const lengthBuffer = await this.readExactly(4);
-    const length = lengthBuffer.readUInt32BE(0);
-
-    logger.debug('Reading message', { length });
-
-    // Read N bytes
-    const dataBuffer = await this.readExactly(length);
-
-    // Parse JSON
-    try {
-      return JSON.parse(dataBuffer.toString('utf-8')) as TeeResponse;
-    } catch (error) {
-      throw new VsocketError(`JSON parse failed: ${(error as Error).message}`);
-    }
+/**
+ * Unix socket client for Mac development
+ * Uses Unix domain sockets instead of vsocket
+ */
+export class UnixSocketClient extends NetSocketClient {
+  constructor(config: VsockConfig, socketPath: string = DEFAULT_SOCKET_PATH) {
+    super(config, { path: socketPath }, 'Unix socket');
   }
+}
 
-  /**
-   * Read exactly N bytes from socket
-   */
-  private async readExactly(bytes: number): Promise<Buffer> {
-    if (!this.socket) {
-      throw new VsocketError('Socket not available');
-    }
-
-    const buffer = Buffer.allocUnsafe(bytes);
-    let offset = 0;
-
-    while (offset < bytes) {
-      const chunk = this.socket.read(bytes - offset) as Buffer | null;
-
-      if (chunk === null) {
-        // Wait for readable event
-        await new Promise((resolve) => this.socket!.once('readable', resolve));
-        continue;
-      }
-
-      chunk.copy(buffer, offset);
-      offset += chunk.length;
-    }
-
-    return buffer;
+/**
+ * TCP client for enclaves reachable over the network
+ * (e.g. the mock enclave running in another docker-compose container)
+ */
+export class TcpSocketClient extends NetSocketClient {
+  constructor(config: VsockConfig, host: string, port: number = config.port) {
+    super(config, { host, port }, 'TCP');
   }
 }
 
@@ -208,19 +154,12 @@ export class UnixSocketClient implements SocketClient {
  * Vsocket client for Linux (AWS Nitro Enclaves)
  * Uses vsock to communicate with real Nitro enclave
  */
-export class VsocketClient implements SocketClient {
+export class VsocketClient extends FramedSocketClient {
   private socket?: any;
-  private connected: boolean = false;
-  private readonly config: VsockConfig;
   private vsock: any;
-  private dataBuffer: Buffer = Buffer.alloc(0);
-  private pendingResponse?: {
-    resolve: (response: TeeResponse) => void;
-    reject: (error: Error) => void;
-  };
 
   constructor(config: VsockConfig) {
-    this.config = config;
+    super(config);
     try {
       this.vsock = require('node-vsock');
     } catch (error) {
@@ -228,197 +167,79 @@ export class VsocketClient implements SocketClient {
     }
   }
 
-  async connect(): Promise<void> {
+  protected async open(): Promise<void> {
     logger.info('Connecting to enclave via vsock', {
       cid: this.config.cid,
       port: this.config.port,
     });
 
-    return retryWithBackoff(
-      async () => {
-        return new Promise((resolve, reject) => {
-          try {
-            this.socket = new this.vsock.VsockSocket();
-
-            this.socket.on('connect', () => {
-              this.connected = true;
-              logger.info('Connected to enclave via vsock');
-              resolve();
-            });
-
-            this.socket.on('error', (error: Error) => {
-              this.connected = false;
-              reject(new VsocketError(`Connection failed: ${error.message}`));
-            });
-
-            this.socket.on('close', () => {
-              this.connected = false;
-              logger.warn('Connection to enclave closed');
-            });
-
-            this.socket.on('data', (chunk: Buffer) => {
-              this.handleData(chunk);
-            });
-
-            // Connect to enclave (cid, port, callback)
-            this.socket.connect(this.config.cid, this.config.port, () => {
-              // Connection success handled by 'connect' event
-            });
-
-            // Timeout
-            setTimeout(() => {
-              if (!this.connected) {
-                this.socket?.destroy();
-                reject(new VsocketError('Connection timeout'));
-              }
-            }, this.config.timeoutMs);
-          } catch (error) {
-            reject(new VsocketError(`Failed to create vsock: ${(error as Error).message}`));
-          }
+    return new Promise((resolve, reject) => {
+      try {
+        const socket = new this.vsock.VsockSocket();
+        this.socket = socket;
+
+        // Timeout
+        const timer = setTimeout(() => {
+          socket.destroy();
+          reject(new VsocketError('Connection timeout'));
+        }, this.config.timeoutMs);
+
+        socket.on('connect', () => {
+          clearTimeout(timer);
+          resolve();
         });
-      },
-      {
-        maxAttempts: this.config.retryAttempts,
-        delayMs: this.config.retryDelayMs,
-        backoffMultiplier: 2,
-        onRetry: (attempt, error) => {
-          logger.warn('Connection retry', { attempt, error: error.message });
-        },
-      }
-    );
-  }
-
-  async sendRequest(req: TeeRequest): Promise<TeeResponse> {
-    // Auto-reconnect if disconnected
-    if (!this.connected || !this.socket) {
-      logger.warn('Vsock disconnected, attempting to reconnect');
-      await this.connect();
-    }
 
-    logger.debug('Sending request to enclave', { id: req.id, method: req.method });
-
-    try {
-      // Write request
-      await this.writeMessage(req);
+        socket.on('error', (error: Error) => {
+          clearTimeout(timer);
+          reject(new VsocketError(`Connection failed: ${error.message}`));
+        });
 
-      // Read response
-      const response = await this.readMessage();
+        socket.on('close', () => {
+          // Ignore sockets replaced by a later connection attempt
+          if (socket === this.socket) {
+            this.handleClose();
+          }
+        });
 
-      logger.debug('Received response from enclave', {
-        id: response.id,
-        success: response.success,
-      });
+        socket.on('data', (chunk: Buffer) => {
+          this.handleData(chunk);
+        });
 
-      return response;
-    } catch (error) {
-      // If write fails, try to reconnect once and retry
-      logger.warn('Request failed, reconnecting and retrying', { error: (error as Error).message });
-      this.connected = false;
-      if (this.socket) {
-        try {
-          this.socket.destroy();
-        } catch (e) {
-          // Ignore destroy errors
-        }
-        this.socket = undefined;
+        // Connect to enclave (cid, port, callback)
+        socket.connect(this.config.cid, this.config.port, () => {
+          // Connection success handled by 'connect' event
+        });
+      } catch (error) {
+        reject(new VsocketError(`Failed to create vsock: ${(error as Error).message}`));
       }
-      await this.connect();
-
-      // Retry once
-      await this.writeMessage(req);
-      return await this.readMessage();
-    }
+    });
   }
 
-  async disconnect(): Promise<void> {
-    if (this.socket) {
-      this.socket.end();
-      this.connected = false;
-      logger.info('Disconnected from enclave');
-    }
+  protected close(): void {
+    this.socket?.end();
   }
 
-  isConnected(): boolean {
-    return this.connected;
+  protected destroy(): void {
+    try {
+      this.socket?.destroy();
+    } catch (e) {
+      // Ignore destroy errors
+    }
   }
 
   /**
-   * Write length-prefixed message to socket
-   * Format: [4 bytes: length (big-endian)][N bytes: JSON]
+   * Write length-prefixed frame to socket
    */
-  private async writeMessage(msg: TeeRequest): Promise<void> {
+  protected async writeFrame(frame: Buffer): Promise<void> {
     if (!this.socket) {
       throw new VsocketError('Socket not available');
     }
 
-    // Serialize to JSON
-    const json = JSON.stringify(msg);
-    const jsonBuffer = Buffer.from(json, 'utf-8');
-
-    // Create length buffer (4 bytes, big-endian)
-    const lengthBuffer = Buffer.allocUnsafe(4);
-    lengthBuffer.writeUInt32BE(jsonBuffer.length, 0);
-
-    // Combine length and data into single buffer
-    const combined = Buffer.concat([lengthBuffer, jsonBuffer]);
-
     // Write using node-vsock API (synchronous)
     try {
-      this.socket.writeSync(combined);
+      this.socket.writeSync(frame);
     } catch (error) {
       throw new VsocketError(`Write failed: ${(error as Error).message}`);
     }
   }
-
-  /**
-   * Read length-prefixed message from socket
-   * Format: [4 bytes: length (big-endian)][N bytes: JSON]
-   */
-  private async readMessage(): Promise<TeeResponse> {
-    return new Promise((resolve, reject) => {
-      this.pendingResponse = { resolve, reject };
-      // Data will be handled by handleData method
-    });
-  }
-
-  /**
-   * Handle incoming data from vsock
-   * Implements length-prefixed protocol: [4 bytes: length][N bytes: JSON]
-   */
-  private handleData(chunk: Buffer): void {
-    // Append to buffer
-    this.dataBuffer = Buffer.concat([this.dataBuffer, chunk]);
-
-    // Try to parse complete message
-    while (this.dataBuffer.length >= 4) {
-      // Read length
-      const length = this.dataBuffer.readUInt32BE(0);
-
-      // Check if we have complete message
-      if (this.dataBuffer.length >= 4 + length) {
-        // Extract message
-        const messageBuffer = this.dataBuffer.slice(4, 4 + length);
-
-        // Remove processed data from buffer
-        this.dataBuffer = this.dataBuffer.slice(4 + length);
-
-        // Parse JSON
-        try {
-          const response = JSON.parse(messageBuffer.toString('utf-8')) as TeeResponse;
-          if (this.pendingResponse) {
-            this.pendingResponse.resolve(response);
-            this.pendingResponse = undefined;
-          }
-        } catch (error) {
-          if (this.pendingResponse) {
-            this.pendingResponse.reject(new VsocketError(`JSON parse failed: ${(error as Error).message}`));
-            this.pendingResponse = undefined;
-          }
-        }
-      } else {
-        // Not enough data yet, wait for more
-        break;
-      }
-    }
-  }
 }
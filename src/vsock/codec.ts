@@ -0,0 +1,126 @@
+/**
+ * Payload codecs for the enclave wire protocol
+ *
+ * A codec turns a TeeRequest/TeeResponse into the bytes carried inside one
+ * length-prefixed frame and back. JSON is always used for the handshake; the
+ * encoding agreed there applies to every later frame on the connection.
+ * Binary codecs carry Buffer values as native byte strings instead of base64.
+ */
+
+import { decode as decodeMsgpack, encode as encodeMsgpack } from '@msgpack/msgpack';
+import { Encoder as CborEncoder } from 'cbor-x';
+import { WireEncoding } from '../types';
+
+export interface Codec {
+  readonly name: WireEncoding;
+  encode(message: unknown): Buffer;
+  decode(payload: Buffer): unknown;
+}
+
+export const jsonCodec: Codec = {
+  name: 'json',
+  encode: (message) => Buffer.from(JSON.stringify(message), 'utf-8'),
+  decode: (payload) => JSON.parse(payload.toString('utf-8')) as unknown,
+};
+
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  encode: (message) => toBuffer(encodeMsgpack(message, { ignoreUndefined: true })),
+  decode: (payload) => decodeMsgpack(payload),
+};
+
+// Plain CBOR maps only: record extensions and shared structures are cbor-x
+// specific and would not decode in other languages
+const cbor = new CborEncoder({
+  useRecords: false,
+  mapsAsObjects: true,
+  variableMapSize: true,
+  tagUint8Array: false,
+});
+
+export const cborCodec: Codec = {
+  name: 'cbor',
+  encode: (message) => cbor.encode(toCbor(message)),
+  decode: (payload) => fromCbor(cbor.decode(payload)),
+};
+
+const CODECS: Record<WireEncoding, Codec> = {
+  json: jsonCodec,
+  msgpack: msgpackCodec,
+  cbor: cborCodec,
+};
+
+/**
+ * Encodings the host can speak, most compact first
+ */
+export const SUPPORTED_ENCODINGS: WireEncoding[] = ['cbor', 'msgpack', 'json'];
+
+export function isWireEncoding(name: string): name is WireEncoding {
+  return Object.prototype.hasOwnProperty.call(CODECS, name);
+}
+
+export function getCodec(encoding: WireEncoding): Codec {
+  return CODECS[encoding];
+}
+
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Drop undefined object properties, matching what JSON and MessagePack emit,
+ * and pass integers wider than 32 bits as bigints so they are written as CBOR
+ * integers rather than float64
+ */
+function toCbor(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return isWideInteger(value) ? BigInt(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCbor);
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Uint8Array) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined) {
+      result[key] = toCbor(entry);
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether an integer needs the 64-bit CBOR form (major types 0 and 1 reach
+ * 0xffffffff and -0x100000000 in 32 bits)
+ */
+function isWideInteger(value: number): boolean {
+  return Number.isSafeInteger(value) && (value > 0xffffffff || value < -0x100000000);
+}
+
+/**
+ * Turn the bigints cbor-x decodes 64-bit integers into back into numbers, so
+ * messages look the same whichever codec carried them
+ */
+function fromCbor(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+      throw new Error(`CBOR integer out of safe range: ${value}`);
+    }
+    return Number(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromCbor);
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Uint8Array) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = fromCbor(entry);
+  }
+  return result;
+}
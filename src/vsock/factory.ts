@@ -0,0 +1,127 @@
+/**
+ * Socket client factory
+ * Selects the enclave transport from config so the same build runs on Nitro,
+ * on dev laptops and in docker-compose
+ */
+
+import * as fs from 'fs';
+import { EnclaveTransport, VsockConfig } from '../types';
+import { ConfigError } from '../utils/errors';
+import logger from '../utils/logger';
+import {
+  SocketClient,
+  UnixSocketClient,
+  TcpSocketClient,
+  VsocketClient,
+  DEFAULT_SOCKET_PATH,
+} from './client';
+import { PooledSocketClient } from './pool';
+import {
+  BalancedSocketClient,
+  DEFAULT_REPLICA_EJECT_AFTER_FAILURES,
+  DEFAULT_REPLICA_PROBE_INTERVAL_MS,
+} from './balancer';
+import { DEFAULT_KEEPALIVE_TIMEOUT_MS } from './supervisor';
+
+const VSOCK_DEVICE = '/dev/vsock';
+
+/**
+ * Resolve 'auto' to a concrete transport
+ * Explicit socketPath or host wins; otherwise vsock when the device exists (Nitro parent
+ * instance), falling back to the default Unix socket for local development
+ */
+export function resolveTransport(config: VsockConfig): Exclude<EnclaveTransport, 'auto'> {
+  const transport = config.transport ?? 'auto';
+  if (transport !== 'auto') {
+    return transport;
+  }
+
+  if (config.socketPath) {
+    return 'unix';
+  }
+  if (config.host) {
+    return 'tcp';
+  }
+  if (process.platform === 'linux' && fs.existsSync(VSOCK_DEVICE)) {
+    return 'vsock';
+  }
+  return 'unix';
+}
+
+/**
+ * Create a single (unpooled) connection for the configured transport
+ */
+function createConnection(config: VsockConfig): SocketClient {
+  const transport = resolveTransport(config);
+
+  switch (transport) {
+    case 'vsock':
+      return new VsocketClient(config);
+    case 'unix':
+      return new UnixSocketClient(config, config.socketPath ?? DEFAULT_SOCKET_PATH);
+    case 'tcp':
+      if (!config.host) {
+        throw new ConfigError('vsock.host is required for the tcp transport');
+      }
+      return new TcpSocketClient(config, config.host, config.port);
+  }
+}
+
+/**
+ * Wraps the client of one enclave instance, for checks that hold per enclave
+ */
+export type EnclaveClientWrapper = (client: SocketClient) => SocketClient;
+
+/**
+ * Create the socket client described by config, pooled when poolSize > 1 and
+ * balanced across replicas when replicas are listed. `wrap` is applied to the
+ * client of each replica rather than to the balancer.
+ */
+export function createSocketClient(
+  config: VsockConfig,
+  wrap: EnclaveClientWrapper = (client) => client
+): SocketClient {
+  if (config.replicas?.length) {
+    return createBalancedClient(config, wrap);
+  }
+
+  const poolSize = config.poolSize ?? 1;
+
+  logger.info('Creating enclave socket client', {
+    transport: resolveTransport(config),
+    poolSize,
+  });
+
+  if (poolSize > 1) {
+    return wrap(
+      new PooledSocketClient(() => createConnection(config), {
+        size: poolSize,
+        replaceDelayMs: config.retryDelayMs,
+      })
+    );
+  }
+
+  return wrap(createConnection(config));
+}
+
+/**
+ * One client per replica, each inheriting unset fields from the shared config
+ */
+function createBalancedClient(
+  config: VsockConfig,
+  wrap: EnclaveClientWrapper
+): BalancedSocketClient {
+  const { replicas = [], ...shared } = config;
+
+  const targets = replicas.map(({ name, ...endpoint }, index) => ({
+    name: name ?? `replica-${index}`,
+    client: createSocketClient({ ...shared, ...endpoint }, wrap),
+  }));
+
+  return new BalancedSocketClient(targets, {
+    strategy: config.balancing ?? 'least-inflight',
+    probeIntervalMs: config.replicaProbeIntervalMs ?? DEFAULT_REPLICA_PROBE_INTERVAL_MS,
+    probeTimeoutMs: config.keepaliveTimeoutMs ?? DEFAULT_KEEPALIVE_TIMEOUT_MS,
+    ejectAfterFailures: config.replicaEjectAfterFailures ?? DEFAULT_REPLICA_EJECT_AFTER_FAILURES,
+  });
+}
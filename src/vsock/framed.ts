@@ -0,0 +1,552 @@
+/**
+ * Base class for socket clients speaking the length-prefixed enclave protocol
+ *
+ * Keeps a map of in-flight requests keyed by TeeRequest.id so several callers
+ * can share one enclave connection; each incoming TeeResponse is dispatched to
+ * the caller waiting on the same id (streamed responses deliver several frames
+ * per id until an end marker). Requests initiated by the enclave are served
+ * from a HostServiceRegistry. Every new connection starts with a JSON
+ * protocol handshake that selects the codec for later frames, and lost
+ * connections are re-established by a ReconnectSupervisor until disconnect()
+ * is called.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+  VsockConfig,
+} from '../types';
+import { VsocketError, EnclaveTimeoutError, FrameError } from '../utils/errors';
+import { retryWithBackoff } from '../utils/retry';
+import logger from '../utils/logger';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import type { SocketClient, RequestOptions } from './client';
+import { Codec, getCodec, jsonCodec } from './codec';
+import { FrameDecoder, encodeFrame, DEFAULT_MAX_FRAME_BYTES } from './framing';
+import { ResponseStream } from './stream';
+import {
+  createHelloRequest,
+  isTeeRequest,
+  isTeeResponse,
+  negotiateProtocol,
+  offeredEncodings,
+} from './protocol';
+import {
+  ReconnectSupervisor,
+  DEFAULT_KEEPALIVE_INTERVAL_MS,
+  DEFAULT_KEEPALIVE_TIMEOUT_MS,
+  DEFAULT_RECONNECT_MAX_DELAY_MS,
+} from './supervisor';
+
+/**
+ * Deadline applied when neither the caller nor the config specifies one
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+interface PendingRequest {
+  method: string;
+  resolve: (response: TeeResponse) => void; // Final (or only) frame
+  reject: (error: Error) => void;
+  onChunk?: (frame: TeeResponse) => void; // Intermediate frames of a streamed response
+  cleanup: () => void;
+}
+
+export abstract class FramedSocketClient extends EventEmitter implements SocketClient {
+  protected connected: boolean = false;
+  protected readonly config: VsockConfig;
+  private state: ConnectionState = 'disconnected';
+  private transportOpen: boolean = false;
+  private protocol?: ProtocolInfo;
+  private codec: Codec = jsonCodec;
+  private connectionId: number = 0; // Increments on every new transport connection
+  private hostServices?: { services: HostServiceRegistry; context: HostServiceContext };
+  private readonly inflight = new Map<string, PendingRequest>();
+  private readonly decoder: FrameDecoder;
+  private readonly maxFrameBytes: number;
+  private readonly rejectedFrames: RejectedFrameStats = {
+    oversized: 0,
+    undecodable: 0,
+    malformed: 0,
+  };
+  private readonly supervisor: ReconnectSupervisor;
+
+  protected constructor(config: VsockConfig) {
+    super();
+    this.config = config;
+    this.maxFrameBytes = config.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES;
+    this.decoder = new FrameDecoder(this.maxFrameBytes);
+    this.supervisor = new ReconnectSupervisor(
+      {
+        ping: (timeoutMs) => this.ping(timeoutMs),
+        reopen: () => this.reopen(),
+        terminate: (reason) => this.terminate(reason),
+        onReconnectScheduled: (attempt, delayMs) => this.onReconnectScheduled(attempt, delayMs),
+      },
+      {
+        keepaliveIntervalMs: config.keepaliveIntervalMs ?? DEFAULT_KEEPALIVE_INTERVAL_MS,
+        keepaliveTimeoutMs: config.keepaliveTimeoutMs ?? DEFAULT_KEEPALIVE_TIMEOUT_MS,
+        reconnectBaseDelayMs: config.retryDelayMs,
+        reconnectMaxDelayMs: config.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS,
+      }
+    );
+  }
+
+  /**
+   * Make a single connection attempt; resolves once the transport is connected.
+   * Implementations must feed received bytes to handleData() and call
+   * handleClose() when the transport closes.
+   */
+  protected abstract open(): Promise<void>;
+
+  /**
+   * Gracefully close the transport
+   */
+  protected abstract close(): void;
+
+  /**
+   * Tear the transport down immediately (a close event must follow)
+   */
+  protected abstract destroy(): void;
+
+  /**
+   * Write a complete frame (length prefix included) to the transport
+   */
+  protected abstract writeFrame(frame: Buffer): Promise<void>;
+
+  async connect(): Promise<void> {
+    this.setState('connecting');
+
+    try {
+      await retryWithBackoff(() => this.openAndHandshake(), {
+        maxAttempts: this.config.retryAttempts,
+        delayMs: this.config.retryDelayMs,
+        backoffMultiplier: 2,
+        onRetry: (attempt, error) => {
+          logger.warn('Connection retry', { attempt, error: error.message });
+        },
+      });
+    } catch (error) {
+      this.setState('disconnected');
+      throw error;
+    }
+
+    this.onOpened();
+  }
+
+  disconnect(): Promise<void> {
+    this.supervisor.stop();
+    if (this.connected) {
+      this.connected = false;
+      this.close();
+      logger.info('Disconnected from enclave');
+    }
+    this.setState('disconnected');
+    return Promise.resolve();
+  }
+
+  async sendRequest(req: TeeRequest, options: RequestOptions = {}): Promise<TeeResponse> {
+    if (!this.connected) {
+      throw new VsocketError('Not connected to enclave');
+    }
+
+    return this.exchange(req, options);
+  }
+
+  streamRequest(req: TeeRequest, options: RequestOptions = {}): AsyncIterableIterator<TeeResponse> {
+    const stream = new ResponseStream(() => {
+      // Consumer stopped early; frames still on the wire are dropped as unknown ids
+      this.settle(req.id);
+    });
+
+    try {
+      if (!this.connected) {
+        throw new VsocketError('Not connected to enclave');
+      }
+      this.submit({ ...req, stream: true }, options, {
+        resolve: (frame) => stream.push(frame, true),
+        reject: (error) => stream.fail(error),
+        onChunk: (frame) => stream.push(frame),
+      });
+    } catch (error) {
+      stream.fail(error as Error);
+    }
+
+    return stream;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return this.protocol;
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return { ...this.rejectedFrames };
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.hostServices = { services, context };
+  }
+
+  /**
+   * Number of requests written to the enclave and still awaiting a response
+   */
+  getInflightCount(): number {
+    return this.inflight.size;
+  }
+
+  /**
+   * Write a request and wait for the response with the same id
+   */
+  private exchange(req: TeeRequest, options: RequestOptions = {}): Promise<TeeResponse> {
+    return new Promise((resolve, reject) => {
+      this.submit(req, options, { resolve, reject });
+    });
+  }
+
+  /**
+   * Register a request in the in-flight map and write it to the transport
+   * Throws synchronously if the request cannot be sent at all
+   */
+  private submit(
+    req: TeeRequest,
+    options: RequestOptions,
+    handlers: Pick<PendingRequest, 'resolve' | 'reject' | 'onChunk'>
+  ): void {
+    if (!this.transportOpen) {
+      throw new VsocketError('Socket not available');
+    }
+
+    if (this.inflight.has(req.id)) {
+      throw new VsocketError(`Request ${req.id} is already in flight`);
+    }
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new VsocketError(`Request ${req.id} aborted`);
+    }
+
+    const payload = this.codec.encode(req);
+    if (payload.length > this.maxFrameBytes) {
+      throw new FrameError(
+        `Request ${req.id} is ${payload.length} bytes, above the maximum frame size of ${this.maxFrameBytes} bytes`
+      );
+    }
+
+    const timeoutMs = this.resolveTimeout(req.method, options);
+
+    logger.debug('Sending request to enclave', { id: req.id, method: req.method, timeoutMs });
+
+    // For streams the deadline bounds the gap between frames, not the whole stream
+    let timer: NodeJS.Timeout | undefined;
+    const armTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.settle(req.id)?.reject(
+          new EnclaveTimeoutError(`Request ${req.method} timed out after ${timeoutMs}ms`)
+        );
+      }, timeoutMs);
+    };
+    armTimer();
+
+    const onAbort = () => {
+      this.settle(req.id)?.reject(new VsocketError(`Request ${req.id} aborted`));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const { onChunk } = handlers;
+    this.inflight.set(req.id, {
+      method: req.method,
+      resolve: handlers.resolve,
+      reject: handlers.reject,
+      onChunk: onChunk
+        ? (frame) => {
+            armTimer();
+            onChunk(frame);
+          }
+        : undefined,
+      cleanup: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    });
+
+    // A failed write settles the call with the transport error
+    this.writeFrame(encodeFrame(payload)).catch((error) => {
+      this.settle(req.id)?.reject(error as Error);
+    });
+  }
+
+  /**
+   * Feed raw bytes received from the transport
+   */
+  protected handleData(chunk: Buffer): void {
+    let frames: Buffer[];
+    try {
+      frames = this.decoder.push(chunk);
+    } catch (error) {
+      this.rejectedFrames.oversized++;
+      this.dropCorruptStream(error as Error);
+      return;
+    }
+
+    for (const frame of frames) {
+      if (!this.transportOpen) {
+        // An earlier frame in this chunk corrupted the stream
+        return;
+      }
+      this.dispatchFrame(frame);
+    }
+  }
+
+  /**
+   * Must be called by subclasses when the underlying transport closes
+   */
+  protected handleClose(): void {
+    this.transportOpen = false;
+    this.decoder.reset();
+    this.codec = jsonCodec;
+    this.rejectAll(new VsocketError('Connection to enclave closed'));
+
+    // Failed connection attempts are retried by connect() or the supervisor
+    if (!this.connected) {
+      return;
+    }
+
+    this.connected = false;
+    logger.warn('Connection to enclave closed');
+    this.setState('disconnected');
+    this.supervisor.onDisconnected();
+  }
+
+  /**
+   * Reject every in-flight request, e.g. when the stream can no longer be trusted
+   */
+  protected rejectAll(error: Error): void {
+    for (const id of [...this.inflight.keys()]) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private onOpened(): void {
+    this.connected = true;
+    logger.info('Connected to enclave');
+    this.setState('connected');
+    this.supervisor.onConnected();
+  }
+
+  private async reopen(): Promise<void> {
+    await this.openAndHandshake();
+    this.onOpened();
+  }
+
+  /**
+   * Open the transport and agree on a protocol version before any other traffic
+   */
+  private async openAndHandshake(): Promise<void> {
+    this.codec = jsonCodec;
+    await this.open();
+    this.transportOpen = true;
+    this.connectionId++;
+
+    const encodings = offeredEncodings(this.config);
+    try {
+      const hello = await this.exchange(createHelloRequest(encodings), {
+        timeoutMs: this.config.timeoutMs,
+      });
+      this.protocol = negotiateProtocol(hello, encodings);
+      this.codec = getCodec(this.protocol.encoding);
+    } catch (error) {
+      logger.error('Enclave handshake failed', { error: (error as Error).message });
+      this.transportOpen = false;
+      this.destroy();
+      throw error;
+    }
+
+    logger.info('Negotiated enclave protocol', { ...this.protocol });
+  }
+
+  /**
+   * Frame boundaries can no longer be trusted: fail everything in flight and
+   * force a reconnect, which starts again from a clean decoder
+   */
+  private dropCorruptStream(error: Error): void {
+    logger.error('Corrupt frame stream from enclave, dropping connection', {
+      error: error.message,
+      inflight: this.inflight.size,
+    });
+    this.transportOpen = false;
+    this.rejectAll(new FrameError(`Corrupt frame stream: ${error.message}`));
+    this.destroy();
+  }
+
+  /**
+   * Answer a request initiated by the enclave on the connection it arrived on
+   */
+  private serveHostRequest(request: TeeRequest): void {
+    const connectionId = this.connectionId;
+    logger.debug('Received host service request from enclave', {
+      id: request.id,
+      method: request.method,
+    });
+
+    const reply: Promise<TeeResponse> = this.hostServices
+      ? this.hostServices.services.handle(request, this.hostServices.context)
+      : Promise.resolve({
+          id: request.id,
+          success: false,
+          error: `Unknown method: ${request.method}`,
+        });
+
+    void reply.then(async (response) => {
+      if (!this.transportOpen || connectionId !== this.connectionId) {
+        logger.warn('Dropping host service response, connection closed', { id: request.id });
+        return;
+      }
+
+      let payload = this.codec.encode(response);
+      if (payload.length > this.maxFrameBytes) {
+        payload = this.codec.encode({
+          id: request.id,
+          success: false,
+          error: 'Host service response exceeds maximum frame size',
+        });
+      }
+
+      try {
+        await this.writeFrame(encodeFrame(payload));
+      } catch (error) {
+        logger.warn('Failed to send host service response', {
+          id: request.id,
+          error: (error as Error).message,
+        });
+      }
+    });
+  }
+
+  private async ping(timeoutMs: number): Promise<void> {
+    await this.sendRequest(
+      { id: uuidv4(), method: 'ping', params: {}, timestamp: Date.now() },
+      { timeoutMs }
+    );
+  }
+
+  private terminate(reason: string): void {
+    logger.warn('Dropping enclave connection', { reason });
+    this.destroy();
+  }
+
+  private onReconnectScheduled(attempt: number, delayMs: number): void {
+    logger.info('Reconnecting to enclave', { attempt, delayMs });
+    this.setState('reconnecting');
+    this.emit('reconnecting', attempt, delayMs);
+  }
+
+  private setState(state: ConnectionState): void {
+    const previous = this.state;
+    this.state = state;
+
+    if (state === previous) {
+      return;
+    }
+    if (state === 'connected') {
+      this.emit('connected');
+    } else if (state === 'disconnected' && previous === 'connected') {
+      this.emit('disconnected');
+    }
+  }
+
+  /**
+   * Deadline for a call: explicit option, then per-method config, then default
+   */
+  private resolveTimeout(method: string, options: RequestOptions): number {
+    return (
+      options.timeoutMs ??
+      this.config.methodTimeouts?.[method] ??
+      this.config.requestTimeoutMs ??
+      DEFAULT_REQUEST_TIMEOUT_MS
+    );
+  }
+
+  /**
+   * Remove a request from the in-flight map and release its timer and listeners
+   */
+  private settle(id: string): PendingRequest | undefined {
+    const pending = this.inflight.get(id);
+    if (pending) {
+      this.inflight.delete(id);
+      pending.cleanup();
+    }
+    return pending;
+  }
+
+  private dispatchFrame(frame: Buffer): void {
+    let decoded: unknown;
+    try {
+      decoded = this.codec.decode(frame);
+    } catch (error) {
+      // The frame cannot be attributed to a caller, and a garbled payload
+      // usually means the peer lost track of the framing too
+      this.rejectedFrames.undecodable++;
+      this.dropCorruptStream(
+        new FrameError(`${this.codec.name} decode failed: ${(error as Error).message}`)
+      );
+      return;
+    }
+
+    if (isTeeRequest(decoded)) {
+      this.serveHostRequest(decoded);
+      return;
+    }
+
+    if (!isTeeResponse(decoded)) {
+      // Framing is intact, so only this frame is dropped; fail its caller if identifiable
+      this.rejectedFrames.malformed++;
+      const id = (decoded as { id?: unknown } | null)?.id;
+      logger.warn('Dropping malformed response from enclave', { id });
+      if (typeof id === 'string') {
+        this.settle(id)?.reject(new FrameError(`Malformed response for request ${id}`));
+      }
+      return;
+    }
+
+    const response = decoded;
+    const streaming = this.inflight.get(response.id)?.onChunk;
+    if (response.stream === 'chunk' && streaming) {
+      streaming(response);
+      return;
+    }
+
+    const pending = this.settle(response.id);
+    if (!pending) {
+      // Unknown, timed out or cancelled request
+      logger.warn('Dropping response for unknown request id', { id: response.id });
+      return;
+    }
+
+    if (response.stream === 'chunk') {
+      // Only callers that asked for a stream can consume chunks
+      pending.reject(new FrameError(`Unexpected stream chunk for request ${response.id}`));
+      return;
+    }
+
+    logger.debug('Received response from enclave', {
+      id: response.id,
+      method: pending.method,
+      success: response.success,
+    });
+
+    pending.resolve(response);
+  }
+}
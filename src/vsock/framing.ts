@@ -0,0 +1,78 @@
+/**
+ * Length-prefixed wire framing shared by all socket clients
+ * Format: [4 bytes: length (big-endian)][N bytes: payload]
+ */
+
+import { FrameError } from '../utils/errors';
+
+export const FRAME_HEADER_BYTES = 4;
+export const DEFAULT_MAX_FRAME_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Prefix a payload with its 4-byte big-endian length
+ */
+export function encodeFrame(payload: Buffer): Buffer {
+  const lengthBuffer = Buffer.allocUnsafe(FRAME_HEADER_BYTES);
+  lengthBuffer.writeUInt32BE(payload.length, 0);
+  return Buffer.concat([lengthBuffer, payload]);
+}
+
+/**
+ * Incremental decoder that turns arbitrary stream chunks into complete frames
+ *
+ * Buffering is bounded by maxFrameBytes: a length prefix above the limit is
+ * rejected as soon as its header arrives, before any payload is held.
+ */
+export class FrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly maxFrameBytes: number;
+
+  constructor(maxFrameBytes: number = DEFAULT_MAX_FRAME_BYTES) {
+    this.maxFrameBytes = maxFrameBytes;
+  }
+
+  /**
+   * Append a chunk and return every frame payload completed by it
+   * Throws FrameError for an oversized frame; the stream cannot be resynchronised
+   * after that, so the decoder is reset and the connection should be dropped
+   */
+  push(chunk: Buffer): Buffer[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    const frames: Buffer[] = [];
+    while (this.buffer.length >= FRAME_HEADER_BYTES) {
+      const length = this.buffer.readUInt32BE(0);
+
+      if (length > this.maxFrameBytes) {
+        this.reset();
+        throw new FrameError(
+          `Frame of ${length} bytes exceeds maximum frame size of ${this.maxFrameBytes} bytes`
+        );
+      }
+
+      // Not enough data yet, wait for more
+      if (this.buffer.length < FRAME_HEADER_BYTES + length) {
+        break;
+      }
+
+      frames.push(this.buffer.subarray(FRAME_HEADER_BYTES, FRAME_HEADER_BYTES + length));
+      this.buffer = this.buffer.subarray(FRAME_HEADER_BYTES + length);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Number of bytes buffered towards an incomplete frame
+   */
+  get pendingBytes(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Drop any partially received frame (e.g. after the connection closed)
+   */
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Image measurement allowlist in front of an enclave SocketClient
+ *
+ * Every successful get_attestation response passing through this client is
+ * verified and its PCRs compared with the measurements approved for the
+ * TAPP. Until an attestation has been evaluated, the first request fetches
+ * one. While the verdict is not 'allowed' every call fails with
+ * MeasurementPolicyError, get_attestation included, so a rejected enclave
+ * serves no requests and its attestation is never submitted to L3. The
+ * verdict is reset when the enclave disconnects, since it may come back as a
+ * different image. The verdict covers a single enclave, so with replicas each
+ * one has its own client below the balancer.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConnectionState,
+  MeasurementPolicyStatus,
+  MeasurementVerdict,
+  PcrMeasurements,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../types';
+import { NitroAttestationVerifier } from '../attestation/nitro';
+import { findAllowedMeasurements, measurementsOf } from '../attestation/policy';
+import { MeasurementPolicyError } from '../utils/errors';
+import logger from '../utils/logger';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import { SocketClient, RequestOptions } from './client';
+
+export interface MeasurementPolicyOptions {
+  tappId: string;
+  allowed: PcrMeasurements[]; // Approved measurement sets
+  verifier: NitroAttestationVerifier; // Checks documents before their PCRs are trusted
+}
+
+export class MeasurementPolicySocketClient extends EventEmitter implements SocketClient {
+  readonly inner: SocketClient;
+  private readonly options: MeasurementPolicyOptions;
+  private verdict: MeasurementVerdict = 'pending';
+  private reason?: string;
+  private measurements?: PcrMeasurements;
+  private evaluatedAt?: Date;
+  private evaluation?: Promise<void>;
+
+  constructor(inner: SocketClient, options: MeasurementPolicyOptions) {
+    super();
+    this.inner = inner;
+    this.options = options;
+    inner.on('connected', () => this.emit('connected'));
+    inner.on('disconnected', () => {
+      this.verdict = 'pending';
+      this.reason = undefined;
+      this.emit('disconnected');
+    });
+    inner.on('reconnecting', (attempt, delayMs) => this.emit('reconnecting', attempt, delayMs));
+    inner.on('replicaConnected', (replica) => this.emit('replicaConnected', replica));
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  async sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse> {
+    if (req.method !== 'get_attestation') {
+      await this.admit(options);
+      return this.inner.sendRequest(req, options);
+    }
+
+    const response = await this.inner.sendRequest(req, options);
+    if (response.success) {
+      this.evaluate(response);
+      this.assertAllowed();
+    }
+    return response;
+  }
+
+  async *streamRequest(
+    req: TeeRequest,
+    options?: RequestOptions
+  ): AsyncIterableIterator<TeeResponse> {
+    await this.admit(options);
+    yield* this.inner.streamRequest(req, options);
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.inner.getConnectionState();
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return this.inner.getProtocolInfo();
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return this.inner.getRejectedFrameStats();
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.inner.setHostServices(services, context);
+  }
+
+  getPolicyStatus(): MeasurementPolicyStatus {
+    return {
+      verdict: this.verdict,
+      reason: this.reason,
+      measurements: this.measurements,
+      evaluatedAt: this.evaluatedAt,
+      allowedMeasurements: this.options.allowed.length,
+    };
+  }
+
+  /**
+   * Let a call through only once the enclave's measurements are approved,
+   * fetching its attestation first if none has been evaluated yet
+   */
+  private async admit(options?: RequestOptions): Promise<void> {
+    if (this.verdict === 'pending') {
+      this.evaluation ??= this.fetchAttestation(options).finally(() => {
+        this.evaluation = undefined;
+      });
+      await this.evaluation;
+    }
+    this.assertAllowed();
+  }
+
+  private async fetchAttestation(options?: RequestOptions): Promise<void> {
+    const response = await this.inner.sendRequest(
+      { id: uuidv4(), method: 'get_attestation', params: {}, timestamp: Date.now() },
+      { signal: options?.signal }
+    );
+    if (!response.success) {
+      throw new MeasurementPolicyError(
+        `Cannot check the measurements of the enclave for TAPP ${this.options.tappId}: ${response.error ?? 'attestation failed'}`
+      );
+    }
+    this.evaluate(response);
+  }
+
+  private evaluate(response: TeeResponse): void {
+    const document = (response.data as { attestation?: unknown } | undefined)?.attestation;
+    if (typeof document !== 'string') {
+      this.record('rejected', 'Enclave did not provide an attestation document');
+      return;
+    }
+
+    let measurements: PcrMeasurements;
+    try {
+      measurements = measurementsOf(this.options.verifier.verify(Buffer.from(document, 'base64')));
+    } catch (error) {
+      this.record('rejected', (error as Error).message);
+      return;
+    }
+
+    if (findAllowedMeasurements(measurements, this.options.allowed)) {
+      this.record('allowed', undefined, measurements);
+    } else {
+      this.record('rejected', 'Enclave measurements are not in the allowlist', measurements);
+    }
+  }
+
+  private record(verdict: MeasurementVerdict, reason?: string, measurements?: PcrMeasurements) {
+    const changed = verdict !== this.verdict;
+    this.verdict = verdict;
+    this.reason = reason;
+    this.measurements = measurements;
+    this.evaluatedAt = new Date();
+
+    if (verdict === 'rejected') {
+      logger.error('Enclave measurements rejected', {
+        tappId: this.options.tappId,
+        reason,
+        measurements,
+      });
+    } else if (changed) {
+      logger.info('Enclave measurements approved', {
+        tappId: this.options.tappId,
+        measurements,
+      });
+    }
+  }
+
+  private assertAllowed(): void {
+    if (this.verdict !== 'allowed') {
+      throw new MeasurementPolicyError(
+        `Enclave for TAPP ${this.options.tappId} is not approved: ${this.reason ?? 'measurements not checked'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * Pool of enclave connections behind the SocketClient interface
+ *
+ * Each request is checked out to the healthy connection with the fewest
+ * requests in flight. Connections found dead (and not already reconnecting)
+ * are replaced in the background so a single broken socket does not reduce
+ * throughput for long. Pool-level connection events fire when the pool as a
+ * whole gains or loses its last healthy connection.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  TeeRequest,
+  TeeResponse,
+  PoolStats,
+  RejectedFrameStats,
+} from '../types';
+import { VsocketError } from '../utils/errors';
+import logger from '../utils/logger';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import { SocketClient, RequestOptions } from './client';
+
+export interface PoolOptions {
+  size: number;
+  replaceDelayMs: number;
+}
+
+interface PoolMember {
+  index: number;
+  client: SocketClient;
+  inflight: number;
+  requests: number;
+  replacing: boolean;
+}
+
+export class PooledSocketClient extends EventEmitter implements SocketClient {
+  private readonly factory: () => SocketClient;
+  private readonly options: PoolOptions;
+  private members: PoolMember[] = [];
+  private replacements: number = 0;
+  private closed: boolean = false;
+  private state: ConnectionState = 'disconnected';
+  // Counters of connections that have since been replaced
+  private retiredFrameStats: RejectedFrameStats = { oversized: 0, undecodable: 0, malformed: 0 };
+  private hostServices?: { services: HostServiceRegistry; context: HostServiceContext };
+  // Pending retry delays of replacements, cut short on disconnect
+  private readonly delays = new Map<NodeJS.Timeout, () => void>();
+  private readonly onMemberStateChange = () => this.updateState();
+
+  constructor(factory: () => SocketClient, options: PoolOptions) {
+    super();
+    if (options.size < 1) {
+      throw new VsocketError('Pool size must be at least 1');
+    }
+    this.factory = factory;
+    this.options = options;
+  }
+
+  async connect(): Promise<void> {
+    logger.info('Opening enclave connection pool', { size: this.options.size });
+
+    this.closed = false;
+    this.members = Array.from({ length: this.options.size }, (_, index) => ({
+      index,
+      client: this.createClient(),
+      inflight: 0,
+      requests: 0,
+      replacing: false,
+    }));
+    this.updateState();
+
+    const results = await Promise.allSettled(this.members.map((member) => member.client.connect()));
+
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    this.updateState();
+    if (failed === this.members.length) {
+      throw new VsocketError('Failed to open any enclave connection');
+    }
+
+    // Keep the pool at full strength even if some connections failed initially
+    this.members.forEach((member, i) => {
+      if (results[i]?.status === 'rejected') {
+        this.scheduleReplacement(member);
+      }
+    });
+
+    logger.info('Enclave connection pool ready', {
+      size: this.members.length,
+      healthy: this.members.length - failed,
+    });
+  }
+
+  async sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse> {
+    const member = this.checkout();
+    member.inflight++;
+    member.requests++;
+
+    try {
+      return await member.client.sendRequest(req, options);
+    } catch (error) {
+      if (member.client.getConnectionState() === 'disconnected') {
+        this.scheduleReplacement(member);
+      }
+      throw error;
+    } finally {
+      member.inflight--;
+    }
+  }
+
+  async *streamRequest(
+    req: TeeRequest,
+    options?: RequestOptions
+  ): AsyncIterableIterator<TeeResponse> {
+    const member = this.checkout();
+    member.inflight++;
+    member.requests++;
+
+    try {
+      yield* member.client.streamRequest(req, options);
+    } catch (error) {
+      if (member.client.getConnectionState() === 'disconnected') {
+        this.scheduleReplacement(member);
+      }
+      throw error;
+    } finally {
+      member.inflight--;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.closed = true;
+    this.delays.forEach((resolve, timer) => {
+      clearTimeout(timer);
+      resolve();
+    });
+    this.delays.clear();
+    await Promise.allSettled(this.members.map((member) => member.client.disconnect()));
+    this.updateState();
+    logger.info('Enclave connection pool closed');
+  }
+
+  isConnected(): boolean {
+    return this.members.some((member) => member.client.isConnected());
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    // All members talk to the same enclave, so any connected one is representative
+    const member = this.members.find((m) => m.client.isConnected());
+    return member?.client.getProtocolInfo();
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    const totals = { ...this.retiredFrameStats };
+    for (const member of this.members) {
+      const stats = member.client.getRejectedFrameStats();
+      totals.oversized += stats.oversized;
+      totals.undecodable += stats.undecodable;
+      totals.malformed += stats.malformed;
+    }
+    return totals;
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.hostServices = { services, context };
+    this.members.forEach((member) => member.client.setHostServices(services, context));
+  }
+
+  getStats(): PoolStats {
+    return {
+      size: this.members.length,
+      healthy: this.members.filter((member) => member.client.isConnected()).length,
+      inflight: this.members.reduce((sum, member) => sum + member.inflight, 0),
+      replacements: this.replacements,
+      connections: this.members.map((member) => ({
+        index: member.index,
+        connected: member.client.isConnected(),
+        inflight: member.inflight,
+        requests: member.requests,
+      })),
+    };
+  }
+
+  /**
+   * Create a member connection whose state changes feed the pool state
+   */
+  private createClient(): SocketClient {
+    const client = this.factory();
+    if (this.hostServices) {
+      client.setHostServices(this.hostServices.services, this.hostServices.context);
+    }
+    client.on('connected', this.onMemberStateChange);
+    client.on('disconnected', this.onMemberStateChange);
+    client.on('reconnecting', this.onMemberStateChange);
+    return client;
+  }
+
+  /**
+   * Stop listening to a connection that left the pool and close it
+   */
+  private discard(client: SocketClient): void {
+    client.off('connected', this.onMemberStateChange);
+    client.off('disconnected', this.onMemberStateChange);
+    client.off('reconnecting', this.onMemberStateChange);
+    client.disconnect().catch(() => {
+      // Ignore errors from an already broken connection
+    });
+  }
+
+  /**
+   * Wait between replacement attempts without keeping the process alive
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.delays.delete(timer);
+        resolve();
+      }, ms);
+      timer.unref();
+      this.delays.set(timer, resolve);
+    });
+  }
+
+  /**
+   * Derive the pool state from its members and emit on transitions
+   */
+  private updateState(): void {
+    const states = this.members.map((member) => member.client.getConnectionState());
+    const previous = this.state;
+
+    if (states.includes('connected')) {
+      this.state = 'connected';
+    } else if (states.includes('reconnecting') || this.members.some((m) => m.replacing)) {
+      this.state = 'reconnecting';
+    } else if (states.includes('connecting')) {
+      this.state = 'connecting';
+    } else {
+      this.state = 'disconnected';
+    }
+
+    if (this.state === previous) {
+      return;
+    }
+    if (this.state === 'connected') {
+      this.emit('connected');
+    } else if (this.state === 'reconnecting') {
+      this.emit('reconnecting', this.replacements + 1, this.options.replaceDelayMs);
+    } else if (this.state === 'disconnected' && previous === 'connected') {
+      this.emit('disconnected');
+    }
+  }
+
+  /**
+   * Pick the healthy connection with the fewest requests in flight
+   */
+  private checkout(): PoolMember {
+    let selected: PoolMember | undefined;
+
+    for (const member of this.members) {
+      if (!member.client.isConnected()) {
+        if (member.client.getConnectionState() === 'disconnected') {
+          this.scheduleReplacement(member);
+        }
+        continue;
+      }
+      if (!selected || member.inflight < selected.inflight) {
+        selected = member;
+      }
+    }
+
+    if (!selected) {
+      throw new VsocketError('No healthy enclave connection available');
+    }
+
+    return selected;
+  }
+
+  /**
+   * Keep the rejected-frame counters of a connection that is being replaced
+   */
+  private retire(client: SocketClient): void {
+    const stats = client.getRejectedFrameStats();
+    this.retiredFrameStats.oversized += stats.oversized;
+    this.retiredFrameStats.undecodable += stats.undecodable;
+    this.retiredFrameStats.malformed += stats.malformed;
+  }
+
+  /**
+   * Replace a dead connection with a fresh one, retrying until it connects
+   */
+  private scheduleReplacement(member: PoolMember): void {
+    if (member.replacing || this.closed) {
+      return;
+    }
+    member.replacing = true;
+    this.updateState();
+
+    const replace = async (): Promise<void> => {
+      while (!this.closed) {
+        const previous = member.client;
+        const client = this.createClient();
+        try {
+          await client.connect();
+          if (this.closed) {
+            this.discard(client);
+            return;
+          }
+          member.client = client;
+          this.retire(previous);
+          this.replacements++;
+          this.updateState();
+          logger.info('Replaced dead enclave connection', { index: member.index });
+          this.discard(previous);
+          return;
+        } catch (error) {
+          this.discard(client);
+          logger.warn('Failed to replace enclave connection', {
+            index: member.index,
+            error: (error as Error).message,
+          });
+          await this.delay(this.options.replaceDelayMs);
+        }
+      }
+    };
+
+    void replace().finally(() => {
+      member.replacing = false;
+      this.updateState();
+    });
+  }
+}
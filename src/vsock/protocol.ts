@@ -0,0 +1,137 @@
+/**
+ * Host/enclave protocol version handshake
+ *
+ * Right after a connection opens the host sends a `hello` request carrying its
+ * protocol version and supported encodings; the enclave answers with its own
+ * version, the encoding it picked and the capabilities it offers. Peers with a
+ * different major protocol version are refused. The hello exchange itself is
+ * always JSON so enclaves of any version can read it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ProtocolInfo, TeeRequest, TeeResponse, VsockConfig, WireEncoding } from '../types';
+import { ProtocolError } from '../utils/errors';
+import logger from '../utils/logger';
+import { SUPPORTED_ENCODINGS, isWireEncoding } from './codec';
+
+export const HOST_VERSION = '0.1.0';
+export const PROTOCOL_VERSION = '1.0';
+export const HELLO_METHOD = 'hello';
+
+/**
+ * Encodings offered in the hello request, in order of preference
+ * 'auto' lets the enclave pick any supported codec; the default is JSON only
+ */
+export function offeredEncodings(config: Pick<VsockConfig, 'encoding'>): WireEncoding[] {
+  const encoding = config.encoding ?? 'json';
+  return encoding === 'auto' ? [...SUPPORTED_ENCODINGS] : [encoding];
+}
+
+/**
+ * Build the hello request sent on every new connection
+ */
+export function createHelloRequest(encodings: WireEncoding[] = ['json']): TeeRequest {
+  return {
+    id: uuidv4(),
+    method: HELLO_METHOD,
+    params: {
+      protocolVersion: PROTOCOL_VERSION,
+      hostVersion: HOST_VERSION,
+      encodings,
+    },
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Validate the enclave's hello response and return the negotiated protocol
+ * Throws ProtocolError for incompatible peers
+ */
+export function negotiateProtocol(
+  response: TeeResponse,
+  offered: WireEncoding[] = ['json']
+): ProtocolInfo {
+  if (!response.success) {
+    // Enclaves predating the handshake reject the method; they speak plain 1.0 JSON
+    if (response.error?.startsWith('Unknown method')) {
+      if (!offered.includes('json')) {
+        throw new ProtocolError('Legacy enclave only speaks json, which is not enabled');
+      }
+      logger.warn('Enclave does not support the protocol handshake, assuming legacy protocol');
+      return { version: PROTOCOL_VERSION, encoding: 'json', capabilities: [], legacy: true };
+    }
+    throw new ProtocolError(`Enclave refused handshake: ${response.error ?? 'unknown error'}`);
+  }
+
+  const data = (response.data ?? {}) as {
+    protocolVersion?: unknown;
+    encoding?: unknown;
+    capabilities?: unknown;
+    enclaveVersion?: unknown;
+  };
+
+  if (typeof data.protocolVersion !== 'string') {
+    throw new ProtocolError('Enclave did not report a protocol version');
+  }
+
+  if (majorVersion(data.protocolVersion) !== majorVersion(PROTOCOL_VERSION)) {
+    throw new ProtocolError(
+      `Incompatible enclave protocol version ${data.protocolVersion} (host speaks ${PROTOCOL_VERSION})`
+    );
+  }
+
+  const encoding = typeof data.encoding === 'string' ? data.encoding : 'json';
+  if (!isWireEncoding(encoding) || !offered.includes(encoding)) {
+    throw new ProtocolError(`Enclave selected unsupported encoding ${encoding}`);
+  }
+
+  return {
+    version: data.protocolVersion,
+    encoding,
+    capabilities: Array.isArray(data.capabilities)
+      ? data.capabilities.filter((c): c is string => typeof c === 'string')
+      : [],
+    enclaveVersion: typeof data.enclaveVersion === 'string' ? data.enclaveVersion : undefined,
+    legacy: false,
+  };
+}
+
+/**
+ * Check that a decoded frame is a request sent by the enclave to the host
+ * (requests carry a method; responses carry a success flag instead)
+ */
+export function isTeeRequest(value: unknown): value is TeeRequest {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const request = value as Record<string, unknown>;
+  return (
+    typeof request.id === 'string' &&
+    typeof request.method === 'string' &&
+    request.success === undefined
+  );
+}
+
+/**
+ * Check that a decoded frame has the shape of a TeeResponse
+ */
+export function isTeeResponse(value: unknown): value is TeeResponse {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const response = value as Record<string, unknown>;
+  return (
+    typeof response.id === 'string' &&
+    typeof response.success === 'boolean' &&
+    (response.error === undefined || typeof response.error === 'string') &&
+    (response.signature === undefined || typeof response.signature === 'string') &&
+    (response.stream === undefined || response.stream === 'chunk' || response.stream === 'end') &&
+    (response.seq === undefined || typeof response.seq === 'number')
+  );
+}
+
+function majorVersion(version: string): string {
+  return version.split('.')[0] ?? version;
+}
@@ -0,0 +1,95 @@
+/**
+ * Async iterator over the frames of a streamed enclave response
+ *
+ * A streamed response is a sequence of frames sharing the request id: any
+ * number of `stream: 'chunk'` frames followed by one `stream: 'end'` frame
+ * carrying the final status (and signature, if any). Frames are buffered
+ * until the consumer pulls them; leaving the loop early cancels the stream.
+ */
+
+import { TeeResponse } from '../types';
+
+export class ResponseStream implements AsyncIterableIterator<TeeResponse> {
+  private readonly buffered: TeeResponse[] = [];
+  private waiting?: {
+    resolve: (result: IteratorResult<TeeResponse>) => void;
+    reject: (error: Error) => void;
+  };
+  private finished: boolean = false;
+  private error?: Error;
+  private readonly onCancel: () => void;
+
+  /**
+   * @param onCancel - Called when the consumer stops before the end of the stream
+   */
+  constructor(onCancel: () => void) {
+    this.onCancel = onCancel;
+  }
+
+  /**
+   * Deliver the next frame; `last` marks the end of the stream
+   */
+  push(frame: TeeResponse, last: boolean = false): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = last;
+
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: frame, done: false });
+    } else {
+      this.buffered.push(frame);
+    }
+  }
+
+  /**
+   * Terminate the stream with an error, after any frames already buffered
+   */
+  fail(error: Error): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.error = error;
+
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<TeeResponse>> {
+    const frame = this.buffered.shift();
+    if (frame) {
+      return Promise.resolve({ value: frame, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = undefined;
+      return Promise.reject(error);
+    }
+    if (this.finished) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<TeeResponse>> {
+    this.buffered.length = 0;
+    this.error = undefined;
+    if (!this.finished) {
+      this.finished = true;
+      this.onCancel();
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<TeeResponse> {
+    return this;
+  }
+}
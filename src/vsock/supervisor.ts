@@ -0,0 +1,134 @@
+/**
+ * Reconnect supervisor shared by the enclave socket clients
+ *
+ * Sends periodic ping frames while connected, forces the connection closed
+ * when a ping goes unanswered, and reconnects with exponential backoff and
+ * jitter until the client is explicitly disconnected.
+ */
+
+import logger from '../utils/logger';
+
+export const DEFAULT_KEEPALIVE_INTERVAL_MS = 15000;
+export const DEFAULT_KEEPALIVE_TIMEOUT_MS = 5000;
+export const DEFAULT_RECONNECT_MAX_DELAY_MS = 30000;
+
+export interface SupervisorOptions {
+  keepaliveIntervalMs: number; // 0 disables keepalive pings
+  keepaliveTimeoutMs: number;
+  reconnectBaseDelayMs: number;
+  reconnectMaxDelayMs: number;
+}
+
+/**
+ * Operations the supervisor needs from the connection it looks after
+ */
+export interface SupervisedConnection {
+  ping(timeoutMs: number): Promise<void>;
+  reopen(): Promise<void>; // Single connection attempt
+  terminate(reason: string): void; // Force-close so a reconnect follows
+  onReconnectScheduled(attempt: number, delayMs: number): void;
+}
+
+export class ReconnectSupervisor {
+  private readonly target: SupervisedConnection;
+  private readonly options: SupervisorOptions;
+  private keepaliveTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private attempt: number = 0;
+  private stopped: boolean = true;
+
+  constructor(target: SupervisedConnection, options: SupervisorOptions) {
+    this.target = target;
+    this.options = options;
+  }
+
+  /**
+   * Connection established: reset backoff and start keepalive pings
+   */
+  onConnected(): void {
+    this.stopped = false;
+    this.attempt = 0;
+    this.clearReconnect();
+    this.startKeepalive();
+  }
+
+  /**
+   * Connection lost unexpectedly: schedule the next reconnect attempt
+   */
+  onDisconnected(): void {
+    this.stopKeepalive();
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+
+    this.attempt++;
+    const delayMs = this.nextDelay(this.attempt);
+    this.target.onReconnectScheduled(this.attempt, delayMs);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.stopped) {
+        return;
+      }
+
+      this.target.reopen().catch((error) => {
+        logger.warn('Enclave reconnect attempt failed', {
+          attempt: this.attempt,
+          error: (error as Error).message,
+        });
+        this.onDisconnected();
+      });
+    }, delayMs);
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Explicit disconnect: stop pinging and never reconnect
+   */
+  stop(): void {
+    this.stopped = true;
+    this.stopKeepalive();
+    this.clearReconnect();
+  }
+
+  /**
+   * Exponential backoff capped at reconnectMaxDelayMs, with "equal jitter"
+   * so a fleet of hosts does not reconnect in lockstep
+   */
+  private nextDelay(attempt: number): number {
+    const exponential = Math.min(
+      this.options.reconnectMaxDelayMs,
+      this.options.reconnectBaseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(exponential / 2 + (Math.random() * exponential) / 2);
+  }
+
+  private startKeepalive(): void {
+    this.stopKeepalive();
+    if (this.options.keepaliveIntervalMs <= 0) {
+      return;
+    }
+
+    this.keepaliveTimer = setInterval(() => {
+      this.target.ping(this.options.keepaliveTimeoutMs).catch((error) => {
+        logger.warn('Enclave keepalive ping failed', { error: (error as Error).message });
+        this.target.terminate('keepalive ping failed');
+      });
+    }, this.options.keepaliveIntervalMs);
+    this.keepaliveTimer.unref();
+  }
+
+  private stopKeepalive(): void {
+    if (this.keepaliveTimer) {
+      clearInterval(this.keepaliveTimer);
+      this.keepaliveTimer = undefined;
+    }
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Response signature checks in front of an enclave SocketClient
+ *
+ * Successful responses must carry a signature made with a public key the
+ * enclave reported in its attestation. When the client meets a signature it
+ * cannot check it asks the enclave for its attestation itself, and learns the
+ * key only if the document verifies and attests that key; get_attestation
+ * responses to other callers are never trusted for keys. Failed responses
+ * (success: false) carry no result and are not checked. Keys are forgotten
+ * when the enclave disconnects, since a restarted enclave has a new one, and
+ * a replica coming back may be fetched from straight away. Without a trusted
+ * root no document can verify, so no attestation is requested at all.
+ *
+ * Policies for unsigned or invalid responses:
+ * - reject: fail the call with SignatureVerificationError
+ * - flag: return the response with `verified` set to the outcome
+ * - passthrough: return the response unchanged (outcomes are only counted)
+ *
+ * Chunks of a streamed response are passed on as they arrive, before the
+ * end frame's signature can be checked; only the end frame is rejected or
+ * flagged.
+ */
+
+import { EventEmitter } from 'events';
+import { KeyObject } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  ResponseVerificationPolicy,
+  ResponseVerificationStats,
+  TeeRequest,
+  TeeResponse,
+} from '../types';
+import { NitroAttestationVerifier, attestsPublicKey } from '../attestation/nitro';
+import { AttestationError, SignatureVerificationError } from '../utils/errors';
+import {
+  StreamSignatureVerifier,
+  parsePublicKey,
+  verifyResponseSignature,
+} from '../utils/signature';
+import logger from '../utils/logger';
+import type { HostServiceContext, HostServiceRegistry } from '../services/registry';
+import { SocketClient, RequestOptions } from './client';
+
+export interface ResponseVerifierOptions {
+  policy: ResponseVerificationPolicy;
+}
+
+export const DEFAULT_RESPONSE_VERIFIER_OPTIONS: ResponseVerifierOptions = {
+  policy: 'passthrough',
+};
+
+// Replicas of one TAPP each attest their own key
+const MAX_PUBLIC_KEYS = 16;
+
+// Least time between attestation requests made to find an unknown key
+const KEY_REFRESH_INTERVAL_MS = 5000;
+
+type Outcome = 'verified' | 'invalid' | 'unsigned' | 'unverifiable';
+
+export class VerifyingSocketClient extends EventEmitter implements SocketClient {
+  readonly inner: SocketClient;
+  private readonly options: ResponseVerifierOptions;
+  private readonly attestationVerifier: NitroAttestationVerifier;
+  private readonly publicKeys = new Map<string, KeyObject>();
+  private keyRefresh?: Promise<void>;
+  private lastKeyRefresh: number = 0;
+  private readonly counts: Record<Outcome, number> = {
+    verified: 0,
+    invalid: 0,
+    unsigned: 0,
+    unverifiable: 0,
+  };
+
+  constructor(
+    inner: SocketClient,
+    attestationVerifier: NitroAttestationVerifier,
+    options: Partial<ResponseVerifierOptions> = {}
+  ) {
+    super();
+    this.inner = inner;
+    this.attestationVerifier = attestationVerifier;
+    this.options = { ...DEFAULT_RESPONSE_VERIFIER_OPTIONS, ...options };
+    inner.on('connected', () => this.emit('connected'));
+    inner.on('disconnected', () => {
+      this.publicKeys.clear();
+      this.lastKeyRefresh = 0;
+      this.emit('disconnected');
+    });
+    inner.on('reconnecting', (attempt, delayMs) => this.emit('reconnecting', attempt, delayMs));
+    inner.on('replicaConnected', (replica) => {
+      this.lastKeyRefresh = 0;
+      this.emit('replicaConnected', replica);
+    });
+  }
+
+  connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  async sendRequest(req: TeeRequest, options?: RequestOptions): Promise<TeeResponse> {
+    const response = await this.inner.sendRequest(req, options);
+    // Attestations are authenticated by their document rather than a response signature
+    if (req.method === 'get_attestation' || !response.success) {
+      return strip(response);
+    }
+
+    const verify = () =>
+      this.check(response.signature, [...this.publicKeys.values()], (keys, signature) =>
+        keys.some((key) => verifyResponseSignature(req.id, response.data, signature, key))
+      );
+    let outcome = verify();
+    // The enclave may have restarted, or a replica whose key is not known yet answered
+    if (
+      (outcome === 'invalid' || outcome === 'unverifiable') &&
+      (await this.refreshPublicKeys(options))
+    ) {
+      outcome = verify();
+    }
+
+    return this.apply(req, response, outcome);
+  }
+
+  async *streamRequest(
+    req: TeeRequest,
+    options?: RequestOptions
+  ): AsyncIterableIterator<TeeResponse> {
+    if (this.publicKeys.size === 0) {
+      await this.refreshPublicKeys(options);
+    }
+    const keys = [...this.publicKeys.values()];
+    const stream = new StreamSignatureVerifier(req.id, keys);
+
+    for await (const frame of this.inner.streamRequest(req, options)) {
+      if (frame.data !== undefined) {
+        stream.addData(frame.data);
+      }
+      if (frame.stream === 'chunk') {
+        yield strip(frame);
+        continue;
+      }
+
+      // The end frame, or the only frame when the enclave did not stream
+      if (!frame.success) {
+        yield strip(frame);
+        continue;
+      }
+      const outcome = this.check(frame.signature, keys, (_keys, signature) =>
+        frame.stream === 'end'
+          ? stream.verify(signature)
+          : keys.some((key) => verifyResponseSignature(req.id, frame.data, signature, key))
+      );
+      yield this.apply(req, frame, outcome);
+    }
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.inner.getConnectionState();
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return this.inner.getProtocolInfo();
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return this.inner.getRejectedFrameStats();
+  }
+
+  setHostServices(services: HostServiceRegistry, context: HostServiceContext): void {
+    this.inner.setHostServices(services, context);
+  }
+
+  /**
+   * Most recently attested public key, if any
+   */
+  getPublicKey(): string | undefined {
+    return [...this.publicKeys.keys()].pop();
+  }
+
+  getVerificationStats(): ResponseVerificationStats {
+    return {
+      policy: this.options.policy,
+      publicKeys: [...this.publicKeys.keys()],
+      ...this.counts,
+    };
+  }
+
+  /**
+   * Outcome of checking a signature; `matches` tells whether one of the keys made it
+   */
+  private check(
+    signature: string | undefined,
+    keys: KeyObject[],
+    matches: (keys: KeyObject[], signature: string) => boolean
+  ): Outcome {
+    if (signature === undefined) {
+      return 'unsigned';
+    }
+    if (keys.length === 0) {
+      return 'unverifiable';
+    }
+    return matches(keys, signature) ? 'verified' : 'invalid';
+  }
+
+  private apply(req: TeeRequest, response: TeeResponse, outcome: Outcome): TeeResponse {
+    this.counts[outcome]++;
+    if (outcome !== 'verified') {
+      const meta = { id: req.id, method: req.method, outcome, policy: this.options.policy };
+      if (this.options.policy === 'passthrough') {
+        logger.debug('Enclave response signature not verified', meta);
+      } else {
+        logger.warn('Enclave response signature not verified', meta);
+      }
+    }
+
+    switch (this.options.policy) {
+      case 'reject':
+        if (outcome !== 'verified') {
+          throw new SignatureVerificationError(
+            `Response to ${req.method} request ${req.id} failed signature verification (${outcome})`
+          );
+        }
+        return strip(response);
+      case 'flag':
+        return { ...response, verified: outcome === 'verified' };
+      case 'passthrough':
+        return strip(response);
+    }
+  }
+
+  /**
+   * Ask the enclave for its attestation to pick up its current key. Returns
+   * whether a new key was learned; attempts are spaced out.
+   */
+  private async refreshPublicKeys(options?: RequestOptions): Promise<boolean> {
+    if (
+      !this.attestationVerifier.hasTrustedRoot() ||
+      Date.now() - this.lastKeyRefresh < KEY_REFRESH_INTERVAL_MS
+    ) {
+      return false;
+    }
+
+    const known = this.publicKeys.size;
+    this.keyRefresh ??= this.fetchPublicKey(options).finally(() => {
+      this.lastKeyRefresh = Date.now();
+      this.keyRefresh = undefined;
+    });
+    await this.keyRefresh;
+    return this.publicKeys.size > known;
+  }
+
+  private async fetchPublicKey(options?: RequestOptions): Promise<void> {
+    try {
+      const response = await this.inner.sendRequest(
+        { id: uuidv4(), method: 'get_attestation', params: {}, timestamp: Date.now() },
+        { signal: options?.signal }
+      );
+      this.learnPublicKey(this.attestedPublicKey(response));
+    } catch (error) {
+      logger.warn('Could not fetch enclave public key', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * The reported key, once the attestation document is verified and attests it
+   */
+  private attestedPublicKey(response: TeeResponse): string {
+    if (!response.success) {
+      throw new AttestationError(response.error ?? 'Enclave attestation failed');
+    }
+    const { attestation, publicKey } = (response.data ?? {}) as {
+      attestation?: unknown;
+      publicKey?: unknown;
+    };
+    if (typeof attestation !== 'string' || typeof publicKey !== 'string') {
+      throw new AttestationError('Enclave did not provide an attestation document and public key');
+    }
+    const verified = this.attestationVerifier.verify(Buffer.from(attestation, 'base64'));
+    if (!attestsPublicKey(verified, publicKey)) {
+      throw new AttestationError('Attestation document does not attest the enclave public key');
+    }
+    return publicKey;
+  }
+
+  private learnPublicKey(hex: string): void {
+    const known = this.publicKeys.get(hex);
+    if (known) {
+      // Keep the most recently attested key last
+      this.publicKeys.delete(hex);
+      this.publicKeys.set(hex, known);
+      return;
+    }
+
+    try {
+      this.publicKeys.set(hex, parsePublicKey(hex));
+    } catch (error) {
+      logger.warn('Ignoring enclave public key', { error: (error as Error).message });
+      return;
+    }
+    if (this.publicKeys.size > MAX_PUBLIC_KEYS) {
+      this.publicKeys.delete(this.publicKeys.keys().next().value as string);
+    }
+    logger.info('Learned enclave public key', { publicKey: hex });
+  }
+}
+
+/**
+ * Drop a `verified` field the host did not set itself
+ */
+function strip(response: TeeResponse): TeeResponse {
+  if (response.verified === undefined) {
+    return response;
+  }
+  const { verified: _verified, ...rest } = response;
+  return rest;
+}
@@ -0,0 +1,55 @@
+#!/bin/sh
+# Regenerates certs.json: a test CA chain for Nitro attestation documents
+# (root -> intermediate -> enclave leaf, ECDSA P-384, valid for 100 years),
+# the leaf's private key for signing test documents, and an unrelated root.
+# Certificates are stored as base64 DER; nothing here is trusted by AWS.
+set -e
+cd "$(dirname "$0")"
+out="$(pwd)/certs.json"
+work="$(mktemp -d)"
+trap 'rm -rf "$work"' EXIT
+cd "$work"
+
+cat > ext.cnf <<'CNF'
+[ca]
+basicConstraints=critical,CA:TRUE
+keyUsage=critical,keyCertSign,cRLSign
+subjectKeyIdentifier=hash
+authorityKeyIdentifier=keyid
+[leaf]
+basicConstraints=critical,CA:FALSE
+keyUsage=critical,digitalSignature
+CNF
+
+for name in root intermediate leaf untrusted; do
+  openssl ecparam -name secp384r1 -genkey -noout -out "$name.key"
+done
+
+self_signed() {
+  openssl req -x509 -new -key "$1.key" -sha384 -days 36500 -subj "/CN=$2" \
+    -addext "basicConstraints=critical,CA:TRUE" -addext "keyUsage=critical,keyCertSign,cRLSign" \
+    -outform DER -out "$1.der"
+}
+signed() {
+  openssl req -new -key "$1.key" -subj "/CN=$2" -out "$1.csr"
+  openssl x509 -req -in "$1.csr" -CA "$3.der" -CAform DER -CAkey "$3.key" -CAcreateserial \
+    -sha384 -days 36500 -extfile ext.cnf -extensions "$4" -outform DER -out "$1.der"
+}
+
+self_signed root "Test Nitro Root"
+self_signed untrusted "Untrusted Root"
+signed intermediate "Test Nitro Intermediate" root ca
+signed leaf "test-enclave-i-0123456789abcdef0" intermediate leaf
+openssl pkcs8 -topk8 -nocrypt -in leaf.key -outform DER -out leaf.pkcs8
+
+b64() { base64 < "$1" | tr -d '\n'; }
+cat > "$out" <<JSON
+{
+  "description": "Test CA for Nitro attestation documents, generated by generate.sh; not the AWS Nitro root",
+  "root": "$(b64 root.der)",
+  "intermediate": "$(b64 intermediate.der)",
+  "leaf": "$(b64 leaf.der)",
+  "leafKey": "$(b64 leaf.pkcs8)",
+  "untrustedRoot": "$(b64 untrusted.der)"
+}
+JSON
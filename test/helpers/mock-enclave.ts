@@ -110,6 +110,11 @@ export class MockEnclave {
             console.log('Mock enclave received request:', request.method);
             this.requestCount++;
 
+            if (request.method === 'export_report') {
+              this.handleStream(request).forEach((frame) => this.sendResponse(socket, frame));
+              continue;
+            }
+
             const response = this.handleRequest(request);
             this.sendResponse(socket, response);
           } catch (error) {
@@ -146,6 +151,17 @@ export class MockEnclave {
     };
 
     switch (request.method) {
+      case 'hello':
+        return {
+          ...baseResponse,
+          data: {
+            protocolVersion: '1.0',
+            encoding: 'json',
+            capabilities: ['attestation', 'signing', 'streaming'],
+            enclaveVersion: 'mock-0.1.0',
+          },
+        };
+
       case 'get_public_key':
         return {
           ...baseResponse,
@@ -217,6 +233,33 @@ export class MockEnclave {
     }
   }
 
+  /**
+   * Streamed method: one chunk per report row, then an end-of-stream frame
+   */
+  private handleStream(request: TeeRequest): TeeResponse[] {
+    const rows = Number(request.params?.rows ?? 3);
+    const frames: TeeResponse[] = [];
+
+    for (let seq = 0; seq < rows; seq++) {
+      frames.push({
+        id: request.id,
+        success: true,
+        stream: 'chunk',
+        seq,
+        data: { row: seq },
+      });
+    }
+    frames.push({
+      id: request.id,
+      success: true,
+      stream: 'end',
+      seq: rows,
+      signature: this.mockSign(`report:${rows}`),
+    });
+
+    return frames;
+  }
+
   private mockSign(data: string): string {
     // Simple mock signature: hash of data + public key
     const crypto = require('crypto');
@@ -0,0 +1,84 @@
+/**
+ * Builds Nitro attestation documents signed by the test CA in
+ * test/fixtures/nitro/certs.json
+ */
+
+import { createPrivateKey, sign } from 'crypto';
+import { Encoder, Tag } from 'cbor-x';
+import certs from '../fixtures/nitro/certs.json';
+
+export const testCa = {
+  root: Buffer.from(certs.root, 'base64'),
+  intermediate: Buffer.from(certs.intermediate, 'base64'),
+  leaf: Buffer.from(certs.leaf, 'base64'),
+  untrustedRoot: Buffer.from(certs.untrustedRoot, 'base64'),
+};
+
+const leafKey = createPrivateKey({
+  key: Buffer.from(certs.leafKey, 'base64'),
+  format: 'der',
+  type: 'pkcs8',
+});
+
+const cbor = new Encoder({
+  useRecords: false,
+  mapsAsObjects: false,
+  variableMapSize: true,
+  tagUint8Array: false,
+});
+
+export interface TestDocumentOptions {
+  moduleId?: string;
+  timestamp?: number | bigint; // Milliseconds, written as a uint64
+  pcrs?: Record<number, Buffer>;
+  certificate?: Buffer;
+  cabundle?: Buffer[];
+  publicKey?: Buffer | null;
+  userData?: Buffer | null;
+  nonce?: Buffer | null;
+  algorithm?: number; // COSE alg in the protected header (default -35, ES384)
+  tagged?: boolean; // Wrap in CBOR tag 18 (default true)
+  tamper?: (payload: Buffer) => Buffer; // Change the payload after signing
+}
+
+export function defaultPcrs(): Record<number, Buffer> {
+  return {
+    0: Buffer.alloc(48, 0x01),
+    1: Buffer.alloc(48, 0x02),
+    2: Buffer.alloc(48, 0x03),
+    8: Buffer.alloc(48, 0x00),
+  };
+}
+
+/**
+ * A COSE_Sign1 attestation document signed with the test leaf key
+ */
+export function createTestAttestation(options: TestDocumentOptions = {}): Buffer {
+  const pcrs = options.pcrs ?? defaultPcrs();
+  const payload = cbor.encode(
+    new Map<string, unknown>([
+      ['module_id', options.moduleId ?? 'i-0123456789abcdef0-enc0123456789abcdef'],
+      ['digest', 'SHA384'],
+      // A uint64, as the Nitro hypervisor writes it
+      ['timestamp', BigInt(options.timestamp ?? Date.now())],
+      ['pcrs', new Map(Object.entries(pcrs).map(([index, value]) => [Number(index), value]))],
+      ['certificate', options.certificate ?? testCa.leaf],
+      ['cabundle', options.cabundle ?? [testCa.root, testCa.intermediate]],
+      ['public_key', options.publicKey ?? null],
+      ['user_data', options.userData ?? null],
+      ['nonce', options.nonce ?? null],
+    ])
+  );
+  const protectedHeader = cbor.encode(new Map([[1, options.algorithm ?? -35]]));
+
+  const sigStructure = cbor.encode(['Signature1', protectedHeader, Buffer.alloc(0), payload]);
+  const signature = sign('sha384', sigStructure, { key: leafKey, dsaEncoding: 'ieee-p1363' });
+
+  const cose = [
+    protectedHeader,
+    new Map(),
+    options.tamper ? options.tamper(payload) : payload,
+    signature,
+  ];
+  return cbor.encode(options.tagged === false ? cose : new Tag(cose, 18));
+}
@@ -0,0 +1,75 @@
+/**
+ * In-memory SocketClient for unit tests of the layers in front of a client
+ *
+ * Requests are recorded and answered by `respond`; tests replace it or
+ * override sendRequest. Connection events are emitted by the test itself.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../../src/types';
+import { SocketClient } from '../../src/vsock/client';
+
+export class StubClient extends EventEmitter implements SocketClient {
+  connected = true;
+  requests: TeeRequest[] = [];
+  respond = (req: TeeRequest): TeeResponse => ({ id: req.id, success: true });
+
+  connect(): Promise<void> {
+    this.connected = true;
+    return Promise.resolve();
+  }
+
+  sendRequest(req: TeeRequest): Promise<TeeResponse> {
+    this.requests.push(req);
+    return Promise.resolve(this.respond(req));
+  }
+
+  async *streamRequest(req: TeeRequest): AsyncIterableIterator<TeeResponse> {
+    yield await this.sendRequest(req);
+  }
+
+  disconnect(): Promise<void> {
+    this.connected = false;
+    return Promise.resolve();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connected ? 'connected' : 'disconnected';
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return undefined;
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return { oversized: 0, undecodable: 0, malformed: 0 };
+  }
+
+  setHostServices(): void {
+    // Enclave-initiated requests are not simulated
+  }
+
+  /**
+   * Methods of the requests sent so far, in order
+   */
+  get methods(): string[] {
+    return this.requests.map((req) => req.method);
+  }
+}
+
+/**
+ * Let pending promise callbacks and listeners run
+ */
+export async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
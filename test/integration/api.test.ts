@@ -8,15 +8,13 @@ import { Application } from 'express';
 import { MockEnclave } from '../helpers/mock-enclave';
 import { createServer } from '../../src/api/server';
 import { UnixSocketClient } from '../../src/vsock/client';
+import { EnclaveRegistry } from '../../src/enclaves/registry';
 import { L3Client } from '../../src/l3/client';
 import { AuthModule } from '../../src/auth';
 import { ApiConfig, VsockConfig, L3Config, AuthConfig } from '../../src/types';
 
 // Helper to wait for socket to be ready
-async function waitForSocket(
-  socketPath: string,
-  timeoutMs: number = 5000
-): Promise<void> {
+async function waitForSocket(socketPath: string, timeoutMs: number = 5000): Promise<void> {
   const startTime = Date.now();
   const fs = require('fs');
 
@@ -87,11 +85,15 @@ describe('API Integration Tests', () => {
       tlsEnabled: false,
     };
 
+    // The first TAPP is the default; both are served by the same mock enclave
+    const enclaves = new EnclaveRegistry()
+      .add('test-tapp-123', vsockClient)
+      .add('test-tapp-456', vsockClient);
+
     app = createServer(apiConfig, {
-      vsockClient,
+      enclaves,
       l3Client,
       authModule,
-      tappId: 'test-tapp-123',
     });
   }, 30000); // 30 second timeout for setup
 
@@ -141,6 +143,34 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('GET /api/v1/enclave', () => {
+    it('should report the enclave public key and its fingerprint', async () => {
+      const response = await request(app).get('/api/v1/tapps/test-tapp-456/enclave');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        tappId: 'test-tapp-456',
+        enclaveConnectionState: 'connected',
+        publicKey: expect.stringMatching(/^0x[a-f0-9]+$/),
+        fingerprint: expect.stringMatching(/^[a-f0-9]{64}$/),
+        // The mock enclave's attestation is not a verifiable Nitro document
+        source: 'get_public_key',
+        firstSeen: expect.any(String),
+        keyChanges: 0,
+      });
+
+      const status = await request(app).get('/api/v1/tapps/test-tapp-456/status');
+      expect(status.body.enclavePublicKey).toBe(response.body.publicKey);
+      expect(status.body.enclaveKey).toMatchObject({ fingerprint: response.body.fingerprint });
+    });
+
+    it('should return 404 for an unknown TAPP', async () => {
+      const response = await request(app).get('/api/v1/tapps/no-such-tapp/enclave');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('POST /api/v1/request', () => {
     it('should forward ping request to enclave', async () => {
       const response = await request(app).post('/api/v1/request').send({
@@ -232,6 +262,56 @@ describe('API Integration Tests', () => {
       expect(mockEnclave.getRequestCount()).toBe(1);
     });
 
+    it('should stream multi-frame responses as NDJSON when requested', async () => {
+      const response = await request(app)
+        .post('/api/v1/request')
+        .set('Accept', 'application/x-ndjson')
+        .send({
+          method: 'export_report',
+          params: { rows: 2 },
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/application\/x-ndjson/);
+
+      const lines = response.text
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(lines).toEqual([
+        expect.objectContaining({ stream: 'chunk', seq: 0, data: { row: 0 } }),
+        expect.objectContaining({ stream: 'chunk', seq: 1, data: { row: 1 } }),
+        expect.objectContaining({ stream: 'end', seq: 2, success: true }),
+      ]);
+    });
+
+    it('should route requests by TAPP from the path or the body', async () => {
+      const byPath = await request(app).post('/api/v1/tapps/test-tapp-456/request').send({
+        method: 'ping',
+        params: {},
+      });
+      const byBody = await request(app).post('/api/v1/request').send({
+        method: 'ping',
+        params: {},
+        tappId: 'test-tapp-456',
+      });
+
+      expect(byPath.status).toBe(200);
+      expect(byBody.status).toBe(200);
+      expect(mockEnclave.getRequestCount()).toBe(2);
+    });
+
+    it('should return 404 for a TAPP without an enclave', async () => {
+      const response = await request(app).post('/api/v1/tapps/unknown-tapp/request').send({
+        method: 'ping',
+        params: {},
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toBe('No enclave serves TAPP unknown-tapp');
+      expect(mockEnclave.getRequestCount()).toBe(0);
+    });
+
     it('should validate request format', async () => {
       const response = await request(app).post('/api/v1/request').send({
         // Missing method field
@@ -292,6 +372,49 @@ describe('API Integration Tests', () => {
     });
   });
 
+  describe('GET /api/v1/attest', () => {
+    it('should list no attestations before any was submitted', async () => {
+      const response = await request(app).get('/api/v1/attest');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ attestations: [] });
+    });
+
+    it('should reject an unknown state filter', async () => {
+      const response = await request(app).get('/api/v1/attest?state=done');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an attestation that is not tracked', async () => {
+      const response = await request(app).get('/api/v1/attest/att-unknown');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Unknown attestation');
+    });
+  });
+
+  describe('GET /api/v1/attestation', () => {
+    it('should report that an enclave without Nitro hardware cannot attest', async () => {
+      const response = await request(app).get('/api/v1/tapps/test-tapp-456/attestation');
+
+      expect(response.status).toBe(501);
+      expect(response.body.error).toBe('Attestation not supported');
+    });
+  });
+
+  describe('POST /api/v1/attestation/challenge', () => {
+    it('should reject a nonce that is not hex', async () => {
+      const response = await request(app)
+        .post('/api/v1/attestation/challenge')
+        .send({ nonce: 'not-hex' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid request');
+      expect(mockEnclave.getRequestCount()).toBe(0);
+    });
+  });
+
   describe('Request ID Tracking', () => {
     it('should generate unique request IDs', async () => {
       const response1 = await request(app).post('/api/v1/request').send({
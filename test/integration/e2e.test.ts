@@ -9,6 +9,7 @@ import nock from 'nock';
 import { MockEnclave } from '../helpers/mock-enclave';
 import { createServer } from '../../src/api/server';
 import { UnixSocketClient } from '../../src/vsock/client';
+import { EnclaveRegistry } from '../../src/enclaves/registry';
 import { L3Client } from '../../src/l3/client';
 import { AuthModule } from '../../src/auth';
 import { ApiConfig, VsockConfig, L3Config, AuthConfig } from '../../src/types';
@@ -89,11 +90,15 @@ describe('End-to-End Tests', () => {
       tlsEnabled: false,
     };
 
+    const enclaves = new EnclaveRegistry()
+      .add('test-tapp-e2e', vsockClient)
+      .add('test-tapp-workflow', vsockClient)
+      .add('test-tapp-error', vsockClient);
+
     app = createServer(apiConfig, {
-      vsockClient,
+      enclaves,
       l3Client,
       authModule,
-      tappId: 'test-tapp-e2e',
     });
   }, 30000); // 30 second timeout for setup
 
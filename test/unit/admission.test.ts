@@ -0,0 +1,169 @@
+/**
+ * Unit tests for enclave admission control
+ */
+
+import { AdmissionController, AdmissionRelease } from '../../src/utils/admission';
+import { AdmissionSocketClient } from '../../src/vsock/admission';
+import { TeeRequest, TeeResponse } from '../../src/types';
+import { QueueFullError, QueueTimeoutError } from '../../src/utils/errors';
+import { flush, StubClient } from '../helpers/stub-client';
+
+describe('AdmissionController', () => {
+  it('should admit calls up to maxInflight and queue the rest', async () => {
+    const admission = new AdmissionController({ maxInflight: 2, maxQueue: 5 });
+
+    const first = await admission.acquire('execute');
+    await admission.acquire('execute');
+    let third: AdmissionRelease | undefined;
+    void admission.acquire('execute').then((release) => (third = release));
+    await flush();
+
+    expect(third).toBeUndefined();
+    expect(admission.getStats()).toMatchObject({ inflight: 2, queued: 1 });
+
+    first();
+    await flush();
+    expect(third).toBeDefined();
+    expect(admission.getStats()).toMatchObject({ inflight: 2, queued: 0, admitted: 3 });
+  });
+
+  it('should refuse calls with QueueFullError once the queue is full', async () => {
+    const admission = new AdmissionController({ maxInflight: 1, maxQueue: 1 });
+    await admission.acquire('execute');
+    void admission.acquire('execute').catch(() => undefined);
+
+    await expect(admission.acquire('execute')).rejects.toThrow(QueueFullError);
+    expect(admission.getStats().rejected).toBe(1);
+  });
+
+  it('should fail queued calls with QueueTimeoutError after the wait timeout', async () => {
+    const admission = new AdmissionController({
+      maxInflight: 1,
+      queueTimeoutMs: 20,
+      retryAfterMs: 2000,
+    });
+    await admission.acquire('execute');
+
+    const error = await admission.acquire('execute').catch((e: QueueTimeoutError) => e);
+
+    expect(error).toBeInstanceOf(QueueTimeoutError);
+    expect((error as QueueTimeoutError).retryAfterMs).toBe(2000);
+    expect(admission.getStats()).toMatchObject({ queued: 0, timedOut: 1 });
+  });
+
+  it('should apply per-method limits without blocking other methods', async () => {
+    const admission = new AdmissionController({
+      maxInflight: 10,
+      methodLimits: { get_attestation: 1 },
+    });
+
+    const attestation = await admission.acquire('get_attestation');
+    let second: AdmissionRelease | undefined;
+    void admission.acquire('get_attestation').then((release) => (second = release));
+    await admission.acquire('ping');
+    await flush();
+
+    expect(second).toBeUndefined();
+    expect(admission.getStats().methods).toMatchObject({
+      get_attestation: { inflight: 1, queued: 1, limit: 1 },
+      ping: { inflight: 1, queued: 0 },
+    });
+
+    attestation();
+    await flush();
+    expect(second).toBeDefined();
+  });
+
+  it('should drop queued calls whose caller gave up', async () => {
+    const admission = new AdmissionController({ maxInflight: 1 });
+    await admission.acquire('execute');
+    const controller = new AbortController();
+
+    const queued = admission.acquire('execute', controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toThrow('Request execute aborted while queued');
+    expect(admission.getStats().queued).toBe(0);
+  });
+
+  it('should ignore repeated releases of the same slot', async () => {
+    const admission = new AdmissionController({ maxInflight: 2 });
+    const release = await admission.acquire('execute');
+    await admission.acquire('execute');
+
+    release();
+    release();
+
+    expect(admission.getStats().inflight).toBe(1);
+  });
+});
+
+class HeldClient extends StubClient {
+  pending: Array<(response: TeeResponse) => void> = [];
+
+  override sendRequest(req: TeeRequest): Promise<TeeResponse> {
+    this.requests.push(req);
+    return new Promise((resolve) =>
+      this.pending.push(() => resolve({ id: req.id, success: true }))
+    );
+  }
+
+  override async *streamRequest(req: TeeRequest): AsyncIterableIterator<TeeResponse> {
+    yield { id: req.id, success: true, stream: 'chunk', seq: 0 };
+    yield await this.sendRequest(req);
+  }
+
+  answerAll(): void {
+    this.pending.splice(0).forEach((resolve) => resolve({ id: '', success: true }));
+  }
+}
+
+describe('AdmissionSocketClient', () => {
+  const request = (id: string): TeeRequest => ({
+    id,
+    method: 'execute',
+    params: {},
+    timestamp: 0,
+  });
+  let stub: HeldClient;
+  let client: AdmissionSocketClient;
+
+  beforeEach(() => {
+    stub = new HeldClient();
+    client = new AdmissionSocketClient(stub, {
+      maxInflight: 1,
+      maxQueue: 1,
+    });
+  });
+
+  it('should hold back requests beyond the in-flight limit', async () => {
+    const first = client.sendRequest(request('a'));
+    const second = client.sendRequest(request('b'));
+    await flush();
+
+    expect(stub.pending).toHaveLength(1);
+    await expect(client.sendRequest(request('c'))).rejects.toThrow(QueueFullError);
+
+    stub.answerAll();
+    await first;
+    await flush();
+    expect(stub.pending).toHaveLength(1);
+    stub.answerAll();
+    await second;
+    expect(client.getAdmissionStats()).toMatchObject({ inflight: 0, admitted: 2, rejected: 1 });
+  });
+
+  it('should keep the slot for the whole stream', async () => {
+    const frames = client.streamRequest(request('s'));
+    await frames.next();
+
+    expect(client.getAdmissionStats().inflight).toBe(1);
+
+    const end = frames.next();
+    await flush();
+    stub.answerAll();
+    await end;
+    await frames.next();
+    expect(client.getAdmissionStats().inflight).toBe(0);
+  });
+});
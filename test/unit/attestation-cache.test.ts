@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the cached enclave attestation
+ */
+
+import { X509Certificate } from 'crypto';
+import { AttestationCache } from '../../src/attestation/cache';
+import { NitroAttestationVerifier } from '../../src/attestation/nitro';
+import { TeeRequest, TeeResponse } from '../../src/types';
+import { AttestationError } from '../../src/utils/errors';
+import { createTestAttestation, testCa } from '../helpers/nitro';
+import { flush, StubClient } from '../helpers/stub-client';
+
+const PUBLIC_KEY = '0x04' + 'ab'.repeat(64);
+
+class AttestingClient extends StubClient {
+  attests = true;
+  document = (): Buffer =>
+    createTestAttestation({ publicKey: Buffer.from(PUBLIC_KEY.slice(2), 'hex') });
+
+  override respond = (req: TeeRequest): TeeResponse => ({
+    id: req.id,
+    success: true,
+    data: this.attests
+      ? {
+          attestation: this.document().toString('base64'),
+          certificates: [testCa.root.toString('base64')],
+          publicKey: PUBLIC_KEY,
+        }
+      : { publicKey: PUBLIC_KEY },
+  });
+}
+
+describe('AttestationCache', () => {
+  const verifier = new NitroAttestationVerifier({
+    rootCertificate: new X509Certificate(testCa.root),
+  });
+  let stub: AttestingClient;
+  let cache: AttestationCache;
+
+  beforeEach(() => {
+    stub = new AttestingClient();
+    cache = new AttestationCache('tapp-a', stub, verifier, {
+      ttlMs: 60000,
+      refreshIntervalMs: 30000,
+    });
+  });
+
+  afterEach(() => {
+    cache.stop();
+    jest.useRealTimers();
+  });
+
+  it('should serve the verified attestation from the cache until it expires', async () => {
+    const first = await cache.get();
+    const second = await cache.get();
+
+    expect(stub.requests).toHaveLength(1);
+    expect(second).toBe(first);
+    expect(first).toMatchObject({
+      publicKey: PUBLIC_KEY,
+      certificateChain: [testCa.root],
+    });
+    expect(first!.expiresAt.getTime() - first!.fetchedAt.getTime()).toBe(60000);
+    expect(first!.attestation.pcrs[0]).toBe('01'.repeat(48));
+    expect(cache.peek(new Date(first!.expiresAt.getTime() + 1))).toBeUndefined();
+  });
+
+  it('should fetch again once the cached attestation expired', async () => {
+    cache = new AttestationCache('tapp-a', stub, verifier, {
+      ttlMs: 1,
+    });
+
+    await cache.get();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cache.get();
+
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('should share one request between concurrent fetches', async () => {
+    await Promise.all([cache.get(), cache.get()]);
+
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('should not cache documents that fail verification', async () => {
+    stub.document = () =>
+      createTestAttestation({ cabundle: [testCa.untrustedRoot, testCa.intermediate] });
+
+    await expect(cache.get()).rejects.toThrow(AttestationError);
+    expect(cache.peek()).toBeUndefined();
+  });
+
+  it('should not cache documents that attest no key', async () => {
+    stub.document = () => createTestAttestation();
+
+    await expect(cache.get()).rejects.toThrow(/does not attest the public key/);
+    expect(cache.peek()).toBeUndefined();
+  });
+
+  it('should resolve to undefined when the enclave cannot attest', async () => {
+    stub.attests = false;
+
+    await expect(cache.get()).resolves.toBeUndefined();
+  });
+
+  it('should refresh in the background while started and drop the entry on disconnect', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    cache.start();
+    await flush();
+    expect(stub.requests).toHaveLength(1);
+
+    jest.advanceTimersByTime(30000);
+    await flush();
+    expect(stub.requests).toHaveLength(2);
+
+    stub.connected = false;
+    stub.emit('disconnected');
+    jest.advanceTimersByTime(30000);
+    await flush();
+    expect(stub.requests).toHaveLength(2);
+    expect(cache.peek()).toBeUndefined();
+
+    stub.connected = true;
+    stub.emit('connected');
+    await flush();
+    expect(stub.requests).toHaveLength(3);
+    expect(cache.peek()).toBeDefined();
+  });
+
+  it('should refresh when a replica comes back', async () => {
+    cache.start();
+    await flush();
+
+    stub.emit('replicaConnected', 'replica-1');
+    await flush();
+
+    expect(stub.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Unit tests for the replica load balancer
+ */
+
+import { EventEmitter } from 'events';
+import { BalancedSocketClient, BalancerOptions } from '../../src/vsock/balancer';
+import { SocketClient } from '../../src/vsock/client';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../../src/types';
+import { MeasurementPolicyError, VsocketError } from '../../src/utils/errors';
+
+class FakeReplica extends EventEmitter implements SocketClient {
+  connected = false;
+  failConnect = false;
+  failRequests = false;
+  failPing = false;
+  refuse = false;
+  hold = false;
+  sent: TeeRequest[] = [];
+  private pending: Array<(response: TeeResponse) => void> = [];
+
+  async connect(): Promise<void> {
+    if (this.failConnect) {
+      throw new VsocketError('Connection refused');
+    }
+    this.connected = true;
+  }
+
+  sendRequest(req: TeeRequest): Promise<TeeResponse> {
+    if (this.refuse) {
+      return Promise.reject(new MeasurementPolicyError('Enclave for TAPP t is not approved'));
+    }
+    if (req.method === 'ping') {
+      return this.failPing
+        ? Promise.reject(new VsocketError('Request ping timed out'))
+        : Promise.resolve({ id: req.id, success: true });
+    }
+    this.sent.push(req);
+    if (this.failRequests) {
+      return Promise.reject(new VsocketError('Write failed: EPIPE'));
+    }
+    if (this.hold) {
+      return new Promise((resolve) => this.pending.push(resolve));
+    }
+    return Promise.resolve({ id: req.id, success: true });
+  }
+
+  async *streamRequest(req: TeeRequest): AsyncIterableIterator<TeeResponse> {
+    yield await this.sendRequest(req);
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connected ? 'connected' : 'disconnected';
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return undefined;
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return { oversized: 0, undecodable: 0, malformed: 0 };
+  }
+
+  setHostServices(): void {
+    // Not exercised by the balancer tests
+  }
+
+  answerAll(): void {
+    this.pending.splice(0).forEach((resolve, i) => resolve({ id: `${i}`, success: true }));
+  }
+}
+
+function makeRequest(id: string): TeeRequest {
+  return { id, method: 'execute', params: {}, timestamp: Date.now() };
+}
+
+describe('BalancedSocketClient', () => {
+  const options: BalancerOptions = {
+    strategy: 'round-robin',
+    probeIntervalMs: 60000,
+    probeTimeoutMs: 100,
+    ejectAfterFailures: 2,
+  };
+  let replicas: FakeReplica[];
+  let balancer: BalancedSocketClient;
+
+  function createBalancer(overrides: Partial<BalancerOptions> = {}): BalancedSocketClient {
+    return new BalancedSocketClient(
+      replicas.map((client, i) => ({ name: `r${i}`, client })),
+      { ...options, ...overrides }
+    );
+  }
+
+  beforeEach(() => {
+    replicas = [new FakeReplica(), new FakeReplica(), new FakeReplica()];
+  });
+
+  afterEach(async () => {
+    await balancer?.disconnect();
+  });
+
+  it('should rotate requests round-robin', async () => {
+    balancer = createBalancer();
+    await balancer.connect();
+
+    for (let i = 0; i < 6; i++) {
+      await balancer.sendRequest(makeRequest(`${i}`));
+    }
+
+    expect(replicas.map((replica) => replica.sent.length)).toEqual([2, 2, 2]);
+  });
+
+  it('should prefer the replica with the fewest requests in flight', async () => {
+    balancer = createBalancer({ strategy: 'least-inflight' });
+    await balancer.connect();
+    replicas.forEach((replica) => (replica.hold = true));
+
+    const first = balancer.sendRequest(makeRequest('a'));
+    const second = balancer.sendRequest(makeRequest('b'));
+    replicas[0]!.answerAll();
+    await first;
+    const third = balancer.sendRequest(makeRequest('c'));
+
+    expect(replicas.map((replica) => replica.sent.length)).toEqual([1, 1, 1]);
+    const fourth = balancer.sendRequest(makeRequest('d'));
+    expect(replicas[0]!.sent).toHaveLength(2);
+
+    replicas.forEach((replica) => replica.answerAll());
+    await Promise.all([second, third, fourth]);
+  });
+
+  it('should eject a replica after repeated transport errors', async () => {
+    balancer = createBalancer();
+    await balancer.connect();
+    replicas[1]!.failRequests = true;
+
+    for (let i = 0; i < 6; i++) {
+      await balancer.sendRequest(makeRequest(`${i}`)).catch(() => undefined);
+    }
+
+    // Two failures eject r1; the remaining requests go to r0 and r2
+    expect(replicas[1]!.sent).toHaveLength(2);
+    expect(balancer.getStats().replicas[1]).toMatchObject({
+      name: 'r1',
+      state: 'ejected',
+      ejections: 1,
+      lastError: 'Write failed: EPIPE',
+    });
+    expect(balancer.getStats().active).toBe(2);
+  });
+
+  it('should not count requests abandoned by the caller', async () => {
+    balancer = createBalancer({ ejectAfterFailures: 1 });
+    await balancer.connect();
+    replicas[0]!.failRequests = true;
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      balancer.sendRequest(makeRequest('a'), { signal: controller.signal })
+    ).rejects.toThrow(VsocketError);
+
+    expect(balancer.getStats().replicas[0]).toMatchObject({ state: 'active', failures: 0 });
+  });
+
+  it('should eject a replica refused by its allowlist and retry on another', async () => {
+    balancer = createBalancer();
+    await balancer.connect();
+
+    replicas[0]!.refuse = true;
+    await expect(balancer.sendRequest(makeRequest('a'))).resolves.toMatchObject({ success: true });
+    expect(replicas[1]!.sent).toHaveLength(1);
+    expect(balancer.getStats().replicas[0]).toMatchObject({
+      state: 'ejected',
+      lastError: 'Enclave for TAPP t is not approved',
+    });
+
+    // Stays out until it is approved
+    await balancer.probeAll();
+    expect(balancer.getStats().replicas[0]!.state).toBe('ejected');
+    replicas[0]!.refuse = false;
+    await balancer.probeAll();
+    expect(balancer.getStats().replicas[0]!.state).toBe('active');
+  });
+
+  it('should fail once every replica is refused by its allowlist', async () => {
+    balancer = createBalancer();
+    await balancer.connect();
+
+    replicas.forEach((replica) => (replica.refuse = true));
+    await expect(balancer.sendRequest(makeRequest('a'))).rejects.toThrow(MeasurementPolicyError);
+    expect(balancer.getStats().active).toBe(0);
+  });
+
+  it('should eject on a failed health ping and reinstate after probing', async () => {
+    balancer = createBalancer();
+    await balancer.connect();
+
+    replicas[2]!.failPing = true;
+    await balancer.probeAll();
+    expect(balancer.getStats().replicas[2]!.state).toBe('ejected');
+
+    replicas[2]!.failPing = false;
+    await balancer.probeAll();
+    expect(balancer.getStats().replicas[2]).toMatchObject({ state: 'active', failures: 0 });
+  });
+
+  it('should bring replicas that were down at startup in once they connect', async () => {
+    replicas[0]!.failConnect = true;
+    balancer = createBalancer();
+    await balancer.connect();
+
+    expect(balancer.getStats().replicas[0]!.state).toBe('ejected');
+
+    replicas[0]!.failConnect = false;
+    await balancer.probeAll();
+
+    expect(balancer.getStats()).toMatchObject({ active: 3 });
+  });
+
+  it('should report the balancer as disconnected and reconnecting once every replica is ejected', async () => {
+    balancer = createBalancer();
+    await balancer.connect();
+    const disconnected = jest.fn();
+    const reconnecting = jest.fn();
+    balancer.on('disconnected', disconnected);
+    balancer.on('reconnecting', reconnecting);
+
+    replicas.forEach((replica) => (replica.failPing = true));
+    await balancer.probeAll();
+
+    expect(balancer.isConnected()).toBe(false);
+    expect(balancer.getConnectionState()).toBe('reconnecting');
+    expect(disconnected).toHaveBeenCalledTimes(1);
+    expect(reconnecting).toHaveBeenCalled();
+    await expect(balancer.sendRequest(makeRequest('a'))).rejects.toThrow(
+      'No healthy enclave replica available'
+    );
+  });
+
+  it('should signal each replica that becomes usable again', async () => {
+    balancer = createBalancer();
+    const replicaConnected = jest.fn();
+    balancer.on('replicaConnected', replicaConnected);
+    await balancer.connect();
+    expect(replicaConnected.mock.calls).toEqual([['r0'], ['r1'], ['r2']]);
+    replicaConnected.mockClear();
+
+    replicas[1]!.failPing = true;
+    await balancer.probeAll();
+    expect(replicaConnected).not.toHaveBeenCalled();
+
+    replicas[1]!.failPing = false;
+    await balancer.probeAll();
+    expect(replicaConnected.mock.calls).toEqual([['r1']]);
+  });
+
+  it('should fail to connect when every replica fails', async () => {
+    replicas.forEach((replica) => (replica.failConnect = true));
+    balancer = createBalancer();
+
+    await expect(balancer.connect()).rejects.toThrow('Failed to connect to any enclave replica');
+  });
+});
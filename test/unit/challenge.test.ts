@@ -0,0 +1,126 @@
+/**
+ * Unit tests for nonce-bound attestation challenges
+ */
+
+import { X509Certificate } from 'crypto';
+import { NitroAttestationVerifier } from '../../src/attestation/nitro';
+import { parseNonce, requestFreshAttestation } from '../../src/attestation/challenge';
+import { TeeRequest, TeeResponse } from '../../src/types';
+import { AttestationError, ValidationError } from '../../src/utils/errors';
+import { TestDocumentOptions, createTestAttestation, testCa } from '../helpers/nitro';
+import { StubClient } from '../helpers/stub-client';
+
+const PUBLIC_KEY = '04' + 'ab'.repeat(64);
+
+class AttestingClient extends StubClient {
+  attests = true;
+  // Document for the nonce the enclave was asked to attest
+  document = (nonce: Buffer, options: TestDocumentOptions = {}): Buffer =>
+    createTestAttestation({ nonce, publicKey: Buffer.from(PUBLIC_KEY, 'hex'), ...options });
+  options: TestDocumentOptions = {};
+
+  override respond = (req: TeeRequest): TeeResponse => {
+    const nonce = Buffer.from((req.params as { nonce: string }).nonce, 'hex');
+    return {
+      id: req.id,
+      success: true,
+      data: this.attests
+        ? {
+            attestation: this.document(nonce, this.options).toString('base64'),
+            certificates: [testCa.root.toString('base64')],
+            publicKey: '0x' + PUBLIC_KEY,
+          }
+        : { publicKey: '0x' + PUBLIC_KEY },
+    };
+  };
+}
+
+describe('parseNonce', () => {
+  it('should accept hex with or without 0x', () => {
+    expect(parseNonce('0xc0ffee')).toEqual(Buffer.from('c0ffee', 'hex'));
+    expect(parseNonce('C0FFEE')).toEqual(Buffer.from('c0ffee', 'hex'));
+    expect(parseNonce(undefined)).toBeUndefined();
+  });
+
+  it('should reject nonces that are not hex or too long', () => {
+    for (const nonce of ['', 'xyz', 'abc', 42, 'ab'.repeat(513)]) {
+      expect(() => parseNonce(nonce)).toThrow(ValidationError);
+    }
+  });
+});
+
+describe('requestFreshAttestation', () => {
+  const verifier = new NitroAttestationVerifier({
+    rootCertificate: new X509Certificate(testCa.root),
+  });
+  let stub: AttestingClient;
+  const fetch = (nonce?: Buffer) => requestFreshAttestation(stub, verifier, nonce);
+
+  beforeEach(() => {
+    stub = new AttestingClient();
+  });
+
+  it('should request the attestation over the given nonce', async () => {
+    const nonce = Buffer.from('dapp-challenge');
+
+    const fresh = await fetch(nonce);
+
+    expect(stub.requests[0]).toMatchObject({
+      method: 'get_attestation',
+      params: { nonce: nonce.toString('hex') },
+    });
+    expect(fresh).toMatchObject({
+      nonce,
+      publicKey: '0x' + PUBLIC_KEY,
+      certificateChain: [testCa.root],
+    });
+    expect(fresh?.attestation.nonce).toEqual(nonce);
+  });
+
+  it('should pick a random nonce when none is given', async () => {
+    const first = await fetch();
+    const second = await fetch();
+
+    expect(first?.nonce).toHaveLength(32);
+    expect(first?.nonce.equals(second!.nonce)).toBe(false);
+  });
+
+  it('should reject a replayed document carrying another nonce', async () => {
+    const replayed = createTestAttestation({ nonce: Buffer.from('earlier') });
+    stub.document = () => replayed;
+
+    await expect(fetch()).rejects.toThrow(
+      'Attestation document nonce does not match the challenge'
+    );
+  });
+
+  it('should reject a document without a nonce', async () => {
+    stub.document = () => createTestAttestation();
+
+    await expect(fetch()).rejects.toThrow(AttestationError);
+  });
+
+  it('should reject a document produced before the challenge', async () => {
+    stub.options = { timestamp: Date.now() - 2 * 60 * 1000 };
+
+    await expect(fetch()).rejects.toThrow('Attestation document predates the challenge');
+  });
+
+  it('should reject a document attesting another key', async () => {
+    stub.options = { publicKey: Buffer.from('04' + 'cd'.repeat(64), 'hex') };
+
+    await expect(fetch()).rejects.toThrow(/does not attest the public key/);
+  });
+
+  it('should reject a document that attests no key', async () => {
+    stub.options = { publicKey: null };
+
+    await expect(fetch()).rejects.toThrow(/does not attest the public key/);
+  });
+
+  it('should resolve to undefined when the enclave cannot attest', async () => {
+    stub.attests = false;
+
+    await expect(fetch()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for the circuit breaker and the enclave client wrapped by it
+ */
+
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { CircuitBreakerSocketClient } from '../../src/vsock/breaker';
+import { TeeRequest, TeeResponse } from '../../src/types';
+import { CircuitOpenError, EnclaveTimeoutError } from '../../src/utils/errors';
+import { StubClient } from '../helpers/stub-client';
+
+const options = {
+  failureRateThreshold: 0.5,
+  minimumRequests: 4,
+  windowMs: 10000,
+  cooldownMs: 5000,
+  halfOpenMaxCalls: 1,
+};
+
+const succeed = () => Promise.resolve('ok');
+const fail = () => Promise.reject(new Error('boom'));
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  async function record(breaker: CircuitBreaker, outcomes: boolean[]): Promise<void> {
+    for (const ok of outcomes) {
+      await breaker.execute(ok ? succeed : fail).catch(() => undefined);
+    }
+  }
+
+  it('should stay closed until the minimum number of calls is seen', async () => {
+    const breaker = new CircuitBreaker('test', options);
+
+    await record(breaker, [false, false, false]);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should open once the failure rate reaches the threshold', async () => {
+    const breaker = new CircuitBreaker('test', options);
+
+    await record(breaker, [true, true, false, false]);
+
+    expect(breaker.getState()).toBe('open');
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+    expect(breaker.getStats()).toMatchObject({ state: 'open', opens: 1, retryAfterMs: 5000 });
+  });
+
+  it('should report the remaining cooldown on fast failures', async () => {
+    const breaker = new CircuitBreaker('test', options);
+    await record(breaker, [false, false, false, false]);
+    now += 2000;
+
+    const error = await breaker.execute(succeed).catch((e: CircuitOpenError) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAfterMs).toBe(3000);
+  });
+
+  it('should forget outcomes that fall out of the window', async () => {
+    const breaker = new CircuitBreaker('test', options);
+    await record(breaker, [false, false, false]);
+    now += 11000;
+
+    await record(breaker, [true, true, true, false]);
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStats()).toMatchObject({ successes: 3, failures: 1 });
+  });
+
+  it('should close after a successful trial call once the cooldown has passed', async () => {
+    const breaker = new CircuitBreaker('test', options);
+    await record(breaker, [false, false, false, false]);
+    now += 5000;
+
+    expect(breaker.getState()).toBe('half-open');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  it('should reopen when the trial call fails', async () => {
+    const breaker = new CircuitBreaker('test', options);
+    await record(breaker, [false, false, false, false]);
+    now += 5000;
+
+    await record(breaker, [false]);
+
+    expect(breaker.getStats()).toMatchObject({ state: 'open', opens: 2, retryAfterMs: 5000 });
+  });
+
+  it('should allow only one trial call at a time while half-open', async () => {
+    const breaker = new CircuitBreaker('test', options);
+    await record(breaker, [false, false, false, false]);
+    now += 5000;
+
+    let finish!: () => void;
+    const trial = breaker.execute(() => new Promise<void>((resolve) => (finish = resolve)));
+
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+    finish();
+    await trial;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should not count errors the caller marks as non-failures', async () => {
+    const breaker = new CircuitBreaker('test', options);
+
+    for (let i = 0; i < 4; i++) {
+      await breaker.execute(fail, () => false).catch(() => undefined);
+    }
+
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+});
+
+class FailingClient extends StubClient {
+  error?: Error;
+  response: TeeResponse = { id: 'x', success: true };
+
+  override sendRequest(req: TeeRequest): Promise<TeeResponse> {
+    this.requests.push(req);
+    return this.error ? Promise.reject(this.error) : Promise.resolve(this.response);
+  }
+}
+
+describe('CircuitBreakerSocketClient', () => {
+  const request: TeeRequest = { id: 'r', method: 'execute', params: {}, timestamp: 0 };
+  let stub: FailingClient;
+  let client: CircuitBreakerSocketClient;
+
+  beforeEach(() => {
+    stub = new FailingClient();
+    client = new CircuitBreakerSocketClient(stub, options);
+  });
+
+  it('should open after enclave transport failures and fail fast', async () => {
+    stub.error = new EnclaveTimeoutError('Request execute timed out after 30000ms');
+
+    for (let i = 0; i < 4; i++) {
+      await expect(client.sendRequest(request)).rejects.toThrow(EnclaveTimeoutError);
+    }
+
+    const sendRequest = jest.spyOn(stub, 'sendRequest');
+    await expect(client.sendRequest(request)).rejects.toThrow(CircuitOpenError);
+    expect(sendRequest).not.toHaveBeenCalled();
+    expect(client.getBreakerStats().state).toBe('open');
+  });
+
+  it('should not count failed enclave responses', async () => {
+    stub.response = { id: 'x', success: false, error: 'Unknown method: execute' };
+
+    for (let i = 0; i < 4; i++) {
+      await client.sendRequest(request);
+    }
+
+    expect(client.getBreakerStats()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  it('should count failed streams', async () => {
+    stub.error = new EnclaveTimeoutError('Request export timed out after 30000ms');
+
+    for (let i = 0; i < 4; i++) {
+      const frames = client.streamRequest(request);
+      await expect(frames.next()).rejects.toThrow(EnclaveTimeoutError);
+    }
+
+    await expect(client.streamRequest(request).next()).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('should forward connection events from the wrapped client', () => {
+    const connected = jest.fn();
+    client.on('connected', connected);
+
+    stub.emit('connected');
+
+    expect(connected).toHaveBeenCalled();
+  });
+});
@@ -46,10 +46,12 @@ describe('loadConfig', () => {
     delete process.env.VSOCK_CID;
     delete process.env.VSOCK_PORT;
     delete process.env.L3_ENDPOINT;
+    delete process.env.L3_GUARDIANS;
     delete process.env.API_HOST;
     delete process.env.API_PORT;
     delete process.env.LOG_LEVEL;
     delete process.env.LOG_FORMAT;
+    delete process.env.TAPP_ID;
   });
 
   it('should load valid configuration from file', () => {
@@ -101,6 +103,74 @@ describe('loadConfig', () => {
     expect(config.l3.endpoint).toBe('http://custom-l3:3001');
   });
 
+  it('should accept a list of L3 guardians with a quorum', () => {
+    const { endpoint: _endpoint, ...l3 } = validConfig.l3;
+    const guardians = ['http://guardian-a:3001', 'http://guardian-b:3001'];
+    mockedFs.readFileSync.mockReturnValue(
+      JSON.stringify({ ...validConfig, l3: { ...l3, guardians, quorum: 2 } })
+    );
+
+    const config = loadConfig('/test/config.json');
+
+    expect(config.l3).toMatchObject({ guardians, quorum: 2 });
+  });
+
+  it('should reject a consensus history limit below one', () => {
+    mockedFs.readFileSync.mockReturnValue(
+      JSON.stringify({ ...validConfig, l3: { ...validConfig.l3, consensus: { historyLimit: 0 } } })
+    );
+
+    expect(() => loadConfig('/test/config.json')).toThrow(ConfigError);
+  });
+
+  it('should accept a re-attestation schedule', () => {
+    const reattestation = { intervalMs: 3600000, jitterMs: 60000, alertAfterFailures: 2 };
+    mockedFs.readFileSync.mockReturnValue(
+      JSON.stringify({ ...validConfig, attestation: { reattestation } })
+    );
+
+    expect(loadConfig('/test/config.json').attestation?.reattestation).toEqual(reattestation);
+  });
+
+  it('should take L3 guardians from the environment', () => {
+    process.env.L3_GUARDIANS = 'http://guardian-a:3001, http://guardian-b:3001';
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify(validConfig));
+
+    expect(loadConfig('/test/config.json').l3.guardians).toEqual([
+      'http://guardian-a:3001',
+      'http://guardian-b:3001',
+    ]);
+  });
+
+  it('should let L3_ENDPOINT replace the configured guardians', () => {
+    process.env.L3_ENDPOINT = 'http://custom-l3:3001';
+    const guardians = ['http://guardian-a:3001', 'http://guardian-b:3001'];
+    mockedFs.readFileSync.mockReturnValue(
+      JSON.stringify({ ...validConfig, l3: { ...validConfig.l3, guardians, quorum: 2 } })
+    );
+
+    const config = loadConfig('/test/config.json');
+
+    expect(config.l3.endpoint).toBe('http://custom-l3:3001');
+    expect(config.l3.guardians).toBeUndefined();
+    expect(config.l3.quorum).toBeUndefined();
+  });
+
+  it('should reject setting both L3_ENDPOINT and L3_GUARDIANS', () => {
+    process.env.L3_ENDPOINT = 'http://custom-l3:3001';
+    process.env.L3_GUARDIANS = 'http://guardian-a:3001';
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify(validConfig));
+
+    expect(() => loadConfig('/test/config.json')).toThrow(ConfigError);
+  });
+
+  it('should require an L3 endpoint or guardians', () => {
+    const { endpoint: _endpoint, ...l3 } = validConfig.l3;
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...validConfig, l3 }));
+
+    expect(() => loadConfig('/test/config.json')).toThrow(ConfigError);
+  });
+
   it('should override API config with environment variables', () => {
     process.env.API_HOST = '127.0.0.1';
     process.env.API_PORT = '9000';
@@ -152,6 +222,85 @@ describe('loadConfig', () => {
     expect(() => loadConfig('/test/config.json')).toThrow(/Config validation failed/);
   });
 
+  it('should accept an egress proxy section', () => {
+    const egress = {
+      allowedDomains: ['api.binance.com', '*.coingecko.com'],
+      requestsPerMinute: 30,
+    };
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...validConfig, egress }));
+
+    const config = loadConfig('/test/config.json');
+
+    expect(config.egress).toEqual(egress);
+  });
+
+  it('should reject an egress section without an allowlist', () => {
+    mockedFs.readFileSync.mockReturnValue(
+      JSON.stringify({ ...validConfig, egress: { requestsPerMinute: 30 } })
+    );
+
+    expect(() => loadConfig('/test/config.json')).toThrow(ConfigError);
+  });
+
+  it('should accept a list of enclaves', () => {
+    const enclaves = [
+      { tappId: 'tapp-a', socketPath: '/tmp/a.sock' },
+      { tappId: 'tapp-b', cid: 17, port: 5000 },
+    ];
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...validConfig, enclaves }));
+
+    const config = loadConfig('/test/config.json');
+
+    expect(config.enclaves).toEqual(enclaves);
+  });
+
+  it('should reject enclaves sharing a TAPP ID', () => {
+    mockedFs.readFileSync.mockReturnValue(
+      JSON.stringify({
+        ...validConfig,
+        enclaves: [
+          { tappId: 'tapp-a', cid: 16 },
+          { tappId: 'tapp-a', cid: 17 },
+        ],
+      })
+    );
+
+    expect(() => loadConfig('/test/config.json')).toThrow(ConfigError);
+  });
+
+  it('should accept measurement allowlists of 48-byte hex PCRs', () => {
+    const pcr = '0x' + 'ab'.repeat(48);
+    const attestation = {
+      allowedMeasurements: { 'tapp-a': [{ pcr0: pcr, pcr1: pcr, pcr2: pcr, pcr8: pcr }] },
+    };
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...validConfig, attestation }));
+
+    expect(loadConfig('/test/config.json').attestation).toEqual(attestation);
+  });
+
+  it('should reject allowlist entries with a malformed or missing PCR', () => {
+    const pcr = 'ab'.repeat(48);
+    for (const entry of [
+      { pcr0: pcr, pcr1: pcr },
+      { pcr0: pcr, pcr1: pcr, pcr2: 'abcd' },
+    ]) {
+      mockedFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          ...validConfig,
+          attestation: { allowedMeasurements: { 'tapp-a': [entry] } },
+        })
+      );
+      expect(() => loadConfig('/test/config.json')).toThrow(ConfigError);
+    }
+  });
+
+  it('should take the TAPP ID from the environment', () => {
+    process.env.TAPP_ID = 'tapp-env';
+    mockedFs.readFileSync.mockReturnValue(JSON.stringify({ ...validConfig, tappId: 'tapp-file' }));
+
+    expect(loadConfig('/test/config.json').tappId).toBe('tapp-env');
+  });
+
   it('should apply default values for optional fields', () => {
     const minimalConfig = {
       vsock: {
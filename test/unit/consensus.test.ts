@@ -0,0 +1,203 @@
+/**
+ * Unit tests for attestation consensus tracking and its file store
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { L3Client } from '../../src/l3/client';
+import { ConsensusTracker, FileConsensusRecordStore } from '../../src/l3/consensus';
+import { AttestationSubmission, ConsensusStatus } from '../../src/types';
+import { L3Error } from '../../src/utils/errors';
+
+function submission(attestationId: string): AttestationSubmission {
+  return {
+    attestationId,
+    submissionTime: new Date(),
+    status: 'pending',
+    acceptedBy: ['http://guardian-a:3001', 'http://guardian-b:3001'],
+  };
+}
+
+function status(state: ConsensusStatus['status'], guardiansVerified: number): ConsensusStatus {
+  return { attestationId: 'att-1', status: state, guardiansVerified, totalGuardians: 3 };
+}
+
+describe('ConsensusTracker', () => {
+  let l3: { queryConsensusStatus: jest.Mock };
+  let tracker: ConsensusTracker;
+
+  function createTracker(store?: FileConsensusRecordStore): ConsensusTracker {
+    return new ConsensusTracker(
+      l3 as unknown as L3Client,
+      { pollIntervalMs: 1000, maxPollIntervalMs: 4000, deadlineMs: 60000, historyLimit: 2 },
+      store
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    l3 = { queryConsensusStatus: jest.fn() };
+    tracker = createTracker();
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    jest.useRealTimers();
+  });
+
+  it('should poll with backoff until consensus is achieved', async () => {
+    l3.queryConsensusStatus
+      .mockResolvedValueOnce(status('pending', 1))
+      .mockResolvedValueOnce(status('pending', 1))
+      .mockResolvedValueOnce(status('achieved', 2));
+
+    const tracked = tracker.track(submission('att-1'), {
+      tappId: 'tapp-a',
+      nonce: Buffer.from('c0ffee', 'hex'),
+    });
+    expect(tracked).toMatchObject({ state: 'submitted', nonce: 'c0ffee', polls: 0 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(tracker.get('att-1')).toMatchObject({ state: 'pending', guardiansVerified: 1 });
+
+    // Next poll after 1s, then 2s
+    await jest.advanceTimersByTimeAsync(999);
+    expect(l3.queryConsensusStatus).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(l3.queryConsensusStatus).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(l3.queryConsensusStatus).toHaveBeenCalledTimes(3);
+    expect(tracker.get('att-1')).toMatchObject({
+      state: 'achieved',
+      guardiansVerified: 2,
+      totalGuardians: 3,
+      polls: 3,
+      completedAt: expect.any(Date),
+    });
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(l3.queryConsensusStatus).toHaveBeenCalledTimes(3);
+  });
+
+  it('should record failed polls and keep polling', async () => {
+    l3.queryConsensusStatus
+      .mockRejectedValueOnce(new L3Error('Failed to query consensus status: timeout'))
+      .mockResolvedValueOnce(status('disputed', 1));
+    tracker.track(submission('att-1'), { tappId: 'tapp-a' });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(tracker.get('att-1')).toMatchObject({
+      state: 'submitted',
+      lastError: 'Failed to query consensus status: timeout',
+    });
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(tracker.get('att-1')).toMatchObject({ state: 'disputed', lastError: undefined });
+  });
+
+  it('should not schedule another poll when stopped while a poll is in flight', async () => {
+    let answer: (value: ConsensusStatus) => void = () => undefined;
+    l3.queryConsensusStatus.mockReturnValue(
+      new Promise<ConsensusStatus>((resolve) => {
+        answer = resolve;
+      })
+    );
+    tracker.track(submission('att-1'), { tappId: 'tapp-a' });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    tracker.stop();
+    answer(status('pending', 1));
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(l3.queryConsensusStatus).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should mark attestations still pending at the deadline as expired', async () => {
+    l3.queryConsensusStatus.mockResolvedValue(status('pending', 1));
+    tracker.track(submission('att-1'), { tappId: 'tapp-a' });
+
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(tracker.get('att-1')?.state).toBe('expired');
+    const polls = l3.queryConsensusStatus.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(l3.queryConsensusStatus).toHaveBeenCalledTimes(polls);
+  });
+
+  it('should list the history newest first and drop the oldest finished entries', async () => {
+    l3.queryConsensusStatus.mockResolvedValue(status('failed', 0));
+    tracker.track(submission('att-1'), { tappId: 'tapp-a' });
+    tracker.track(submission('att-2'), { tappId: 'tapp-b' });
+    tracker.track(submission('att-3'), { tappId: 'tapp-a' });
+    await jest.advanceTimersByTimeAsync(1000);
+    l3.queryConsensusStatus.mockResolvedValue(status('pending', 0));
+    tracker.track(submission('att-4'), { tappId: 'tapp-a' });
+
+    expect(tracker.list().map((record) => record.attestationId)).toEqual([
+      'att-4',
+      'att-3',
+      'att-2',
+    ]);
+    expect(tracker.list({ tappId: 'tapp-a', state: 'failed' })).toHaveLength(1);
+    expect(tracker.list({ limit: 1 })[0]?.attestationId).toBe('att-4');
+  });
+
+  describe('with a file store', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'consensus-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should persist the history and resume polling after a restart', async () => {
+      const store = new FileConsensusRecordStore(path.join(directory, 'history.json'));
+      tracker = createTracker(store);
+      tracker.track(submission('att-1'), { tappId: 'tapp-a' });
+      tracker.stop();
+      await tracker.flush();
+
+      l3.queryConsensusStatus.mockResolvedValue(status('achieved', 3));
+      tracker = createTracker(store);
+      await tracker.start();
+      expect(tracker.get('att-1')).toMatchObject({
+        state: 'submitted',
+        submittedAt: expect.any(Date),
+      });
+
+      await jest.advanceTimersByTimeAsync(0);
+      await tracker.flush();
+
+      expect(l3.queryConsensusStatus).toHaveBeenCalledWith('att-1');
+      const [saved] = await store.load();
+      expect(saved).toMatchObject({ attestationId: 'att-1', state: 'achieved', polls: 1 });
+      expect(saved!.deadline).toBeInstanceOf(Date);
+      expect(fs.readdirSync(directory)).toEqual(['history.json']);
+    });
+
+    it('should start empty when nothing was persisted yet', async () => {
+      const store = new FileConsensusRecordStore(path.join(directory, 'missing.json'));
+
+      await expect(store.load()).resolves.toEqual([]);
+    });
+
+    it('should start empty when the history file is corrupt', async () => {
+      const file = path.join(directory, 'history.json');
+      fs.writeFileSync(file, '[{"attestationId": "att-1",');
+      const store = new FileConsensusRecordStore(file);
+
+      await expect(store.load()).resolves.toEqual([]);
+
+      tracker = createTracker(store);
+      await expect(tracker.start()).resolves.toBeUndefined();
+      expect(tracker.list()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the enclave HTTP egress proxy, against a local stub server
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EgressProxy, HTTP_FETCH_METHOD } from '../../src/services/egress';
+import { HostServiceCall, HostServiceRegistry } from '../../src/services/registry';
+import { HostServiceError } from '../../src/utils/errors';
+import { EgressConfig } from '../../src/types';
+
+describe('EgressProxy', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders }>;
+
+  const call: HostServiceCall = { tappId: 'tapp-1', requestId: 'enclave-1', method: 'http_fetch' };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers });
+
+        if (req.url === '/price') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ price: '43250.50' }));
+        } else if (req.url === '/echo') {
+          res.writeHead(201);
+          res.end(Buffer.concat(chunks));
+        } else if (req.url === '/large') {
+          res.writeHead(200);
+          res.end(Buffer.alloc(4096));
+        } else if (req.url === '/redirect') {
+          res.writeHead(302, { Location: 'http://evil.example/' });
+          res.end();
+        } else if (req.url === '/slow') {
+          setTimeout(() => res.end('late'), 500);
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  function createProxy(overrides: Partial<EgressConfig> = {}): EgressProxy {
+    return new EgressProxy({ allowedDomains: ['127.0.0.1'], allowHttp: true, ...overrides });
+  }
+
+  it('should fetch allowed URLs and return status, headers and base64 body', async () => {
+    const result = await createProxy().fetch({ url: `${baseUrl}/price` }, call);
+
+    expect(result.status).toBe(200);
+    expect(result.headers['content-type']).toBe('application/json');
+    expect(JSON.parse(Buffer.from(result.body, 'base64').toString())).toEqual({
+      price: '43250.50',
+    });
+  });
+
+  it('should forward method, headers and body', async () => {
+    const body = Buffer.from([0, 1, 2, 255]);
+
+    const result = await createProxy().fetch(
+      {
+        url: `${baseUrl}/echo`,
+        method: 'post',
+        headers: { 'X-Api-Key': 'secret', Host: 'spoofed.example' },
+        body: body.toString('base64'),
+      },
+      call
+    );
+
+    expect(result.status).toBe(201);
+    expect(Buffer.from(result.body, 'base64')).toEqual(body);
+    expect(received[0]).toMatchObject({ method: 'POST' });
+    expect(received[0]!.headers['x-api-key']).toBe('secret');
+    expect(received[0]!.headers.host).not.toBe('spoofed.example');
+  });
+
+  it('should return non-2xx responses instead of failing', async () => {
+    const result = await createProxy().fetch({ url: `${baseUrl}/missing` }, call);
+
+    expect(result.status).toBe(404);
+  });
+
+  it('should reject hosts outside the allowlist without contacting them', async () => {
+    const proxy = createProxy({ allowedDomains: ['api.binance.com'] });
+
+    await expect(proxy.fetch({ url: `${baseUrl}/price` }, call)).rejects.toThrow(
+      'Egress to 127.0.0.1 is not allowed'
+    );
+    expect(received).toHaveLength(0);
+  });
+
+  it('should match wildcard entries against subdomains only', async () => {
+    const proxy = createProxy({ allowedDomains: ['*.example.com'] });
+
+    await expect(proxy.fetch({ url: 'http://example.com/' }, call)).rejects.toThrow(/not allowed/);
+    await expect(proxy.fetch({ url: 'http://evilexample.com/' }, call)).rejects.toThrow(
+      /not allowed/
+    );
+  });
+
+  it('should require https unless plain http is enabled', async () => {
+    const proxy = createProxy({ allowHttp: false });
+
+    await expect(proxy.fetch({ url: `${baseUrl}/price` }, call)).rejects.toThrow(
+      'Egress scheme http: is not allowed'
+    );
+  });
+
+  it('should not follow redirects', async () => {
+    const result = await createProxy().fetch({ url: `${baseUrl}/redirect` }, call);
+
+    expect(result.status).toBe(302);
+    expect(result.headers.location).toBe('http://evil.example/');
+    expect(received).toHaveLength(1);
+  });
+
+  it('should enforce the per-TAPP request quota', async () => {
+    const proxy = createProxy({ requestsPerMinute: 2, tappQuotas: { 'tapp-2': 1 } });
+
+    await proxy.fetch({ url: `${baseUrl}/price` }, call);
+    await proxy.fetch({ url: `${baseUrl}/price` }, call);
+    await expect(proxy.fetch({ url: `${baseUrl}/price` }, call)).rejects.toThrow(
+      'Egress quota of 2 requests per minute exceeded'
+    );
+
+    const other = { ...call, tappId: 'tapp-2' };
+    await proxy.fetch({ url: `${baseUrl}/price` }, other);
+    await expect(proxy.fetch({ url: `${baseUrl}/price` }, other)).rejects.toThrow(HostServiceError);
+  });
+
+  it('should reject request bodies above the limit', async () => {
+    const proxy = createProxy({ maxRequestBytes: 8 });
+
+    await expect(
+      proxy.fetch({ url: `${baseUrl}/echo`, body: Buffer.alloc(9).toString('base64') }, call)
+    ).rejects.toThrow(/exceeds limit of 8 bytes/);
+  });
+
+  it('should fail responses above the size limit', async () => {
+    const proxy = createProxy({ maxResponseBytes: 1024 });
+
+    await expect(proxy.fetch({ url: `${baseUrl}/large` }, call)).rejects.toThrow(
+      'Egress request failed: response exceeds limit of 1024 bytes'
+    );
+  });
+
+  it('should time out slow upstreams', async () => {
+    const proxy = createProxy({ timeoutMs: 50 });
+
+    await expect(proxy.fetch({ url: `${baseUrl}/slow` }, call)).rejects.toThrow(
+      'Egress request failed: timed out after 50ms'
+    );
+  });
+
+  it('should be callable by the enclave as the http_fetch host service', async () => {
+    const registry = createProxy().register(new HostServiceRegistry());
+
+    const response = await registry.handle(
+      {
+        id: 'enclave-1',
+        method: HTTP_FETCH_METHOD,
+        params: { url: 'https://blocked.example/' },
+        timestamp: Date.now(),
+      },
+      { tappId: 'tapp-1' }
+    );
+
+    expect(response).toMatchObject({
+      success: false,
+      error: 'Egress to blocked.example is not allowed',
+    });
+  });
+
+  it('should reject http_fetch params of the wrong type', async () => {
+    const registry = createProxy().register(new HostServiceRegistry());
+
+    const response = await registry.handle(
+      {
+        id: 'enclave-1',
+        method: HTTP_FETCH_METHOD,
+        params: { url: `${baseUrl}/price`, method: 42 },
+        timestamp: Date.now(),
+      },
+      { tappId: 'tapp-1' }
+    );
+
+    expect(response).toMatchObject({ success: false, error: 'Egress method must be a string' });
+  });
+});
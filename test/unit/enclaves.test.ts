@@ -0,0 +1,213 @@
+/**
+ * Unit tests for the per-TAPP enclave registry
+ */
+
+import {
+  EnclaveRegistry,
+  createEnclaveRegistry,
+  findClientLayer,
+  resolveEnclaveConfigs,
+} from '../../src/enclaves/registry';
+import { UnixSocketClient, TcpSocketClient, SocketClient } from '../../src/vsock/client';
+import { FramedSocketClient } from '../../src/vsock/framed';
+import { CircuitBreakerSocketClient } from '../../src/vsock/breaker';
+import { AdmissionSocketClient } from '../../src/vsock/admission';
+import { VerifyingSocketClient } from '../../src/vsock/verifier';
+import { MeasurementPolicySocketClient } from '../../src/vsock/measurements';
+import { BalancedSocketClient } from '../../src/vsock/balancer';
+import { HostServiceRegistry } from '../../src/services/registry';
+import { VsockConfig } from '../../src/types';
+import { HostError, UnknownTappError } from '../../src/utils/errors';
+
+const vsock: VsockConfig = {
+  cid: 3,
+  port: 3000,
+  transport: 'unix',
+  socketPath: '/tmp/enclave.sock',
+  timeoutMs: 1000,
+  retryAttempts: 1,
+  retryDelayMs: 10,
+};
+
+function fakeClient(connect: () => Promise<void> = async () => {}): SocketClient {
+  return {
+    connect: jest.fn(connect),
+    disconnect: jest.fn(async () => {}),
+  } as unknown as SocketClient;
+}
+
+describe('EnclaveRegistry', () => {
+  it('should resolve a TAPP to its own client', () => {
+    const a = fakeClient();
+    const b = fakeClient();
+    const registry = new EnclaveRegistry().add('tapp-a', a).add('tapp-b', b);
+
+    expect(registry.resolve('tapp-b')).toEqual({ tappId: 'tapp-b', client: b });
+    expect(registry.get('tapp-a')).toBe(a);
+  });
+
+  it('should fall back to the first enclave when no TAPP is given', () => {
+    const a = fakeClient();
+    const registry = new EnclaveRegistry().add('tapp-a', a).add('tapp-b', fakeClient());
+
+    expect(registry.resolve()).toEqual({ tappId: 'tapp-a', client: a });
+    expect(registry.getDefaultTappId()).toBe('tapp-a');
+  });
+
+  it('should reject unknown TAPPs', () => {
+    const registry = new EnclaveRegistry().add('tapp-a', fakeClient());
+
+    expect(() => registry.resolve('tapp-x')).toThrow(UnknownTappError);
+    expect(() => new EnclaveRegistry().resolve()).toThrow(UnknownTappError);
+  });
+
+  it('should keep a public key tracker per TAPP', () => {
+    const registry = new EnclaveRegistry().add('tapp-a', fakeClient()).add('tapp-b', fakeClient());
+
+    expect(registry.getKeyTracker('tapp-b').tappId).toBe('tapp-b');
+    expect(registry.getKeyTracker().tappId).toBe('tapp-a');
+    expect(() => registry.getKeyTracker('tapp-x')).toThrow(UnknownTappError);
+  });
+
+  it('should keep an attestation cache per TAPP', () => {
+    const registry = new EnclaveRegistry().add('tapp-a', fakeClient()).add('tapp-b', fakeClient());
+
+    expect(registry.getAttestationCache('tapp-b').tappId).toBe('tapp-b');
+    expect(registry.getAttestationCache().tappId).toBe('tapp-a');
+  });
+
+  it('should reject a TAPP registered twice', () => {
+    const registry = new EnclaveRegistry().add('tapp-a', fakeClient());
+
+    expect(() => registry.add('tapp-a', fakeClient())).toThrow(HostError);
+  });
+
+  it('should connect every enclave and name the ones that failed', async () => {
+    const ok = fakeClient();
+    const failing = fakeClient(async () => {
+      throw new Error('Connection refused');
+    });
+    const registry = new EnclaveRegistry().add('tapp-a', ok).add('tapp-b', failing);
+
+    await expect(registry.connectAll()).rejects.toThrow(
+      'Failed to connect to enclaves for tapp-b: Connection refused'
+    );
+    expect(ok.connect).toHaveBeenCalled();
+  });
+});
+
+describe('resolveEnclaveConfigs', () => {
+  it('should serve the single vsock enclave under the configured TAPP', () => {
+    expect(resolveEnclaveConfigs({ vsock, tappId: 'tapp-a' })).toEqual([
+      { tappId: 'tapp-a', vsock },
+    ]);
+    expect(resolveEnclaveConfigs({ vsock })[0]!.tappId).toBe('default');
+  });
+
+  it('should fill unset enclave fields from the vsock section', () => {
+    const configs = resolveEnclaveConfigs({
+      vsock,
+      enclaves: [
+        { tappId: 'tapp-a', socketPath: '/tmp/a.sock' },
+        { tappId: 'tapp-b', transport: 'tcp', host: 'enclave-b', port: 4000 },
+      ],
+    });
+
+    expect(configs[0]!.vsock).toEqual({ ...vsock, socketPath: '/tmp/a.sock' });
+    expect(configs[1]!.vsock).toMatchObject({
+      transport: 'tcp',
+      host: 'enclave-b',
+      port: 4000,
+      timeoutMs: 1000,
+    });
+  });
+});
+
+describe('createEnclaveRegistry', () => {
+  it('should create one client per enclave with its TAPP as host service context', () => {
+    const setHostServices = jest.spyOn(FramedSocketClient.prototype, 'setHostServices');
+    const services = new HostServiceRegistry();
+
+    const registry = createEnclaveRegistry(
+      {
+        vsock,
+        enclaves: [{ tappId: 'tapp-a' }, { tappId: 'tapp-b', transport: 'tcp', host: 'localhost' }],
+      },
+      services
+    );
+
+    // Verifier, then admission control, then the circuit breaker, then the transport client
+    const transportOf = (tappId: string) =>
+      (
+        ((registry.get(tappId) as VerifyingSocketClient).inner as AdmissionSocketClient)
+          .inner as CircuitBreakerSocketClient
+      ).inner;
+    expect(registry.get('tapp-a')).toBeInstanceOf(VerifyingSocketClient);
+    expect(transportOf('tapp-a')).toBeInstanceOf(UnixSocketClient);
+    expect(transportOf('tapp-b')).toBeInstanceOf(TcpSocketClient);
+    expect(setHostServices).toHaveBeenCalledWith(services, { tappId: 'tapp-a' });
+    expect(setHostServices).toHaveBeenCalledWith(services, { tappId: 'tapp-b' });
+    setHostServices.mockRestore();
+  });
+
+  it('should leave out the verifier, admission control and breaker when they are disabled', () => {
+    const registry = createEnclaveRegistry({
+      vsock: {
+        ...vsock,
+        circuitBreaker: { enabled: false },
+        admission: { enabled: false },
+        responseVerification: { enabled: false },
+      },
+    });
+
+    expect(registry.get()).toBeInstanceOf(UnixSocketClient);
+  });
+
+  it('should put a measurement allowlist only in front of the TAPPs that have one', () => {
+    const pcr = 'ab'.repeat(48);
+    const registry = createEnclaveRegistry({
+      vsock,
+      enclaves: [{ tappId: 'tapp-a' }, { tappId: 'tapp-b' }],
+      attestation: { allowedMeasurements: { 'tapp-a': [{ pcr0: pcr, pcr1: pcr, pcr2: pcr }] } },
+    });
+
+    // Directly around the transport, inside the circuit breaker
+    const policy = findClientLayer(registry.get('tapp-a'), MeasurementPolicySocketClient);
+    expect(policy).toBeInstanceOf(MeasurementPolicySocketClient);
+    expect(policy!.inner).toBeInstanceOf(UnixSocketClient);
+    expect(findClientLayer(registry.get('tapp-a'), CircuitBreakerSocketClient)!.inner).toBe(policy);
+    expect(findClientLayer(registry.get('tapp-b'), MeasurementPolicySocketClient)).toBeUndefined();
+  });
+
+  it('should check every replica against the measurement allowlist', () => {
+    const pcr = 'ab'.repeat(48);
+    const registry = createEnclaveRegistry({
+      vsock: {
+        ...vsock,
+        replicas: [{ socketPath: '/tmp/enclave-a.sock' }, { socketPath: '/tmp/enclave-b.sock' }],
+      },
+      attestation: { allowedMeasurements: { default: [{ pcr0: pcr, pcr1: pcr, pcr2: pcr }] } },
+    });
+
+    const balancer = findClientLayer(registry.get(), BalancedSocketClient)!;
+    expect(balancer.getStats().replicas.map((replica) => replica.measurements)).toEqual([
+      'pending',
+      'pending',
+    ]);
+    expect(findClientLayer(registry.get(), MeasurementPolicySocketClient)).toBeUndefined();
+  });
+});
+
+describe('findClientLayer', () => {
+  it('should find a layer anywhere in the wrapper chain', () => {
+    const client = createEnclaveRegistry({ vsock }).get();
+
+    expect(findClientLayer(client, VerifyingSocketClient)).toBe(client);
+    expect(findClientLayer(client, AdmissionSocketClient)).toBeInstanceOf(AdmissionSocketClient);
+    expect(findClientLayer(client, CircuitBreakerSocketClient)).toBeInstanceOf(
+      CircuitBreakerSocketClient
+    );
+    expect(findClientLayer(client, UnixSocketClient)).toBeInstanceOf(UnixSocketClient);
+    expect(findClientLayer(client, TcpSocketClient)).toBeUndefined();
+  });
+});
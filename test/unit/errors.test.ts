@@ -2,7 +2,27 @@
  * Unit tests for error classes
  */
 
-import { HostError, VsocketError, L3Error, AuthError, ConfigError } from '../../src/utils/errors';
+import {
+  HostError,
+  VsocketError,
+  EnclaveTimeoutError,
+  ProtocolError,
+  FrameError,
+  HostServiceError,
+  UnknownTappError,
+  UnknownAttestationError,
+  ServiceUnavailableError,
+  CircuitOpenError,
+  QueueFullError,
+  QueueTimeoutError,
+  SignatureVerificationError,
+  AttestationError,
+  MeasurementPolicyError,
+  ValidationError,
+  L3Error,
+  AuthError,
+  ConfigError,
+} from '../../src/utils/errors';
 
 describe('Error Classes', () => {
   describe('HostError', () => {
@@ -38,6 +58,148 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('EnclaveTimeoutError', () => {
+    it('should create error with correct message', () => {
+      const error = new EnclaveTimeoutError('Request timed out');
+      expect(error.message).toBe('Request timed out');
+      expect(error.name).toBe('EnclaveTimeoutError');
+    });
+
+    it('should be instance of VsocketError', () => {
+      const error = new EnclaveTimeoutError('Test');
+      expect(error).toBeInstanceOf(VsocketError);
+      expect(error).toBeInstanceOf(EnclaveTimeoutError);
+    });
+  });
+
+  describe('ProtocolError', () => {
+    it('should create error with correct message', () => {
+      const error = new ProtocolError('Incompatible version');
+      expect(error.message).toBe('Incompatible version');
+      expect(error.name).toBe('ProtocolError');
+    });
+
+    it('should be instance of VsocketError', () => {
+      const error = new ProtocolError('Test');
+      expect(error).toBeInstanceOf(VsocketError);
+    });
+  });
+
+  describe('FrameError', () => {
+    it('should create error with correct message', () => {
+      const error = new FrameError('Frame too large');
+      expect(error.message).toBe('Frame too large');
+      expect(error.name).toBe('FrameError');
+    });
+
+    it('should be instance of VsocketError', () => {
+      const error = new FrameError('Test');
+      expect(error).toBeInstanceOf(VsocketError);
+    });
+  });
+
+  describe('HostServiceError', () => {
+    it('should create error with correct message', () => {
+      const error = new HostServiceError('Quota exceeded');
+      expect(error.message).toBe('Quota exceeded');
+      expect(error.name).toBe('HostServiceError');
+    });
+
+    it('should be instance of HostError', () => {
+      const error = new HostServiceError('Test');
+      expect(error).toBeInstanceOf(HostError);
+    });
+  });
+
+  describe('UnknownTappError', () => {
+    it('should name the TAPP without an enclave', () => {
+      const error = new UnknownTappError('tapp-x');
+      expect(error.message).toBe('No enclave serves TAPP tapp-x');
+      expect(error.name).toBe('UnknownTappError');
+    });
+
+    it('should be instance of HostError', () => {
+      const error = new UnknownTappError('tapp-x');
+      expect(error).toBeInstanceOf(HostError);
+    });
+  });
+
+  describe('UnknownAttestationError', () => {
+    it('should name the attestation that is not tracked', () => {
+      const error = new UnknownAttestationError('att-1');
+      expect(error.message).toBe('No tracked attestation att-1');
+      expect(error.name).toBe('UnknownAttestationError');
+      expect(error).toBeInstanceOf(HostError);
+    });
+  });
+
+  describe('CircuitOpenError', () => {
+    it('should name the breaker and carry the retry delay', () => {
+      const error = new CircuitOpenError('enclave', 2500);
+      expect(error.message).toBe('Circuit breaker enclave is open');
+      expect(error.name).toBe('CircuitOpenError');
+      expect(error.retryAfterMs).toBe(2500);
+    });
+
+    it('should be instance of ServiceUnavailableError', () => {
+      const error = new CircuitOpenError('l3', 0);
+      expect(error).toBeInstanceOf(ServiceUnavailableError);
+      expect(error).toBeInstanceOf(HostError);
+    });
+  });
+
+  describe('QueueFullError', () => {
+    it('should carry the retry delay', () => {
+      const error = new QueueFullError('Enclave request queue is full', 1000);
+      expect(error.name).toBe('QueueFullError');
+      expect(error.retryAfterMs).toBe(1000);
+      expect(error).toBeInstanceOf(ServiceUnavailableError);
+    });
+  });
+
+  describe('QueueTimeoutError', () => {
+    it('should carry the retry delay', () => {
+      const error = new QueueTimeoutError('Request waited too long', 500);
+      expect(error.name).toBe('QueueTimeoutError');
+      expect(error.retryAfterMs).toBe(500);
+      expect(error).toBeInstanceOf(ServiceUnavailableError);
+    });
+  });
+
+  describe('SignatureVerificationError', () => {
+    it('should be instance of HostError but not VsocketError', () => {
+      const error = new SignatureVerificationError('Response failed signature verification');
+      expect(error.name).toBe('SignatureVerificationError');
+      expect(error).toBeInstanceOf(HostError);
+      expect(error).not.toBeInstanceOf(VsocketError);
+    });
+  });
+
+  describe('AttestationError', () => {
+    it('should be instance of HostError but not VsocketError', () => {
+      const error = new AttestationError('Attestation document signature is invalid');
+      expect(error.name).toBe('AttestationError');
+      expect(error).toBeInstanceOf(HostError);
+      expect(error).not.toBeInstanceOf(VsocketError);
+    });
+  });
+
+  describe('MeasurementPolicyError', () => {
+    it('should be instance of AttestationError', () => {
+      const error = new MeasurementPolicyError('Enclave for TAPP tapp-a is not approved');
+      expect(error.name).toBe('MeasurementPolicyError');
+      expect(error).toBeInstanceOf(AttestationError);
+    });
+  });
+
+  describe('ValidationError', () => {
+    it('should be instance of HostError', () => {
+      const error = new ValidationError('nonce must be hex');
+      expect(error.name).toBe('ValidationError');
+      expect(error).toBeInstanceOf(HostError);
+    });
+  });
+
   describe('L3Error', () => {
     it('should create error with correct message', () => {
       const error = new L3Error('Guardian unreachable');
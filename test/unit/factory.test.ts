@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the socket client factory and TCP transport
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import { createSocketClient, resolveTransport } from '../../src/vsock/factory';
+import { UnixSocketClient, TcpSocketClient } from '../../src/vsock/client';
+import { PooledSocketClient } from '../../src/vsock/pool';
+import { BalancedSocketClient } from '../../src/vsock/balancer';
+import { encodeFrame, FrameDecoder } from '../../src/vsock/framing';
+import { TeeRequest, VsockConfig } from '../../src/types';
+import { ConfigError } from '../../src/utils/errors';
+
+// Only existsSync is mocked so the vsock device check can be controlled
+jest.mock('fs', () => ({ ...jest.requireActual('fs'), existsSync: jest.fn() }));
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe('resolveTransport', () => {
+  const base: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 1000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+  };
+
+  it('should honour an explicit transport', () => {
+    expect(resolveTransport({ ...base, transport: 'tcp', socketPath: '/tmp/x.sock' })).toBe('tcp');
+  });
+
+  it('should pick unix when a socket path is configured', () => {
+    expect(resolveTransport({ ...base, socketPath: '/tmp/x.sock' })).toBe('unix');
+  });
+
+  it('should pick tcp when a host is configured', () => {
+    expect(resolveTransport({ ...base, host: 'mock-enclave' })).toBe('tcp');
+  });
+
+  it('should pick vsock when the vsock device exists on linux', () => {
+    mockedFs.existsSync.mockReturnValue(true);
+
+    expect(resolveTransport(base)).toBe(process.platform === 'linux' ? 'vsock' : 'unix');
+  });
+
+  it('should fall back to unix without a vsock device', () => {
+    mockedFs.existsSync.mockReturnValue(false);
+
+    expect(resolveTransport(base)).toBe('unix');
+  });
+});
+
+describe('createSocketClient', () => {
+  const base: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 1000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+  };
+
+  it('should create a Unix socket client', () => {
+    expect(createSocketClient({ ...base, transport: 'unix' })).toBeInstanceOf(UnixSocketClient);
+  });
+
+  it('should create a TCP client', () => {
+    expect(createSocketClient({ ...base, host: 'localhost' })).toBeInstanceOf(TcpSocketClient);
+  });
+
+  it('should require a host for the tcp transport', () => {
+    expect(() => createSocketClient({ ...base, transport: 'tcp' })).toThrow(ConfigError);
+  });
+
+  it('should wrap connections in a pool when poolSize > 1', () => {
+    expect(createSocketClient({ ...base, transport: 'unix', poolSize: 2 })).toBeInstanceOf(
+      PooledSocketClient
+    );
+  });
+
+  it('should balance across replicas when they are listed', () => {
+    const client = createSocketClient({
+      ...base,
+      replicas: [{ socketPath: '/tmp/a.sock' }, { name: 'b', host: 'enclave-b' }],
+    });
+
+    expect(client).toBeInstanceOf(BalancedSocketClient);
+    expect((client as BalancedSocketClient).getStats()).toMatchObject({
+      strategy: 'least-inflight',
+      replicas: [{ name: 'replica-0' }, { name: 'b' }],
+    });
+  });
+});
+
+describe('TcpSocketClient', () => {
+  let server: net.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    // Echo enclave: answers every request with its own id
+    server = net.createServer((socket) => {
+      const decoder = new FrameDecoder();
+      socket.on('data', (chunk) => {
+        for (const frame of decoder.push(chunk)) {
+          const request = JSON.parse(frame.toString('utf-8')) as TeeRequest;
+          const data =
+            request.method === 'hello' ? { protocolVersion: '1.0' } : { method: request.method };
+          const response = { id: request.id, success: true, data };
+          socket.write(encodeFrame(Buffer.from(JSON.stringify(response), 'utf-8')));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should exchange frames with an enclave over TCP', async () => {
+    const client = new TcpSocketClient(
+      { cid: 3, port, timeoutMs: 1000, retryAttempts: 1, retryDelayMs: 10 },
+      '127.0.0.1'
+    );
+    await client.connect();
+
+    const response = await client.sendRequest({
+      id: 'tcp-1',
+      method: 'ping',
+      params: {},
+      timestamp: Date.now(),
+    });
+
+    expect(response).toMatchObject({ id: 'tcp-1', success: true, data: { method: 'ping' } });
+    await client.disconnect();
+  });
+});
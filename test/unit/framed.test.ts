@@ -0,0 +1,681 @@
+/**
+ * Unit tests for request multiplexing over a single enclave connection
+ */
+
+import * as net from 'net';
+import * as fs from 'fs';
+import { UnixSocketClient } from '../../src/vsock/client';
+import { encodeFrame, FrameDecoder } from '../../src/vsock/framing';
+import { Codec, getCodec, jsonCodec } from '../../src/vsock/codec';
+import { HostServiceRegistry } from '../../src/services/registry';
+import { TeeRequest, TeeResponse, VsockConfig, WireEncoding } from '../../src/types';
+import {
+  VsocketError,
+  EnclaveTimeoutError,
+  FrameError,
+  ProtocolError,
+} from '../../src/utils/errors';
+
+/**
+ * Minimal enclave that holds requests until the test decides how to answer
+ */
+class ScriptedEnclave {
+  readonly received: TeeRequest[] = [];
+  readonly responses: TeeResponse[] = [];
+  helloData: Record<string, unknown> = { protocolVersion: '1.0', capabilities: ['streaming'] };
+  private server?: net.Server;
+  private socket?: net.Socket;
+  private codec: Codec = jsonCodec;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly socketPath: string) {}
+
+  async start(): Promise<void> {
+    if (fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+
+    this.server = net.createServer((socket) => {
+      this.socket = socket;
+      this.codec = jsonCodec;
+      const decoder = new FrameDecoder();
+      socket.on('data', (chunk) => {
+        for (const frame of decoder.push(chunk)) {
+          const message = this.codec.decode(frame) as TeeRequest | TeeResponse;
+          if ('success' in message) {
+            // Answer to a request the enclave sent to the host
+            this.responses.push(message);
+            this.waiters.forEach((notify) => notify());
+            continue;
+          }
+          const request = message;
+          if (request.method === 'hello') {
+            // Answer in JSON, then switch to whatever encoding was agreed
+            this.respond({ id: request.id, success: true, data: this.helloData });
+            this.codec = getCodec((this.helloData.encoding as WireEncoding) ?? 'json');
+            continue;
+          }
+          this.received.push(request);
+          this.waiters.forEach((notify) => notify());
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(this.socketPath, resolve));
+  }
+
+  async waitForRequests(count: number): Promise<void> {
+    while (this.received.length < count) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  async waitForResponses(count: number): Promise<void> {
+    while (this.responses.length < count) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  call(request: TeeRequest): void {
+    this.socket!.write(encodeFrame(this.codec.encode(request)));
+  }
+
+  respond(response: TeeResponse): void {
+    this.socket!.write(encodeFrame(this.codec.encode(response)));
+  }
+
+  sendRaw(bytes: Buffer): void {
+    this.socket!.write(bytes);
+  }
+
+  dropConnection(): void {
+    this.socket?.destroy();
+  }
+
+  async stop(): Promise<void> {
+    this.socket?.destroy();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+  }
+}
+
+function makeRequest(id: string): TeeRequest {
+  return { id, method: 'ping', params: {}, timestamp: Date.now() };
+}
+
+describe('UnixSocketClient multiplexing', () => {
+  const socketPath = '/tmp/enclave-framed-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  it('should route out-of-order responses to the matching callers', async () => {
+    const first = client.sendRequest(makeRequest('req-1'));
+    const second = client.sendRequest(makeRequest('req-2'));
+
+    await enclave.waitForRequests(2);
+    expect(client.getInflightCount()).toBe(2);
+
+    enclave.respond({ id: 'req-2', success: true, data: { n: 2 } });
+    enclave.respond({ id: 'req-1', success: true, data: { n: 1 } });
+
+    await expect(first).resolves.toMatchObject({ id: 'req-1', data: { n: 1 } });
+    await expect(second).resolves.toMatchObject({ id: 'req-2', data: { n: 2 } });
+    expect(client.getInflightCount()).toBe(0);
+  });
+
+  it('should ignore responses for unknown request ids', async () => {
+    const pending = client.sendRequest(makeRequest('req-1'));
+    await enclave.waitForRequests(1);
+
+    enclave.respond({ id: 'orphan', success: true });
+    enclave.respond({ id: 'req-1', success: true });
+
+    await expect(pending).resolves.toMatchObject({ id: 'req-1' });
+  });
+
+  it('should reject a request whose id is already in flight', async () => {
+    const pending = client.sendRequest(makeRequest('req-1'));
+
+    await expect(client.sendRequest(makeRequest('req-1'))).rejects.toThrow(/already in flight/);
+
+    await enclave.waitForRequests(1);
+    enclave.respond({ id: 'req-1', success: true });
+    await expect(pending).resolves.toMatchObject({ id: 'req-1' });
+  });
+
+  it('should reject all in-flight requests when the connection closes', async () => {
+    const first = client.sendRequest(makeRequest('req-1'));
+    const second = client.sendRequest(makeRequest('req-2'));
+    await enclave.waitForRequests(2);
+
+    enclave.dropConnection();
+
+    await expect(first).rejects.toThrow(VsocketError);
+    await expect(second).rejects.toThrow(VsocketError);
+    expect(client.isConnected()).toBe(false);
+  });
+});
+
+describe('UnixSocketClient deadlines', () => {
+  const socketPath = '/tmp/enclave-deadline-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+    requestTimeoutMs: 1000,
+    methodTimeouts: { slow_method: 20 },
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  it('should reject with EnclaveTimeoutError when the per-call deadline passes', async () => {
+    const pending = client.sendRequest(makeRequest('req-1'), { timeoutMs: 20 });
+
+    await expect(pending).rejects.toThrow(EnclaveTimeoutError);
+    expect(client.getInflightCount()).toBe(0);
+  });
+
+  it('should apply per-method timeouts from config', async () => {
+    const pending = client.sendRequest({ ...makeRequest('req-1'), method: 'slow_method' });
+
+    await expect(pending).rejects.toThrow(/slow_method timed out after 20ms/);
+  });
+
+  it('should drop a late response after the deadline', async () => {
+    await expect(client.sendRequest(makeRequest('req-1'), { timeoutMs: 20 })).rejects.toThrow(
+      EnclaveTimeoutError
+    );
+
+    enclave.respond({ id: 'req-1', success: true });
+
+    const next = client.sendRequest(makeRequest('req-2'));
+    await enclave.waitForRequests(2);
+    enclave.respond({ id: 'req-2', success: true });
+    await expect(next).resolves.toMatchObject({ id: 'req-2' });
+  });
+
+  it('should reject when the abort signal fires', async () => {
+    const controller = new AbortController();
+    const pending = client.sendRequest(makeRequest('req-1'), { signal: controller.signal });
+    await enclave.waitForRequests(1);
+
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(/aborted/);
+    expect(client.getInflightCount()).toBe(0);
+  });
+
+  it('should refuse an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.sendRequest(makeRequest('req-1'), { signal: controller.signal })
+    ).rejects.toThrow(VsocketError);
+  });
+});
+
+describe('UnixSocketClient reconnection', () => {
+  const socketPath = '/tmp/enclave-reconnect-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+    keepaliveIntervalMs: 0,
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  function once(event: 'connected' | 'disconnected' | 'reconnecting'): Promise<void> {
+    return new Promise((resolve) => client.once(event, () => resolve()));
+  }
+
+  it('should reconnect after the enclave drops the connection', async () => {
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+    expect(client.getConnectionState()).toBe('connected');
+
+    const events: string[] = [];
+    client.on('disconnected', () => events.push('disconnected'));
+    client.on('reconnecting', () => events.push('reconnecting'));
+    client.on('connected', () => events.push('connected'));
+
+    const reconnected = once('connected');
+    enclave.dropConnection();
+    await reconnected;
+
+    expect(events).toEqual(['disconnected', 'reconnecting', 'connected']);
+    expect(client.isConnected()).toBe(true);
+
+    const pending = client.sendRequest(makeRequest('after-reconnect'));
+    await enclave.waitForRequests(1);
+    enclave.respond({ id: 'after-reconnect', success: true });
+    await expect(pending).resolves.toMatchObject({ id: 'after-reconnect' });
+  });
+
+  it('should drop and re-establish the connection when a keepalive ping goes unanswered', async () => {
+    client = new UnixSocketClient(
+      { ...config, keepaliveIntervalMs: 20, keepaliveTimeoutMs: 20 },
+      socketPath
+    );
+    await client.connect();
+
+    await once('disconnected');
+    expect(enclave.received[0]).toMatchObject({ method: 'ping' });
+
+    await once('connected');
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('should not reconnect after an explicit disconnect', async () => {
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+
+    const reconnecting = jest.fn();
+    client.on('reconnecting', reconnecting);
+    await client.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(reconnecting).not.toHaveBeenCalled();
+    expect(client.getConnectionState()).toBe('disconnected');
+  });
+});
+
+describe('UnixSocketClient handshake', () => {
+  const socketPath = '/tmp/enclave-handshake-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+    keepaliveIntervalMs: 0,
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+    client = new UnixSocketClient(config, socketPath);
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  it('should expose the negotiated protocol after connecting', async () => {
+    enclave.helloData = {
+      protocolVersion: '1.2',
+      capabilities: ['streaming'],
+      enclaveVersion: '2.0.0',
+    };
+
+    await client.connect();
+
+    expect(client.getProtocolInfo()).toEqual({
+      version: '1.2',
+      encoding: 'json',
+      capabilities: ['streaming'],
+      enclaveVersion: '2.0.0',
+      legacy: false,
+    });
+  });
+
+  it('should refuse an enclave with a different major protocol version', async () => {
+    enclave.helloData = { protocolVersion: '2.0' };
+
+    await expect(client.connect()).rejects.toThrow(ProtocolError);
+    expect(client.isConnected()).toBe(false);
+    expect(client.getConnectionState()).toBe('disconnected');
+  });
+
+  it.each(['msgpack', 'cbor'] as const)(
+    'should exchange %s frames after negotiating it',
+    async (encoding) => {
+      client = new UnixSocketClient({ ...config, encoding: 'auto' }, socketPath);
+      enclave.helloData = { protocolVersion: '1.0', encoding };
+      await client.connect();
+
+      const document = Buffer.from('d2845840', 'hex');
+      const pending = client.sendRequest(makeRequest('req-1'));
+      await enclave.waitForRequests(1);
+      expect(enclave.received[0]).toMatchObject({ id: 'req-1', method: 'ping' });
+
+      enclave.respond({ id: 'req-1', success: true, data: { document } });
+
+      const response = await pending;
+      expect(client.getProtocolInfo()?.encoding).toBe(encoding);
+      expect(Buffer.from((response.data as { document: Uint8Array }).document)).toEqual(document);
+    }
+  );
+});
+
+describe('UnixSocketClient streaming', () => {
+  const socketPath = '/tmp/enclave-stream-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+    keepaliveIntervalMs: 0,
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  async function collect(frames: AsyncIterable<TeeResponse>): Promise<TeeResponse[]> {
+    const collected: TeeResponse[] = [];
+    for await (const frame of frames) {
+      collected.push(frame);
+    }
+    return collected;
+  }
+
+  it('should yield chunks in order and finish at the end marker', async () => {
+    const frames = collect(client.streamRequest(makeRequest('s-1')));
+    await enclave.waitForRequests(1);
+    expect(enclave.received[0]).toMatchObject({ id: 's-1', stream: true });
+
+    enclave.respond({ id: 's-1', success: true, stream: 'chunk', seq: 0, data: 'a' });
+    enclave.respond({ id: 's-1', success: true, stream: 'chunk', seq: 1, data: 'b' });
+    enclave.respond({ id: 's-1', success: true, stream: 'end', seq: 2, signature: '0xsig' });
+
+    expect((await frames).map((frame) => frame.stream)).toEqual(['chunk', 'chunk', 'end']);
+    expect(client.getInflightCount()).toBe(0);
+  });
+
+  it('should yield a single frame when the enclave does not stream', async () => {
+    const frames = collect(client.streamRequest(makeRequest('s-1')));
+    await enclave.waitForRequests(1);
+
+    enclave.respond({ id: 's-1', success: true, data: { whole: true } });
+
+    expect(await frames).toEqual([{ id: 's-1', success: true, data: { whole: true } }]);
+  });
+
+  it('should apply the deadline to the gap between frames', async () => {
+    const stream = client.streamRequest(makeRequest('s-1'), { timeoutMs: 50 });
+    await enclave.waitForRequests(1);
+
+    for (let seq = 0; seq < 3; seq++) {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      enclave.respond({ id: 's-1', success: true, stream: 'chunk', seq });
+    }
+
+    await expect(stream.next()).resolves.toMatchObject({ value: { seq: 0 } });
+    await stream.next();
+    await stream.next();
+    await expect(stream.next()).rejects.toThrow(EnclaveTimeoutError);
+  });
+
+  it('should cancel the request when the consumer stops early', async () => {
+    const stream = client.streamRequest(makeRequest('s-1'));
+    await enclave.waitForRequests(1);
+    enclave.respond({ id: 's-1', success: true, stream: 'chunk', seq: 0 });
+
+    for await (const frame of stream) {
+      expect(frame.seq).toBe(0);
+      break;
+    }
+
+    expect(client.getInflightCount()).toBe(0);
+  });
+
+  it('should fail the stream when the connection drops', async () => {
+    const frames = collect(client.streamRequest(makeRequest('s-1')));
+    await enclave.waitForRequests(1);
+
+    enclave.dropConnection();
+
+    await expect(frames).rejects.toThrow(VsocketError);
+  });
+
+  it('should reject chunks sent for a non-streaming request', async () => {
+    const pending = client.sendRequest(makeRequest('req-1'));
+    await enclave.waitForRequests(1);
+
+    enclave.respond({ id: 'req-1', success: true, stream: 'chunk', seq: 0 });
+
+    await expect(pending).rejects.toThrow(/Unexpected stream chunk/);
+  });
+});
+
+describe('UnixSocketClient host services', () => {
+  const socketPath = '/tmp/enclave-host-services-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+    keepaliveIntervalMs: 0,
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  it('should answer enclave requests from the registered handlers', async () => {
+    const registry = new HostServiceRegistry().register('echo', (params: unknown, call) => ({
+      params,
+      tappId: call.tappId,
+    }));
+    client.setHostServices(registry, { tappId: 'tapp-1' });
+
+    enclave.call({ id: 'enclave-1', method: 'echo', params: { x: 1 }, timestamp: Date.now() });
+    await enclave.waitForResponses(1);
+
+    expect(enclave.responses[0]).toEqual({
+      id: 'enclave-1',
+      success: true,
+      data: { params: { x: 1 }, tappId: 'tapp-1' },
+    });
+  });
+
+  it('should keep host and enclave request ids apart', async () => {
+    client.setHostServices(
+      new HostServiceRegistry().register('echo', () => 'from host'),
+      {
+        tappId: 'tapp-1',
+      }
+    );
+
+    const pending = client.sendRequest(makeRequest('shared-id'));
+    await enclave.waitForRequests(1);
+    enclave.call({ id: 'shared-id', method: 'echo', params: {}, timestamp: Date.now() });
+    await enclave.waitForResponses(1);
+    enclave.respond({ id: 'shared-id', success: true, data: 'from enclave' });
+
+    await expect(pending).resolves.toMatchObject({ data: 'from enclave' });
+    expect(enclave.responses[0]).toMatchObject({ id: 'shared-id', data: 'from host' });
+  });
+
+  it('should report unknown methods when no registry is set', async () => {
+    enclave.call({ id: 'enclave-1', method: 'storage_get', params: {}, timestamp: Date.now() });
+    await enclave.waitForResponses(1);
+
+    expect(enclave.responses[0]).toEqual({
+      id: 'enclave-1',
+      success: false,
+      error: 'Unknown method: storage_get',
+    });
+  });
+});
+
+describe('UnixSocketClient malformed frames', () => {
+  const socketPath = '/tmp/enclave-malformed-test.sock';
+  const config: VsockConfig = {
+    cid: 3,
+    port: 3000,
+    timeoutMs: 2000,
+    retryAttempts: 1,
+    retryDelayMs: 10,
+    keepaliveIntervalMs: 0,
+    maxFrameBytes: 1024,
+  };
+
+  let enclave: ScriptedEnclave;
+  let client: UnixSocketClient;
+
+  beforeEach(async () => {
+    enclave = new ScriptedEnclave(socketPath);
+    await enclave.start();
+    client = new UnixSocketClient(config, socketPath);
+    await client.connect();
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    await enclave.stop();
+  });
+
+  it('should drop the connection on an oversized length prefix and reconnect', async () => {
+    const pending = client.sendRequest(makeRequest('req-1'));
+    await enclave.waitForRequests(1);
+
+    const reconnected = new Promise<void>((resolve) => client.once('connected', () => resolve()));
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(0xfffffff0, 0);
+    enclave.sendRaw(header);
+
+    await expect(pending).rejects.toThrow(FrameError);
+    await reconnected;
+    expect(client.getRejectedFrameStats()).toMatchObject({ oversized: 1 });
+  });
+
+  it('should drop the connection on an undecodable payload', async () => {
+    const pending = client.sendRequest(makeRequest('req-1'));
+    await enclave.waitForRequests(1);
+
+    enclave.sendRaw(encodeFrame(Buffer.from('{not json')));
+
+    await expect(pending).rejects.toThrow(/json decode failed/);
+    expect(client.getRejectedFrameStats()).toMatchObject({ undecodable: 1 });
+  });
+
+  it('should reject only the caller of a malformed response and keep the connection', async () => {
+    const first = client.sendRequest(makeRequest('req-1'));
+    const second = client.sendRequest(makeRequest('req-2'));
+    await enclave.waitForRequests(2);
+
+    enclave.sendRaw(encodeFrame(Buffer.from(JSON.stringify({ id: 'req-1', success: 'yes' }))));
+    enclave.sendRaw(encodeFrame(Buffer.from('[1,2,3]')));
+    enclave.respond({ id: 'req-2', success: true });
+
+    await expect(first).rejects.toThrow('Malformed response for request req-1');
+    await expect(second).resolves.toMatchObject({ id: 'req-2' });
+    expect(client.isConnected()).toBe(true);
+    expect(client.getRejectedFrameStats()).toEqual({ oversized: 0, undecodable: 0, malformed: 2 });
+  });
+
+  it('should refuse to send a request above the frame size limit', async () => {
+    const request = { ...makeRequest('big'), params: { blob: 'x'.repeat(2048) } };
+
+    await expect(client.sendRequest(request)).rejects.toThrow(FrameError);
+    expect(client.getInflightCount()).toBe(0);
+  });
+});
+
+describe('FrameDecoder', () => {
+  it('should reassemble frames split across chunks', () => {
+    const decoder = new FrameDecoder();
+    const frame = encodeFrame(Buffer.from('{"id":"a"}'));
+
+    expect(decoder.push(frame.subarray(0, 3))).toHaveLength(0);
+    expect(decoder.push(frame.subarray(3, 8))).toHaveLength(0);
+
+    const frames = decoder.push(frame.subarray(8));
+    expect(frames).toHaveLength(1);
+    expect(frames[0]!.toString()).toBe('{"id":"a"}');
+    expect(decoder.pendingBytes).toBe(0);
+  });
+
+  it('should reject a length prefix above the limit before buffering the payload', () => {
+    const decoder = new FrameDecoder(16);
+    const frame = encodeFrame(Buffer.alloc(17));
+
+    expect(() => decoder.push(frame.subarray(0, 4))).toThrow(FrameError);
+    expect(decoder.pendingBytes).toBe(0);
+  });
+
+  it('should emit several frames from a single chunk', () => {
+    const decoder = new FrameDecoder();
+    const chunk = Buffer.concat([encodeFrame(Buffer.from('a')), encodeFrame(Buffer.from('bc'))]);
+
+    expect(decoder.push(chunk).map((f) => f.toString())).toEqual(['a', 'bc']);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for enclave public key tracking
+ */
+
+import { X509Certificate } from 'crypto';
+import { NitroAttestationVerifier } from '../../src/attestation/nitro';
+import { EnclaveKeyTracker, fingerprint } from '../../src/enclaves/keys';
+import { TeeRequest, TeeResponse } from '../../src/types';
+import { createTestAttestation, testCa } from '../helpers/nitro';
+import { flush, StubClient } from '../helpers/stub-client';
+
+const KEY_A = '0x04aaaa';
+const KEY_B = '0x04bbbb';
+
+class KeyStubClient extends StubClient {
+  publicKey = KEY_A;
+  attestedKey?: string; // Key in the document, when not the reported one
+  attests = true;
+
+  override respond = (req: TeeRequest): TeeResponse => {
+    if (req.method !== 'get_attestation') {
+      return { id: req.id, success: true, data: { publicKey: this.publicKey } };
+    }
+    if (!this.attests) {
+      return { id: req.id, success: false, error: 'Attestation not supported' };
+    }
+    const key = this.attestedKey ?? this.publicKey;
+    return {
+      id: req.id,
+      success: true,
+      data: {
+        attestation: createTestAttestation({
+          publicKey: Buffer.from(key.slice(2), 'hex'),
+        }).toString('base64'),
+        certificates: [testCa.root.toString('base64')],
+        publicKey: this.publicKey,
+      },
+    };
+  };
+}
+
+describe('EnclaveKeyTracker', () => {
+  const verifier = new NitroAttestationVerifier({
+    rootCertificate: new X509Certificate(testCa.root),
+  });
+  let stub: KeyStubClient;
+  let tracker: EnclaveKeyTracker;
+
+  beforeEach(() => {
+    stub = new KeyStubClient();
+    tracker = new EnclaveKeyTracker('tapp-a', stub, verifier);
+  });
+
+  it('should cache the attested key with its attestation', async () => {
+    const key = await tracker.refresh();
+
+    expect(key).toMatchObject({
+      publicKey: KEY_A,
+      fingerprint: fingerprint(KEY_A),
+      source: 'attestation',
+      certificateChain: [testCa.root],
+    });
+    expect(key.attestationDoc).toBeInstanceOf(Buffer);
+    expect(tracker.getStatus()).toMatchObject({ publicKey: KEY_A, keyChanges: 0 });
+  });
+
+  it('should fall back to get_public_key when the enclave cannot attest', async () => {
+    stub.attests = false;
+
+    const key = await tracker.refresh();
+
+    expect(key).toMatchObject({ publicKey: KEY_A, source: 'get_public_key' });
+    expect(stub.methods).toEqual(['get_attestation', 'get_public_key']);
+  });
+
+  it('should not trust a key its attestation document does not attest', async () => {
+    stub.attestedKey = KEY_B;
+
+    const key = await tracker.refresh();
+
+    expect(key).toMatchObject({ publicKey: KEY_A, source: 'get_public_key' });
+    expect(key.attestationDoc).toBeUndefined();
+    expect(stub.methods).toEqual(['get_attestation', 'get_public_key']);
+  });
+
+  it('should not trust an attestation without a trusted root', async () => {
+    tracker = new EnclaveKeyTracker('tapp-a', stub, new NitroAttestationVerifier());
+
+    const key = await tracker.refresh();
+
+    expect(key).toMatchObject({ publicKey: KEY_A, source: 'get_public_key' });
+  });
+
+  it('should keep the first-seen time while the key stays the same', async () => {
+    const first = await tracker.refresh();
+    const second = await tracker.refresh();
+
+    expect(second.firstSeen).toBe(first.firstSeen);
+    expect(tracker.getStatus().keyChanges).toBe(0);
+  });
+
+  it('should detect a key change and remember the replaced key', async () => {
+    const keyChanged = jest.fn();
+    tracker.on('keyChanged', keyChanged);
+    await tracker.refresh();
+
+    stub.publicKey = KEY_B;
+    await tracker.refresh();
+
+    expect(keyChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ publicKey: KEY_B }),
+      expect.objectContaining({ publicKey: KEY_A })
+    );
+    expect(tracker.getStatus()).toMatchObject({
+      publicKey: KEY_B,
+      keyChanges: 1,
+      previousKeys: [{ publicKey: KEY_A, fingerprint: fingerprint(KEY_A) }],
+    });
+  });
+
+  it('should fetch the key when started and after every reconnect', async () => {
+    tracker.start();
+    await flush();
+    stub.publicKey = KEY_B;
+    stub.emit('connected');
+    await flush();
+
+    expect(stub.methods).toEqual(['get_attestation', 'get_attestation']);
+    expect(tracker.getKey()?.publicKey).toBe(KEY_B);
+
+    tracker.stop();
+    stub.emit('connected');
+    await flush();
+    expect(stub.methods).toHaveLength(2);
+  });
+
+  it('should share one request between concurrent refreshes', async () => {
+    await Promise.all([tracker.refresh(), tracker.refresh()]);
+
+    expect(stub.methods).toEqual(['get_attestation']);
+  });
+});
+
+describe('fingerprint', () => {
+  it('should hash the key bytes regardless of the 0x prefix', () => {
+    expect(fingerprint('0x04aaaa')).toBe(fingerprint('04aaaa'));
+    expect(fingerprint('0x04aaaa')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
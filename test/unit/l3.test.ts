@@ -5,7 +5,8 @@
 import axios from 'axios';
 import { L3Client } from '../../src/l3/client';
 import { L3Config, AttestationBundle } from '../../src/types';
-import { L3Error } from '../../src/utils/errors';
+import { CircuitOpenError, ConfigError, L3Error } from '../../src/utils/errors';
+import logger from '../../src/utils/logger';
 
 // Mock axios
 jest.mock('axios');
@@ -136,6 +137,29 @@ describe('L3Client', () => {
     });
   });
 
+  describe('circuit breaker', () => {
+    it('should fail fast once L3 calls keep failing', async () => {
+      client = new L3Client({
+        ...config,
+        circuitBreaker: { minimumRequests: 2, cooldownMs: 1000 },
+      });
+      mockedAxios.get.mockRejectedValue({ message: 'Service unavailable' });
+
+      await expect(client.queryConsensusStatus('att-1')).rejects.toThrow(L3Error);
+      await expect(client.queryConsensusStatus('att-2')).rejects.toThrow(L3Error);
+      await expect(client.queryConsensusStatus('att-3')).rejects.toThrow(CircuitOpenError);
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      expect(client.getBreakerStats()).toMatchObject({ state: 'open', opens: 1 });
+    });
+
+    it('should not report a breaker when it is disabled', () => {
+      client = new L3Client({ ...config, circuitBreaker: { enabled: false } });
+
+      expect(client.getBreakerStats()).toBeUndefined();
+    });
+  });
+
   describe('checkHealth', () => {
     it('should return true when endpoint is reachable', async () => {
       mockedAxios.get.mockResolvedValue({ data: { status: 'ok' } });
@@ -167,4 +191,162 @@ describe('L3Client', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('guardian quorum', () => {
+    const guardians = [
+      'http://guardian-a:3001',
+      'http://guardian-b:3001',
+      'http://guardian-c:3001',
+    ];
+    const accepted = (id: string) => ({
+      data: { attestation_id: id, submission_time: '2024-01-01T00:00:00Z', status: 'pending' },
+    });
+
+    beforeEach(() => {
+      client = new L3Client({ ...config, endpoint: undefined, guardians, retryAttempts: 1 });
+    });
+
+    it('should submit to every guardian and succeed once a majority accepts', async () => {
+      mockedAxios.post.mockImplementation((url: string) =>
+        url.startsWith('http://guardian-c')
+          ? Promise.reject({ message: 'Connection refused' })
+          : Promise.resolve(accepted('att-123'))
+      );
+
+      const result = await client.submitAttestation(mockBundle);
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+      expect(result.attestationId).toBe('att-123');
+      expect(result.acceptedBy).toEqual(['http://guardian-a:3001', 'http://guardian-b:3001']);
+      expect(client.getQuorum()).toBe(2);
+    });
+
+    it('should fail when the quorum cannot be reached', async () => {
+      mockedAxios.post.mockImplementation((url: string) =>
+        url.startsWith('http://guardian-a')
+          ? Promise.resolve(accepted('att-123'))
+          : Promise.reject({ message: 'Connection refused' })
+      );
+
+      await expect(client.submitAttestation(mockBundle)).rejects.toThrow(
+        /accepted by 1 of 3 guardians, quorum is 2/
+      );
+    });
+
+    it('should require the accepting guardians to agree on the attestation ID', async () => {
+      mockedAxios.post.mockImplementation((url: string) =>
+        Promise.resolve(accepted(url.startsWith('http://guardian-a') ? 'att-1' : 'att-2'))
+      );
+      await expect(client.submitAttestation(mockBundle)).resolves.toMatchObject({
+        attestationId: 'att-2',
+        acceptedBy: ['http://guardian-b:3001', 'http://guardian-c:3001'],
+      });
+
+      mockedAxios.post.mockImplementation((url: string) =>
+        url.startsWith('http://guardian-c')
+          ? Promise.reject({ message: 'Connection refused' })
+          : Promise.resolve(accepted(url.startsWith('http://guardian-a') ? 'att-1' : 'att-2'))
+      );
+      const warn = jest.spyOn(logger, 'warn');
+      await expect(client.submitAttestation(mockBundle)).rejects.toThrow(
+        /accepted by 1 of 3 guardians, quorum is 2: .*guardians disagree on the attestation ID: att-1 \(1\), att-2 \(1\)/
+      );
+      expect(warn).toHaveBeenCalledWith('L3 guardians disagree on the attestation ID', {
+        attestationIds: 'att-1 (1), att-2 (1)',
+      });
+      warn.mockRestore();
+    });
+
+    it('should stop retrying late guardians once the quorum is reached', async () => {
+      jest.useFakeTimers();
+      client = new L3Client({ ...config, endpoint: undefined, guardians, retryAttempts: 3 });
+      mockedAxios.post.mockImplementation((url: string) =>
+        url.startsWith('http://guardian-c')
+          ? Promise.reject({ message: 'Connection refused' })
+          : Promise.resolve(accepted('att-123'))
+      );
+
+      await expect(client.submitAttestation(mockBundle)).resolves.toMatchObject({
+        attestationId: 'att-123',
+      });
+      await jest.advanceTimersByTimeAsync(10000);
+      jest.useRealTimers();
+
+      const late = mockedAxios.post.mock.calls.filter(([url]) =>
+        url.startsWith('http://guardian-c')
+      );
+      expect(late).toHaveLength(1);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://guardian-c:3001/attestation/submit',
+        expect.anything(),
+        expect.objectContaining({ signal: expect.objectContaining({ aborted: true }) })
+      );
+    });
+
+    it('should honour a configured quorum', async () => {
+      client = new L3Client({ ...config, guardians, quorum: 3, retryAttempts: 1 });
+      mockedAxios.post.mockImplementation((url: string) =>
+        url.startsWith('http://guardian-c')
+          ? Promise.reject({ message: 'Connection refused' })
+          : Promise.resolve(accepted('att-123'))
+      );
+
+      await expect(client.submitAttestation(mockBundle)).rejects.toThrow(L3Error);
+    });
+
+    it('should reject a quorum larger than the guardian set', () => {
+      expect(() => new L3Client({ ...config, guardians, quorum: 4 })).toThrow(ConfigError);
+    });
+
+    it('should report reachability and the last error of each guardian', async () => {
+      mockedAxios.get.mockImplementation((url: string) =>
+        url.startsWith('http://guardian-b')
+          ? Promise.reject({ message: 'Timeout' })
+          : Promise.resolve({ data: { status: 'ok' } })
+      );
+
+      await expect(client.checkHealth()).resolves.toBe(true);
+
+      expect(client.getGuardianStatus()).toEqual([
+        expect.objectContaining({ endpoint: 'http://guardian-a:3001', reachable: true }),
+        expect.objectContaining({
+          endpoint: 'http://guardian-b:3001',
+          reachable: false,
+          lastError: 'Timeout',
+          lastErrorAt: expect.any(Date),
+        }),
+        expect.objectContaining({ endpoint: 'http://guardian-c:3001', reachable: true }),
+      ]);
+    });
+
+    it('should reuse a recent health check of the guardians', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'ok' } });
+
+      await Promise.all([client.checkHealth(), client.checkHealth()]);
+      await client.checkHealth();
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should query consensus status from the next guardian when one fails', async () => {
+      mockedAxios.get
+        .mockRejectedValueOnce({ message: 'Connection refused' })
+        .mockResolvedValueOnce({
+          data: {
+            attestation_id: 'att-123',
+            status: 'achieved',
+            guardians_verified: 2,
+            total_guardians: 3,
+          },
+        });
+
+      const result = await client.queryConsensusStatus('att-123');
+
+      expect(result.status).toBe('achieved');
+      expect(mockedAxios.get).toHaveBeenLastCalledWith(
+        'http://guardian-b:3001/attestation/status/att-123',
+        expect.anything()
+      );
+    });
+  });
 });
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the enclave image measurement allowlist
+ */
+
+import { X509Certificate } from 'crypto';
+import { NitroAttestationVerifier } from '../../src/attestation/nitro';
+import { findAllowedMeasurements } from '../../src/attestation/policy';
+import { MeasurementPolicySocketClient } from '../../src/vsock/measurements';
+import { PcrMeasurements, TeeRequest, TeeResponse } from '../../src/types';
+import { MeasurementPolicyError } from '../../src/utils/errors';
+import { createTestAttestation, defaultPcrs, testCa } from '../helpers/nitro';
+import { StubClient } from '../helpers/stub-client';
+
+const pcrs = defaultPcrs();
+const APPROVED: PcrMeasurements = {
+  pcr0: pcrs[0]!.toString('hex'),
+  pcr1: pcrs[1]!.toString('hex'),
+  pcr2: pcrs[2]!.toString('hex'),
+};
+
+class AttestingClient extends StubClient {
+  document?: Buffer = createTestAttestation();
+
+  override respond = (req: TeeRequest): TeeResponse =>
+    req.method === 'get_attestation'
+      ? {
+          id: req.id,
+          success: true,
+          data: { attestation: this.document?.toString('base64'), publicKey: '0x04aa' },
+        }
+      : { id: req.id, success: true, data: { pong: true } };
+}
+
+function request(method: string): TeeRequest {
+  return { id: `req-${method}`, method, params: {}, timestamp: Date.now() };
+}
+
+describe('findAllowedMeasurements', () => {
+  it('should match regardless of case and 0x prefix', () => {
+    const entry = { ...APPROVED, pcr0: '0x' + APPROVED.pcr0.toUpperCase() };
+    expect(findAllowedMeasurements(APPROVED, [entry])).toBe(entry);
+  });
+
+  it('should require every PCR of the entry to match', () => {
+    const other = { ...APPROVED, pcr2: 'ff'.repeat(48) };
+    expect(findAllowedMeasurements(APPROVED, [other])).toBeUndefined();
+  });
+
+  it('should only compare PCR8 when the entry sets it', () => {
+    const signed = { ...APPROVED, pcr8: '00'.repeat(48) };
+
+    expect(findAllowedMeasurements(APPROVED, [signed])).toBeUndefined();
+    expect(findAllowedMeasurements({ ...APPROVED, pcr8: '00'.repeat(48) }, [signed])).toBe(signed);
+    expect(findAllowedMeasurements({ ...APPROVED, pcr8: '11'.repeat(48) }, [APPROVED])).toBe(
+      APPROVED
+    );
+  });
+});
+
+describe('MeasurementPolicySocketClient', () => {
+  const verifier = new NitroAttestationVerifier({
+    rootCertificate: new X509Certificate(testCa.root),
+  });
+  let stub: AttestingClient;
+
+  function policyClient(allowed: PcrMeasurements[] = [APPROVED]): MeasurementPolicySocketClient {
+    return new MeasurementPolicySocketClient(stub, {
+      tappId: 'tapp-a',
+      allowed,
+      verifier,
+    });
+  }
+
+  beforeEach(() => {
+    stub = new AttestingClient();
+  });
+
+  it('should check the attestation before the first request and then let requests through', async () => {
+    const client = policyClient();
+
+    await expect(client.sendRequest(request('ping'))).resolves.toMatchObject({ success: true });
+    await client.sendRequest(request('ping'));
+
+    expect(stub.methods).toEqual(['get_attestation', 'ping', 'ping']);
+    expect(client.getPolicyStatus()).toMatchObject({
+      verdict: 'allowed',
+      measurements: APPROVED,
+      allowedMeasurements: 1,
+    });
+  });
+
+  it('should refuse requests to an enclave running an image that is not approved', async () => {
+    const client = policyClient([{ ...APPROVED, pcr0: 'ff'.repeat(48) }]);
+
+    await expect(client.sendRequest(request('ping'))).rejects.toThrow(MeasurementPolicyError);
+    await expect(async () => {
+      for await (const _frame of client.streamRequest(request('ping'))) {
+        // Not reached
+      }
+    }).rejects.toThrow(/is not approved/);
+
+    expect(stub.methods).toEqual(['get_attestation']);
+    expect(client.getPolicyStatus()).toMatchObject({
+      verdict: 'rejected',
+      reason: 'Enclave measurements are not in the allowlist',
+      measurements: APPROVED,
+    });
+  });
+
+  it('should fail get_attestation for an image that is not approved', async () => {
+    const client = policyClient([{ ...APPROVED, pcr1: 'ff'.repeat(48) }]);
+
+    await expect(client.sendRequest(request('get_attestation'))).rejects.toThrow(
+      MeasurementPolicyError
+    );
+  });
+
+  it('should reject attestations that fail verification', async () => {
+    stub.document = createTestAttestation({
+      cabundle: [testCa.untrustedRoot, testCa.intermediate],
+    });
+    const client = policyClient();
+
+    await expect(client.sendRequest(request('ping'))).rejects.toThrow(MeasurementPolicyError);
+    expect(client.getPolicyStatus()).toMatchObject({
+      verdict: 'rejected',
+      reason: expect.stringMatching(/not trusted/),
+    });
+  });
+
+  it('should reject enclaves that do not provide an attestation', async () => {
+    stub.document = undefined;
+    const client = policyClient();
+
+    await expect(client.sendRequest(request('ping'))).rejects.toThrow(
+      'Enclave for TAPP tapp-a is not approved: Enclave did not provide an attestation document'
+    );
+  });
+
+  it('should evaluate attestations fetched by others and forget the verdict on disconnect', async () => {
+    const client = policyClient();
+
+    await client.sendRequest(request('get_attestation'));
+    await client.sendRequest(request('ping'));
+    stub.emit('disconnected');
+
+    expect(client.getPolicyStatus().verdict).toBe('pending');
+    await client.sendRequest(request('ping'));
+    expect(stub.methods).toEqual(['get_attestation', 'ping', 'get_attestation', 'ping']);
+  });
+});
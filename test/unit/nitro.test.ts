@@ -0,0 +1,191 @@
+/**
+ * Unit tests for Nitro attestation document verification
+ */
+
+import { X509Certificate } from 'crypto';
+import {
+  NitroAttestationVerifier,
+  attestsPublicKey,
+  parseNitroAttestation,
+} from '../../src/attestation/nitro';
+import { AttestationError } from '../../src/utils/errors';
+import { createTestAttestation, testCa } from '../helpers/nitro';
+
+const NOW = new Date('2030-01-01T00:00:00Z');
+const PUBLIC_KEY = Buffer.from('04' + 'ab'.repeat(64), 'hex');
+
+describe('parseNitroAttestation', () => {
+  it('should read the uint64 timestamp real documents carry', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime() });
+    const uint64 = Buffer.alloc(9);
+    uint64[0] = 0x1b;
+    uint64.writeBigUInt64BE(BigInt(NOW.getTime()), 1);
+
+    expect(doc.includes(Buffer.concat([Buffer.from('timestamp'), uint64]))).toBe(true);
+    expect(parseNitroAttestation(doc).timestamp).toEqual(NOW);
+  });
+
+  it('should reject a timestamp beyond the safe integer range', () => {
+    const doc = createTestAttestation({ timestamp: 2n ** 64n - 1n });
+    expect(() => parseNitroAttestation(doc)).toThrow('Attestation document has no timestamp');
+  });
+
+  it('should decode the payload fields', () => {
+    const doc = createTestAttestation({
+      timestamp: NOW.getTime(),
+      publicKey: PUBLIC_KEY,
+      nonce: Buffer.from('nonce'),
+    });
+
+    const attestation = parseNitroAttestation(doc);
+
+    expect(attestation).toMatchObject({
+      moduleId: 'i-0123456789abcdef0-enc0123456789abcdef',
+      digest: 'SHA384',
+      timestamp: NOW,
+      certificate: testCa.leaf,
+      cabundle: [testCa.root, testCa.intermediate],
+      publicKey: PUBLIC_KEY,
+      nonce: Buffer.from('nonce'),
+    });
+    expect(attestation.pcrs[0]).toBe('01'.repeat(48));
+    expect(attestation.userData).toBeUndefined();
+  });
+
+  it('should accept untagged COSE_Sign1 documents', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime(), tagged: false });
+    expect(parseNitroAttestation(doc).moduleId).toBeDefined();
+  });
+
+  it('should reject data that is not CBOR', () => {
+    expect(() => parseNitroAttestation(Buffer.from([0xff, 0xff]))).toThrow(AttestationError);
+  });
+
+  it('should reject documents without PCRs', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime(), pcrs: {} });
+    expect(() => parseNitroAttestation(doc)).toThrow('Attestation document has no PCRs');
+  });
+
+  it('should reject PCR values of the wrong length', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime(), pcrs: { 0: Buffer.alloc(5) } });
+    expect(() => parseNitroAttestation(doc)).toThrow('Invalid value for PCR0');
+  });
+});
+
+describe('NitroAttestationVerifier', () => {
+  const trusted = new NitroAttestationVerifier({
+    rootCertificate: new X509Certificate(testCa.root),
+  });
+
+  it('should verify a document signed by a certificate chaining to the trusted root', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime(), publicKey: PUBLIC_KEY });
+
+    const attestation = trusted.verify(doc, NOW);
+
+    expect(attestation.publicKey).toEqual(PUBLIC_KEY);
+    expect(trusted.hasTrustedRoot()).toBe(true);
+  });
+
+  it('should reject every document when no root is configured', () => {
+    const verifier = new NitroAttestationVerifier();
+    const doc = createTestAttestation({ timestamp: NOW.getTime() });
+
+    expect(verifier.hasTrustedRoot()).toBe(false);
+    expect(() => verifier.verify(doc, NOW)).toThrow(
+      'No trusted attestation root certificate is configured'
+    );
+  });
+
+  it('should reject a document whose payload changed after signing', () => {
+    const doc = createTestAttestation({
+      timestamp: NOW.getTime(),
+      tamper: (payload) => {
+        const changed = Buffer.from(payload);
+        const at = changed.indexOf('i-0123456789abcdef0');
+        changed[at] = 'j'.charCodeAt(0);
+        return changed;
+      },
+    });
+
+    expect(() => trusted.verify(doc, NOW)).toThrow('Attestation document signature is invalid');
+  });
+
+  it('should reject a document signed for a different certificate', () => {
+    const doc = createTestAttestation({
+      timestamp: NOW.getTime(),
+      certificate: testCa.intermediate,
+    });
+
+    expect(() => trusted.verify(doc, NOW)).toThrow('Attestation document signature is invalid');
+  });
+
+  it('should reject a chain that ends at a different root', () => {
+    const verifier = new NitroAttestationVerifier({
+      rootCertificate: new X509Certificate(testCa.untrustedRoot),
+    });
+    const doc = createTestAttestation({ timestamp: NOW.getTime() });
+
+    expect(() => verifier.verify(doc, NOW)).toThrow(/is not trusted/);
+  });
+
+  it('should reject a bundle whose intermediate does not link to the root', () => {
+    const doc = createTestAttestation({
+      timestamp: NOW.getTime(),
+      cabundle: [testCa.untrustedRoot, testCa.intermediate],
+    });
+
+    const verifier = new NitroAttestationVerifier({
+      rootCertificate: new X509Certificate(testCa.untrustedRoot),
+    });
+
+    expect(() => verifier.verify(doc, NOW)).toThrow(/is not signed by/);
+  });
+
+  it('should reject documents with an unsupported algorithm', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime(), algorithm: -7 });
+    expect(() => trusted.verify(doc, NOW)).toThrow('Unsupported COSE algorithm -7');
+  });
+
+  it('should reject stale documents', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime() - 10 * 60 * 1000 });
+    expect(() => trusted.verify(doc, NOW)).toThrow(/ms old/);
+  });
+
+  it('should reject documents dated beyond the allowed clock skew', () => {
+    const doc = createTestAttestation({ timestamp: NOW.getTime() + 2 * 60 * 1000 });
+    expect(() => trusted.verify(doc, NOW)).toThrow(/in the future/);
+
+    const tolerant = new NitroAttestationVerifier({
+      rootCertificate: new X509Certificate(testCa.root),
+      clockSkewMs: 5 * 60 * 1000,
+    });
+    expect(() => tolerant.verify(doc, NOW)).not.toThrow();
+  });
+
+  it('should reject certificates that have expired', () => {
+    const later = new Date('2200-01-01T00:00:00Z');
+    const doc = createTestAttestation({ timestamp: later.getTime() });
+
+    expect(() => trusted.verify(doc, later)).toThrow(/is not valid at/);
+  });
+});
+
+describe('attestsPublicKey', () => {
+  const attestation = parseNitroAttestation(
+    createTestAttestation({ timestamp: NOW.getTime(), publicKey: PUBLIC_KEY })
+  );
+
+  it('should match the attested key with or without 0x', () => {
+    expect(attestsPublicKey(attestation, PUBLIC_KEY.toString('hex'))).toBe(true);
+    expect(attestsPublicKey(attestation, '0x' + PUBLIC_KEY.toString('hex').toUpperCase())).toBe(
+      true
+    );
+  });
+
+  it('should not match other keys or documents without a key', () => {
+    expect(attestsPublicKey(attestation, '0x04' + 'cd'.repeat(64))).toBe(false);
+
+    const keyless = parseNitroAttestation(createTestAttestation({ timestamp: NOW.getTime() }));
+    expect(attestsPublicKey(keyless, PUBLIC_KEY.toString('hex'))).toBe(false);
+  });
+});
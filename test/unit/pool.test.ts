@@ -0,0 +1,228 @@
+/**
+ * Unit tests for the enclave connection pool
+ */
+
+import { EventEmitter } from 'events';
+import { PooledSocketClient } from '../../src/vsock/pool';
+import { SocketClient } from '../../src/vsock/client';
+import {
+  ConnectionState,
+  ProtocolInfo,
+  RejectedFrameStats,
+  TeeRequest,
+  TeeResponse,
+} from '../../src/types';
+import { VsocketError } from '../../src/utils/errors';
+import { flush } from '../helpers/stub-client';
+
+class FakeClient extends EventEmitter implements SocketClient {
+  connected = false;
+  failConnect = false;
+  sent: TeeRequest[] = [];
+  rejected: RejectedFrameStats = { oversized: 0, undecodable: 0, malformed: 0 };
+  private pending: Array<(response: TeeResponse) => void> = [];
+
+  async connect(): Promise<void> {
+    if (this.failConnect) {
+      throw new VsocketError('Connection refused');
+    }
+    this.connected = true;
+  }
+
+  sendRequest(req: TeeRequest): Promise<TeeResponse> {
+    if (!this.connected) {
+      return Promise.reject(new VsocketError('Not connected to enclave'));
+    }
+    this.sent.push(req);
+    return new Promise((resolve) => this.pending.push(resolve));
+  }
+
+  async *streamRequest(req: TeeRequest): AsyncIterableIterator<TeeResponse> {
+    yield await this.sendRequest(req);
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionState(): ConnectionState {
+    return this.connected ? 'connected' : 'disconnected';
+  }
+
+  getProtocolInfo(): ProtocolInfo | undefined {
+    return undefined;
+  }
+
+  getRejectedFrameStats(): RejectedFrameStats {
+    return this.rejected;
+  }
+
+  setHostServices(): void {
+    // Not exercised by the pool tests
+  }
+
+  answerAll(): void {
+    this.pending.splice(0).forEach((resolve, i) => resolve({ id: `${i}`, success: true }));
+  }
+}
+
+function makeRequest(id: string): TeeRequest {
+  return { id, method: 'ping', params: {}, timestamp: Date.now() };
+}
+
+describe('PooledSocketClient', () => {
+  let created: FakeClient[];
+  let factory: () => FakeClient;
+
+  beforeEach(() => {
+    created = [];
+    factory = () => {
+      const client = new FakeClient();
+      created.push(client);
+      return client;
+    };
+  });
+
+  it('should open the configured number of connections', async () => {
+    const pool = new PooledSocketClient(factory, { size: 3, replaceDelayMs: 10 });
+
+    await pool.connect();
+
+    expect(created).toHaveLength(3);
+    expect(pool.isConnected()).toBe(true);
+    expect(pool.getStats()).toMatchObject({ size: 3, healthy: 3, inflight: 0 });
+  });
+
+  it('should spread concurrent requests across the least busy connections', async () => {
+    const pool = new PooledSocketClient(factory, { size: 2, replaceDelayMs: 10 });
+    await pool.connect();
+
+    const first = pool.sendRequest(makeRequest('a'));
+    const second = pool.sendRequest(makeRequest('b'));
+
+    expect(created[0]!.sent).toHaveLength(1);
+    expect(created[1]!.sent).toHaveLength(1);
+    expect(pool.getStats().inflight).toBe(2);
+
+    created.forEach((client) => client.answerAll());
+    await Promise.all([first, second]);
+
+    expect(pool.getStats().inflight).toBe(0);
+  });
+
+  it('should skip dead connections and replace them in the background', async () => {
+    const pool = new PooledSocketClient(factory, { size: 2, replaceDelayMs: 10 });
+    await pool.connect();
+
+    created[0]!.connected = false;
+
+    const pending = pool.sendRequest(makeRequest('a'));
+    expect(created[1]!.sent).toHaveLength(1);
+
+    await flush();
+    expect(created).toHaveLength(3);
+    expect(pool.getStats()).toMatchObject({ healthy: 2, replacements: 1 });
+
+    created[1]!.answerAll();
+    await pending;
+  });
+
+  it('should leave reconnecting connections to their own supervisor', async () => {
+    const pool = new PooledSocketClient(factory, { size: 2, replaceDelayMs: 10 });
+    await pool.connect();
+
+    created[0]!.connected = false;
+    jest.spyOn(created[0]!, 'getConnectionState').mockReturnValue('reconnecting');
+
+    const pending = pool.sendRequest(makeRequest('a'));
+    await flush();
+
+    expect(created).toHaveLength(2);
+    created[1]!.answerAll();
+    await pending;
+  });
+
+  it('should hold a connection checked out for the whole stream', async () => {
+    const pool = new PooledSocketClient(factory, { size: 2, replaceDelayMs: 10 });
+    await pool.connect();
+
+    const stream = pool.streamRequest(makeRequest('a'));
+    const first = stream.next();
+    await flush();
+    expect(pool.getStats().inflight).toBe(1);
+
+    created.forEach((client) => client.answerAll());
+    await first;
+    await stream.next();
+
+    expect(pool.getStats().inflight).toBe(0);
+  });
+
+  it('should sum rejected frame counters across connections', async () => {
+    const pool = new PooledSocketClient(factory, { size: 2, replaceDelayMs: 10 });
+    await pool.connect();
+
+    created[0]!.rejected = { oversized: 1, undecodable: 0, malformed: 2 };
+    created[1]!.rejected = { oversized: 0, undecodable: 1, malformed: 1 };
+
+    expect(pool.getRejectedFrameStats()).toEqual({ oversized: 1, undecodable: 1, malformed: 3 });
+  });
+
+  it('should fail when no connection is healthy', async () => {
+    const pool = new PooledSocketClient(factory, { size: 1, replaceDelayMs: 10 });
+    await pool.connect();
+    await pool.disconnect();
+
+    await expect(pool.sendRequest(makeRequest('a'))).rejects.toThrow(
+      'No healthy enclave connection available'
+    );
+  });
+
+  it('should fail to connect when every connection fails', async () => {
+    const failing = () => {
+      const client = new FakeClient();
+      client.failConnect = true;
+      return client;
+    };
+    const pool = new PooledSocketClient(failing, { size: 2, replaceDelayMs: 10 });
+
+    await expect(pool.connect()).rejects.toThrow(VsocketError);
+  });
+
+  it('should stop retrying replacements and drop failed connections on disconnect', async () => {
+    jest.useFakeTimers();
+    try {
+      let failConnect = false;
+      const pool = new PooledSocketClient(
+        () => {
+          const client = factory();
+          client.failConnect = failConnect;
+          return client;
+        },
+        { size: 2, replaceDelayMs: 60000 }
+      );
+      await pool.connect();
+      failConnect = true;
+
+      created[0]!.connected = false;
+      const pending = pool.sendRequest(makeRequest('a'));
+      created[1]!.answerAll();
+      await pending;
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(created).toHaveLength(3);
+      expect(created[2]!.listenerCount('connected')).toBe(0);
+      expect(jest.getTimerCount()).toBe(1);
+
+      await pool.disconnect();
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(created).toHaveLength(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
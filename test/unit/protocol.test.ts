@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the host/enclave protocol handshake
+ */
+
+import {
+  createHelloRequest,
+  negotiateProtocol,
+  offeredEncodings,
+  HELLO_METHOD,
+  PROTOCOL_VERSION,
+} from '../../src/vsock/protocol';
+import { ProtocolError } from '../../src/utils/errors';
+
+describe('Protocol handshake', () => {
+  describe('createHelloRequest', () => {
+    it('should advertise the host protocol version and encodings', () => {
+      const request = createHelloRequest();
+
+      expect(request.method).toBe(HELLO_METHOD);
+      expect(request.params).toMatchObject({
+        protocolVersion: PROTOCOL_VERSION,
+        encodings: ['json'],
+      });
+    });
+  });
+
+  describe('offeredEncodings', () => {
+    it('should offer only JSON by default', () => {
+      expect(offeredEncodings({})).toEqual(['json']);
+    });
+
+    it('should offer only the configured encoding', () => {
+      expect(offeredEncodings({ encoding: 'msgpack' })).toEqual(['msgpack']);
+    });
+
+    it('should offer every codec, most compact first, in auto mode', () => {
+      expect(offeredEncodings({ encoding: 'auto' })).toEqual(['cbor', 'msgpack', 'json']);
+    });
+  });
+
+  describe('negotiateProtocol', () => {
+    it('should accept an enclave with the same major version', () => {
+      const info = negotiateProtocol({
+        id: '1',
+        success: true,
+        data: { protocolVersion: '1.3', encoding: 'json', capabilities: ['streaming', 42] },
+      });
+
+      expect(info).toEqual({
+        version: '1.3',
+        encoding: 'json',
+        capabilities: ['streaming'],
+        enclaveVersion: undefined,
+        legacy: false,
+      });
+    });
+
+    it('should fall back to the legacy protocol when the enclave does not know hello', () => {
+      const info = negotiateProtocol({ id: '1', success: false, error: 'Unknown method: hello' });
+
+      expect(info).toMatchObject({ version: PROTOCOL_VERSION, encoding: 'json', legacy: true });
+    });
+
+    it('should accept a binary encoding the host offered', () => {
+      const info = negotiateProtocol(
+        { id: '1', success: true, data: { protocolVersion: '1.0', encoding: 'cbor' } },
+        ['cbor', 'json']
+      );
+
+      expect(info.encoding).toBe('cbor');
+    });
+
+    it('should reject an encoding the host did not offer', () => {
+      expect(() =>
+        negotiateProtocol({
+          id: '1',
+          success: true,
+          data: { protocolVersion: '1.0', encoding: 'msgpack' },
+        })
+      ).toThrow(ProtocolError);
+    });
+
+    it('should refuse a legacy enclave when JSON is not offered', () => {
+      expect(() =>
+        negotiateProtocol({ id: '1', success: false, error: 'Unknown method: hello' }, ['cbor'])
+      ).toThrow(/Legacy enclave/);
+    });
+
+    it('should reject a different major version', () => {
+      expect(() =>
+        negotiateProtocol({ id: '1', success: true, data: { protocolVersion: '2.0' } })
+      ).toThrow(ProtocolError);
+    });
+
+    it('should reject a response without a protocol version', () => {
+      expect(() => negotiateProtocol({ id: '1', success: true, data: {} })).toThrow(
+        'Enclave did not report a protocol version'
+      );
+    });
+
+    it('should reject an unsupported encoding', () => {
+      expect(() =>
+        negotiateProtocol({
+          id: '1',
+          success: true,
+          data: { protocolVersion: '1.0', encoding: 'protobuf' },
+        })
+      ).toThrow(/unsupported encoding/);
+    });
+
+    it('should reject other handshake failures', () => {
+      expect(() => negotiateProtocol({ id: '1', success: false, error: 'Busy' })).toThrow(
+        'Enclave refused handshake: Busy'
+      );
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for scheduled re-attestation
+ */
+
+import axios from 'axios';
+import { EventEmitter } from 'events';
+import { ReattestationScheduler } from '../../src/attestation/scheduler';
+import {
+  AttestationSubmitter,
+  SubmittedAttestation,
+  submitFreshAttestation,
+} from '../../src/attestation/submit';
+import { EnclaveKeyTracker } from '../../src/enclaves/keys';
+import { ReattestationConfig } from '../../src/types';
+import { L3Error } from '../../src/utils/errors';
+import { attestationExpiry, parseNitroAttestation } from '../../src/attestation/nitro';
+import { createTestAttestation } from '../helpers/nitro';
+import { StubClient } from '../helpers/stub-client';
+
+jest.mock('axios');
+jest.mock('../../src/attestation/submit');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+const mockedSubmit = submitFreshAttestation as jest.MockedFunction<typeof submitFreshAttestation>;
+
+const ATTESTATION = parseNitroAttestation(createTestAttestation());
+const SUBMITTED = {
+  fresh: { attestation: ATTESTATION },
+  submission: { attestationId: 'att-1', submissionTime: new Date(), status: 'pending' },
+} as SubmittedAttestation;
+
+describe('ReattestationScheduler', () => {
+  let client: StubClient;
+  let keyTracker: EventEmitter;
+  let scheduler: ReattestationScheduler;
+
+  function createScheduler(config: ReattestationConfig = {}): ReattestationScheduler {
+    return new ReattestationScheduler(
+      'tapp-a',
+      client,
+      keyTracker as EnclaveKeyTracker,
+      {} as AttestationSubmitter,
+      { intervalMs: 60000, jitterMs: 6000, retryDelayMs: 1000, ...config }
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    mockedSubmit.mockResolvedValue(SUBMITTED);
+    mockedAxios.post.mockResolvedValue({});
+    client = new StubClient();
+    keyTracker = new EventEmitter();
+    scheduler = createScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should attest on startup, on reconnect and when the enclave key changes', async () => {
+    scheduler.start();
+    await scheduler.idle();
+    client.emit('connected');
+    await scheduler.idle();
+    keyTracker.emit('keyChanged');
+    await scheduler.idle();
+
+    expect(mockedSubmit).toHaveBeenCalledTimes(3);
+    expect(mockedSubmit).toHaveBeenCalledWith('tapp-a', client, {});
+  });
+
+  it('should attest again within the interval less its jitter', async () => {
+    scheduler.start();
+    await scheduler.idle();
+
+    await jest.advanceTimersByTimeAsync(54000 - 1);
+    expect(mockedSubmit).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(6001);
+    expect(mockedSubmit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should attest again before the attestation expires if that comes first', async () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.setSystemTime(attestationExpiry(ATTESTATION).getTime() - 30000);
+    scheduler.start();
+    await scheduler.idle();
+
+    await jest.advanceTimersByTimeAsync(30000 - 1);
+    expect(mockedSubmit).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockedSubmit).toHaveBeenCalledTimes(2);
+    random.mockRestore();
+  });
+
+  it('should queue one more run for reconnects and key changes during a run', async () => {
+    let finish: (submitted: SubmittedAttestation) => void = () => undefined;
+    mockedSubmit.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+
+    scheduler.start();
+    client.emit('connected');
+    keyTracker.emit('keyChanged');
+    expect(mockedSubmit).toHaveBeenCalledTimes(1);
+
+    finish(SUBMITTED);
+    await scheduler.idle();
+    expect(mockedSubmit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop scheduled runs that come up during a run', async () => {
+    let finish: (submitted: SubmittedAttestation) => void = () => undefined;
+    mockedSubmit.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(60000);
+    finish(SUBMITTED);
+    await scheduler.idle();
+
+    expect(mockedSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the enclave to connect', async () => {
+    client.connected = false;
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(mockedSubmit).not.toHaveBeenCalled();
+
+    client.connected = true;
+    client.emit('connected');
+    await scheduler.idle();
+    expect(mockedSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry with backoff, alert after repeated failures and report recovery', async () => {
+    scheduler = createScheduler({
+      alertAfterFailures: 3,
+      alertWebhookUrl: 'https://alerts.example.com/hook',
+    });
+    mockedSubmit.mockRejectedValue(new L3Error('Attestation accepted by 0 of 3 guardians'));
+
+    scheduler.start();
+    await scheduler.idle();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockedSubmit).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+
+    // Third failure, two seconds later, raises the alert
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(mockedSubmit).toHaveBeenCalledTimes(3);
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://alerts.example.com/hook',
+      expect.objectContaining({
+        alert: 'reattestation',
+        tappId: 'tapp-a',
+        status: 'failing',
+        consecutiveFailures: 3,
+        error: 'Attestation accepted by 0 of 3 guardians',
+      }),
+      expect.anything()
+    );
+
+    mockedSubmit.mockResolvedValue(SUBMITTED);
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(mockedSubmit).toHaveBeenCalledTimes(4);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.post).toHaveBeenLastCalledWith(
+      'https://alerts.example.com/hook',
+      expect.objectContaining({ status: 'resolved' }),
+      expect.anything()
+    );
+  });
+
+  it('should count an enclave that cannot attest as a failure', async () => {
+    mockedSubmit.mockResolvedValue(undefined);
+
+    scheduler.start();
+    await scheduler.idle();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mockedSubmit).toHaveBeenCalledTimes(2);
+  });
+});
@@ -106,4 +106,22 @@ describe('retryWithBackoff', () => {
     expect(duration).toBeLessThan(50);
     expect(operation).toHaveBeenCalledTimes(1);
   });
+
+  it('should stop retrying once the signal aborts', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockRejectedValue(new Error('Still failing'));
+
+    const startTime = Date.now();
+    const retrying = retryWithBackoff(operation, {
+      maxAttempts: 3,
+      delayMs: 1000,
+      backoffMultiplier: 2,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(retrying).rejects.toThrow('Still failing');
+    expect(Date.now() - startTime).toBeLessThan(500);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
 });
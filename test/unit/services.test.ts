@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the host service registry and core services
+ */
+
+import { HostServiceRegistry } from '../../src/services/registry';
+import { registerCoreServices } from '../../src/services/core';
+import { HostError, HostServiceError } from '../../src/utils/errors';
+import { TeeRequest } from '../../src/types';
+
+function makeRequest(method: string, params: unknown = {}): TeeRequest {
+  return { id: 'enclave-1', method, params, timestamp: Date.now() };
+}
+
+describe('HostServiceRegistry', () => {
+  const context = { tappId: 'tapp-1' };
+
+  it('should pass params and call details to the handler', async () => {
+    const handler = jest.fn().mockResolvedValue({ ok: true });
+    const registry = new HostServiceRegistry().register('echo', handler);
+
+    const response = await registry.handle(makeRequest('echo', { x: 1 }), context);
+
+    expect(response).toEqual({ id: 'enclave-1', success: true, data: { ok: true } });
+    expect(handler).toHaveBeenCalledWith(
+      { x: 1 },
+      { tappId: 'tapp-1', requestId: 'enclave-1', method: 'echo' }
+    );
+  });
+
+  it('should answer unknown methods with an error response', async () => {
+    const response = await new HostServiceRegistry().handle(makeRequest('missing'), context);
+
+    expect(response).toEqual({ id: 'enclave-1', success: false, error: 'Unknown method: missing' });
+  });
+
+  it('should pass on HostServiceError messages', async () => {
+    const registry = new HostServiceRegistry().register('fail', () => {
+      throw new HostServiceError('Quota exceeded');
+    });
+
+    const response = await registry.handle(makeRequest('fail'), context);
+
+    expect(response).toMatchObject({ success: false, error: 'Quota exceeded' });
+  });
+
+  it('should hide unexpected handler errors', async () => {
+    const registry = new HostServiceRegistry().register('fail', () => {
+      throw new Error('ENOENT: /var/lib/secret');
+    });
+
+    const response = await registry.handle(makeRequest('fail'), context);
+
+    expect(response).toMatchObject({ success: false, error: 'Internal host service error' });
+  });
+
+  it('should refuse to register a method twice', () => {
+    const registry = new HostServiceRegistry().register('echo', () => null);
+
+    expect(() => registry.register('echo', () => null)).toThrow(HostError);
+    expect(registry.methods()).toEqual(['echo']);
+  });
+
+  it('should unregister handlers', () => {
+    const registry = new HostServiceRegistry().register('echo', () => null);
+
+    expect(registry.unregister('echo')).toBe(true);
+    expect(registry.has('echo')).toBe(false);
+  });
+});
+
+describe('Core host services', () => {
+  const registry = registerCoreServices(new HostServiceRegistry());
+  const context = { tappId: 'tapp-1' };
+
+  it('should return the host time', async () => {
+    const response = await registry.handle(makeRequest('get_time'), context);
+
+    expect(response.success).toBe(true);
+    expect(response.data).toMatchObject({ timestamp: expect.any(Number), iso: expect.any(String) });
+  });
+
+  it('should accept enclave log lines', async () => {
+    const response = await registry.handle(
+      makeRequest('log', { level: 'info', message: 'sealed state loaded' }),
+      context
+    );
+
+    expect(response).toMatchObject({ success: true });
+  });
+
+  it('should reject invalid log levels', async () => {
+    const response = await registry.handle(
+      makeRequest('log', { level: 'trace', message: 'x' }),
+      context
+    );
+
+    expect(response).toMatchObject({ success: false, error: 'Invalid log level: trace' });
+  });
+
+  it('should reject params that are not an object', async () => {
+    const response = await registry.handle(makeRequest('log', ['info', 'x']), context);
+
+    expect(response).toMatchObject({
+      success: false,
+      error: 'Host service params must be an object',
+    });
+  });
+});
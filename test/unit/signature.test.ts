@@ -0,0 +1,350 @@
+/**
+ * Unit tests for enclave response signatures and the verifying client
+ */
+
+import { createECDH, createPrivateKey, KeyObject, sign, X509Certificate } from 'crypto';
+import {
+  StreamSignatureVerifier,
+  canonicalJson,
+  canonicalResponsePayload,
+  parsePublicKey,
+  verifyResponseSignature,
+} from '../../src/utils/signature';
+import { VerifyingSocketClient } from '../../src/vsock/verifier';
+import { NitroAttestationVerifier } from '../../src/attestation/nitro';
+import { TeeRequest, TeeResponse } from '../../src/types';
+import { HostError, SignatureVerificationError } from '../../src/utils/errors';
+import { createTestAttestation, testCa } from '../helpers/nitro';
+import { StubClient } from '../helpers/stub-client';
+
+interface TestKey {
+  publicKey: string; // Uncompressed hex point
+  compressedKey: string;
+  privateKey: KeyObject;
+}
+
+function generateKey(): TestKey {
+  const ecdh = createECDH('secp256k1');
+  ecdh.generateKeys();
+  const point = ecdh.getPublicKey();
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'secp256k1',
+      d: ecdh.getPrivateKey().toString('base64url'),
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  return {
+    publicKey: `0x${point.toString('hex')}`,
+    compressedKey: `0x${ecdh.getPublicKey(undefined, 'compressed').toString('hex')}`,
+    privateKey,
+  };
+}
+
+function signPayload(key: TestKey, payload: string, encoding: 'ieee-p1363' | 'der'): string {
+  const signature = sign('sha256', Buffer.from(payload), {
+    key: key.privateKey,
+    dsaEncoding: encoding,
+  });
+  return `0x${signature.toString('hex')}`;
+}
+
+function signResponse(key: TestKey, id: string, data: unknown): string {
+  return signPayload(key, canonicalResponsePayload(id, data), 'ieee-p1363');
+}
+
+const enclaveKey = generateKey();
+const otherKey = generateKey();
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every level and drop whitespace', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[2,{"e":4,"f":3}]},"b":1}'
+    );
+  });
+
+  it('should encode absent response data as null', () => {
+    expect(canonicalResponsePayload('req-1', undefined)).toBe('{"data":null,"id":"req-1"}');
+  });
+});
+
+describe('verifyResponseSignature', () => {
+  const data = { price: '45000.50', symbol: 'BTCUSDT' };
+
+  it('should accept a compact signature from the enclave key', () => {
+    const signature = signResponse(enclaveKey, 'req-1', data);
+
+    expect(
+      verifyResponseSignature('req-1', data, signature, parsePublicKey(enclaveKey.publicKey))
+    ).toBe(true);
+  });
+
+  it('should accept DER signatures, recovery bytes and compressed keys', () => {
+    const payload = canonicalResponsePayload('req-1', data);
+    const der = signPayload(enclaveKey, payload, 'der');
+    const withRecovery = `${signPayload(enclaveKey, payload, 'ieee-p1363')}1b`;
+    const key = parsePublicKey(enclaveKey.compressedKey);
+
+    expect(verifyResponseSignature('req-1', data, der, key)).toBe(true);
+    expect(verifyResponseSignature('req-1', data, withRecovery, key)).toBe(true);
+  });
+
+  it('should reject signatures over other data, other ids or from other keys', () => {
+    const signature = signResponse(enclaveKey, 'req-1', data);
+    const key = parsePublicKey(enclaveKey.publicKey);
+
+    expect(verifyResponseSignature('req-1', { ...data, price: '1' }, signature, key)).toBe(false);
+    expect(verifyResponseSignature('req-2', data, signature, key)).toBe(false);
+    expect(
+      verifyResponseSignature('req-1', data, signature, parsePublicKey(otherKey.publicKey))
+    ).toBe(false);
+  });
+
+  it('should treat malformed signatures as invalid', () => {
+    const key = parsePublicKey(enclaveKey.publicKey);
+
+    expect(verifyResponseSignature('req-1', data, '0xnothex', key)).toBe(false);
+    expect(verifyResponseSignature('req-1', data, '0x1234', key)).toBe(false);
+  });
+
+  it('should refuse public keys that are not secp256k1 points', () => {
+    expect(() => parsePublicKey('0x1234567890abcdef')).toThrow(HostError);
+    expect(() => parsePublicKey(`0x04${'00'.repeat(64)}`)).toThrow(HostError);
+  });
+});
+
+describe('StreamSignatureVerifier', () => {
+  it('should check the data of every frame in order', () => {
+    const rows = [{ row: 0 }, { row: 1 }];
+    const signature = signPayload(
+      enclaveKey,
+      canonicalJson({ data: rows, id: 'stream-1' }),
+      'ieee-p1363'
+    );
+    const keys = [parsePublicKey(otherKey.publicKey), parsePublicKey(enclaveKey.publicKey)];
+
+    const inOrder = new StreamSignatureVerifier('stream-1', keys);
+    rows.forEach((row) => inOrder.addData(row));
+    const reordered = new StreamSignatureVerifier('stream-1', keys);
+    [...rows].reverse().forEach((row) => reordered.addData(row));
+
+    expect(inOrder.verify(signature)).toBe(true);
+    expect(reordered.verify(signature)).toBe(false);
+  });
+});
+
+class SigningClient extends StubClient {
+  responses: Record<string, (req: TeeRequest) => TeeResponse> = {};
+  frames: TeeResponse[] = [];
+  publicKey = enclaveKey.publicKey;
+  attestedKey?: string; // Key in the attestation document, when it differs from the reported one
+
+  override respond = (req: TeeRequest): TeeResponse => {
+    if (req.method !== 'get_attestation') {
+      return this.responses[req.method]!(req);
+    }
+    const attested = this.attestedKey ?? this.publicKey;
+    const document = createTestAttestation({ publicKey: Buffer.from(attested.slice(2), 'hex') });
+    return {
+      id: req.id,
+      success: true,
+      data: {
+        attestation: document.toString('base64'),
+        certificates: [],
+        publicKey: this.publicKey,
+      },
+    };
+  };
+
+  override async *streamRequest(): AsyncIterableIterator<TeeResponse> {
+    for (const frame of this.frames) {
+      yield await Promise.resolve(frame);
+    }
+  }
+}
+
+describe('VerifyingSocketClient', () => {
+  const request = (method: string, id = 'req-1'): TeeRequest => ({
+    id,
+    method,
+    params: {},
+    timestamp: 0,
+  });
+  const data = { result: 42 };
+  let stub: SigningClient;
+
+  beforeEach(() => {
+    stub = new SigningClient();
+    stub.responses.signed = (req) => ({
+      id: req.id,
+      success: true,
+      data,
+      signature: signResponse(enclaveKey, req.id, data),
+    });
+    stub.responses.forged = (req) => ({
+      id: req.id,
+      success: true,
+      data,
+      signature: signResponse(otherKey, req.id, data),
+    });
+    stub.responses.unsigned = (req) => ({ id: req.id, success: true, data, verified: true });
+    stub.responses.failed = (req) => ({ id: req.id, success: false, error: 'Unknown method' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const attestationVerifier = new NitroAttestationVerifier({
+    rootCertificate: new X509Certificate(testCa.root),
+  });
+  const client = (policy: 'reject' | 'flag' | 'passthrough') =>
+    new VerifyingSocketClient(stub, attestationVerifier, { policy });
+
+  it('should learn the enclave key from an attestation it fetched and verified', async () => {
+    const verifier = client('passthrough');
+
+    await verifier.sendRequest(request('signed'));
+
+    expect(verifier.getPublicKey()).toBe(enclaveKey.publicKey);
+    expect(verifier.getVerificationStats()).toMatchObject({ verified: 1, invalid: 0 });
+  });
+
+  it('should not learn keys from attestations requested by callers', async () => {
+    const verifier = client('passthrough');
+    const sendRequest = jest.spyOn(stub, 'sendRequest');
+
+    await verifier.sendRequest(request('get_attestation'));
+
+    expect(verifier.getPublicKey()).toBeUndefined();
+    expect(sendRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not learn a key the attestation document does not attest', async () => {
+    const verifier = client('reject');
+    stub.attestedKey = otherKey.publicKey;
+
+    await expect(verifier.sendRequest(request('signed'))).rejects.toThrow(
+      'failed signature verification (unverifiable)'
+    );
+    expect(verifier.getPublicKey()).toBeUndefined();
+  });
+
+  it('should fetch the attestation when it has no key to check a signature with', async () => {
+    const verifier = client('reject');
+    const sendRequest = jest.spyOn(stub, 'sendRequest');
+
+    await expect(verifier.sendRequest(request('signed'))).resolves.toMatchObject({ data });
+
+    expect(sendRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'get_attestation' }),
+      expect.anything()
+    );
+  });
+
+  it('should not ask for attestations when no trusted root is configured', async () => {
+    const verifier = new VerifyingSocketClient(stub, new NitroAttestationVerifier(), {
+      policy: 'passthrough',
+    });
+    const sendRequest = jest.spyOn(stub, 'sendRequest');
+
+    await verifier.sendRequest(request('signed'));
+
+    expect(sendRequest).not.toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'get_attestation' }),
+      expect.anything()
+    );
+    expect(verifier.getVerificationStats()).toMatchObject({ unverifiable: 1 });
+  });
+
+  it('should reject invalid and unsigned responses under the reject policy', async () => {
+    const verifier = client('reject');
+    await verifier.sendRequest(request('signed'));
+
+    await expect(verifier.sendRequest(request('forged'))).rejects.toThrow(
+      SignatureVerificationError
+    );
+    await expect(verifier.sendRequest(request('unsigned'))).rejects.toThrow(
+      'failed signature verification (unsigned)'
+    );
+    expect(verifier.getVerificationStats()).toMatchObject({ invalid: 1, unsigned: 1 });
+  });
+
+  it('should mark responses with the outcome under the flag policy', async () => {
+    const verifier = client('flag');
+
+    await expect(verifier.sendRequest(request('signed'))).resolves.toMatchObject({
+      verified: true,
+    });
+    await expect(verifier.sendRequest(request('forged'))).resolves.toMatchObject({
+      verified: false,
+    });
+  });
+
+  it('should pass responses through unchanged but never trust an enclave-set flag', async () => {
+    const verifier = client('passthrough');
+    await verifier.sendRequest(request('signed'));
+
+    const response = await verifier.sendRequest(request('unsigned'));
+
+    expect(response).toEqual({ id: 'req-1', success: true, data });
+    expect(verifier.getVerificationStats().unsigned).toBe(1);
+  });
+
+  it('should not check failed responses', async () => {
+    const verifier = client('reject');
+
+    await expect(verifier.sendRequest(request('failed'))).resolves.toMatchObject({
+      success: false,
+    });
+    expect(verifier.getVerificationStats()).toMatchObject({ invalid: 0, unsigned: 0 });
+  });
+
+  it('should pick up a new key after the enclave restarts', async () => {
+    const verifier = client('reject');
+    await verifier.sendRequest(request('signed'));
+
+    stub.emit('disconnected');
+    expect(verifier.getPublicKey()).toBeUndefined();
+
+    stub.publicKey = otherKey.publicKey;
+    await expect(verifier.sendRequest(request('forged'))).resolves.toMatchObject({ data });
+    expect(verifier.getPublicKey()).toBe(otherKey.publicKey);
+  });
+
+  it('should verify the end frame of a stream over the data of every frame', async () => {
+    const rows = [{ row: 0 }, { row: 1 }];
+    const signature = signPayload(
+      enclaveKey,
+      canonicalJson({ data: rows, id: 'stream-1' }),
+      'ieee-p1363'
+    );
+    stub.frames = [
+      { id: 'stream-1', success: true, stream: 'chunk', seq: 0, data: rows[0] },
+      { id: 'stream-1', success: true, stream: 'chunk', seq: 1, data: rows[1] },
+      { id: 'stream-1', success: true, stream: 'end', seq: 2, signature },
+    ];
+    const verifier = client('flag');
+
+    const frames: TeeResponse[] = [];
+    for await (const frame of verifier.streamRequest(request('export', 'stream-1'))) {
+      frames.push(frame);
+    }
+
+    expect(frames.map((frame) => frame.verified)).toEqual([undefined, undefined, true]);
+  });
+
+  it('should reject a stream whose end frame is not validly signed', async () => {
+    stub.frames = [
+      { id: 'stream-1', success: true, stream: 'chunk', seq: 0, data: { row: 0 } },
+      { id: 'stream-1', success: true, stream: 'end', seq: 1, signature: '0x1234' },
+    ];
+    const frames = client('reject').streamRequest(request('export', 'stream-1'));
+
+    await expect(frames.next()).resolves.toMatchObject({ value: { stream: 'chunk' } });
+    await expect(frames.next()).rejects.toThrow(SignatureVerificationError);
+  });
+});
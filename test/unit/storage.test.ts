@@ -0,0 +1,195 @@
+/**
+ * Unit tests for the host blob storage service and its file store
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileBlobStore, StorageService, MAX_KEY_BYTES } from '../../src/services/storage';
+import { HostServiceCall, HostServiceRegistry } from '../../src/services/registry';
+import { HostServiceError } from '../../src/utils/errors';
+
+function base64(text: string): string {
+  return Buffer.from(text).toString('base64');
+}
+
+describe('StorageService', () => {
+  let directory: string;
+  let storage: StorageService;
+
+  const call: HostServiceCall = { tappId: 'tapp-1', requestId: 'enclave-1', method: 'storage' };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'enclave-storage-'));
+    storage = new StorageService({ directory, maxValueBytes: 64, maxTappBytes: 100 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store and return opaque blobs with their version', async () => {
+    await expect(storage.put({ key: 'state', value: base64('sealed') }, call)).resolves.toEqual({
+      version: 1,
+    });
+
+    await expect(storage.get({ key: 'state' }, call)).resolves.toEqual({
+      value: base64('sealed'),
+      version: 1,
+    });
+  });
+
+  it('should return null for missing keys', async () => {
+    await expect(storage.get({ key: 'missing' }, call)).resolves.toBeNull();
+  });
+
+  it('should keep TAPPs apart', async () => {
+    await storage.put({ key: 'state', value: base64('one') }, call);
+
+    await expect(storage.get({ key: 'state' }, { ...call, tappId: 'tapp-2' })).resolves.toBeNull();
+  });
+
+  it('should persist across service instances', async () => {
+    await storage.put({ key: 'state', value: base64('sealed') }, call);
+
+    const restarted = new StorageService({ directory });
+    await expect(restarted.get({ key: 'state' }, call)).resolves.toMatchObject({ version: 1 });
+  });
+
+  it('should apply compare-and-swap on expectedVersion', async () => {
+    await storage.put({ key: 'state', value: base64('v1'), expectedVersion: 0 }, call);
+
+    await expect(
+      storage.put({ key: 'state', value: base64('v2'), expectedVersion: 0 }, call)
+    ).rejects.toThrow('Version conflict: expected 0, current 1');
+    await expect(
+      storage.put({ key: 'state', value: base64('v2'), expectedVersion: 1 }, call)
+    ).resolves.toEqual({ version: 2 });
+  });
+
+  it('should let only one of two concurrent conditional writes win', async () => {
+    const results = await Promise.allSettled([
+      storage.put({ key: 'state', value: base64('a'), expectedVersion: 0 }, call),
+      storage.put({ key: 'state', value: base64('b'), expectedVersion: 0 }, call),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+  });
+
+  it('should delete keys, honouring expectedVersion', async () => {
+    await storage.put({ key: 'state', value: base64('v1') }, call);
+
+    await expect(storage.delete({ key: 'state', expectedVersion: 2 }, call)).rejects.toThrow(
+      HostServiceError
+    );
+    await expect(storage.delete({ key: 'state' }, call)).resolves.toEqual({ deleted: true });
+    await expect(storage.delete({ key: 'state' }, call)).resolves.toEqual({ deleted: false });
+  });
+
+  it('should list keys by prefix with paging', async () => {
+    for (const key of ['a/1', 'a/2', 'a/3', 'b/1']) {
+      await storage.put({ key, value: base64('x') }, call);
+    }
+
+    const first = await storage.list({ prefix: 'a/', limit: 2 }, call);
+    expect(first.entries.map((entry) => entry.key)).toEqual(['a/1', 'a/2']);
+    expect(first.nextAfter).toBe('a/2');
+
+    const second = await storage.list({ prefix: 'a/', after: first.nextAfter, limit: 2 }, call);
+    expect(second.entries).toEqual([{ key: 'a/3', version: 1, size: 1 }]);
+    expect(second.nextAfter).toBeUndefined();
+  });
+
+  it('should enforce the value size limit', async () => {
+    await expect(
+      storage.put({ key: 'big', value: Buffer.alloc(65).toString('base64') }, call)
+    ).rejects.toThrow('Storage value of 65 bytes exceeds limit of 64 bytes');
+  });
+
+  it('should enforce the per-TAPP byte quota, counting overwrites once', async () => {
+    await storage.put({ key: 'a', value: Buffer.alloc(60).toString('base64') }, call);
+    await storage.put({ key: 'a', value: Buffer.alloc(60).toString('base64') }, call);
+
+    await expect(
+      storage.put({ key: 'b', value: Buffer.alloc(41).toString('base64') }, call)
+    ).rejects.toThrow('Storage quota of 100 bytes exceeded');
+
+    await storage.delete({ key: 'a' }, call);
+    await expect(
+      storage.put({ key: 'b', value: Buffer.alloc(41).toString('base64') }, call)
+    ).resolves.toEqual({ version: 1 });
+  });
+
+  it('should enforce the per-TAPP key quota', async () => {
+    const limited = new StorageService({ directory, maxKeysPerTapp: 1 });
+    await limited.put({ key: 'a', value: base64('x') }, call);
+
+    await expect(limited.put({ key: 'b', value: base64('x') }, call)).rejects.toThrow(
+      'Storage quota of 1 keys exceeded'
+    );
+  });
+
+  it('should reject invalid keys', async () => {
+    await expect(storage.get({ key: '' }, call)).rejects.toThrow(HostServiceError);
+    await expect(storage.get({ key: 'k'.repeat(MAX_KEY_BYTES + 1) }, call)).rejects.toThrow(
+      /exceeds/
+    );
+  });
+
+  it('should be callable by the enclave as storage_* host services', async () => {
+    const registry = storage.register(new HostServiceRegistry());
+    const context = { tappId: 'tapp-1' };
+
+    await registry.handle(
+      { id: '1', method: 'storage_put', params: { key: 'k', value: base64('v') }, timestamp: 0 },
+      context
+    );
+    const response = await registry.handle(
+      { id: '2', method: 'storage_get', params: { key: 'k' }, timestamp: 0 },
+      context
+    );
+
+    expect(response).toEqual({ id: '2', success: true, data: { value: base64('v'), version: 1 } });
+  });
+});
+
+describe('FileBlobStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'enclave-blobs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should not leave temporary files behind', async () => {
+    const store = new FileBlobStore(directory);
+
+    await store.put('tapp-1', 'key', { value: Buffer.from('v1'), version: 1 });
+    await store.put('tapp-1', 'key', { value: Buffer.from('v2'), version: 2 });
+
+    const [tappDirectory] = fs.readdirSync(directory);
+    expect(fs.readdirSync(path.join(directory, tappDirectory!))).toEqual([
+      `${Buffer.from('key').toString('hex')}.blob`,
+    ]);
+    await expect(store.get('tapp-1', 'key')).resolves.toEqual({
+      value: Buffer.from('v2'),
+      version: 2,
+    });
+  });
+
+  it('should list versions and sizes without reading the values', async () => {
+    const store = new FileBlobStore(directory);
+    await store.put('tapp-1', 'b', { value: Buffer.alloc(1000), version: 3 });
+    await store.put('tapp-1', 'a', { value: Buffer.from('v1'), version: 1 });
+    const get = jest.spyOn(store, 'get');
+
+    await expect(store.list('tapp-1')).resolves.toEqual([
+      { key: 'a', version: 1, size: 2 },
+      { key: 'b', version: 3, size: 1000 },
+    ]);
+    expect(get).not.toHaveBeenCalled();
+  });
+});